@@ -1,24 +1,93 @@
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import { newLandingAt, newRampAt } from "../model/defaults";
+import { Suspense, lazy, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { DEFAULT_COMPLIANCE_SETTINGS, evaluateCompliance, groupWarningsByObject, resolveComplianceRules } from "../model/compliance";
+import {
+  PASTE_OFFSET_MM,
+  cloneForPaste,
+  getPasteOffsetMm,
+  parseClipboard,
+  serialiseClipboard,
+  type ClipboardContent,
+} from "../model/clipboard";
+import { buildConnectionGraph } from "../model/connections";
+import { DEFAULT_PROJECT_INFO, newLandingAt, newRampAt, newStairsAt } from "../model/defaults";
+import { expandToGroups, getGroupsWithin, groupObjects, ungroup, updateGroup } from "../model/groups";
+import { propagateLevels } from "../model/levelPropagation";
+import {
+  deleteObjects,
+  getGroupRectMm,
+  getSelectedObjects,
+  moveObjects,
+  rotateObjectsAboutCentre,
+  selectionEquals,
+  updateSelectedObjects,
+} from "../model/selection";
 import { updateObject, type ObjectPatch } from "../model/objectUpdate";
-import { Snapshot, SnapIncrementMm, Tool } from "../model/types";
-import { centerFromTopLeftMm, getObjectBoundingBoxMm, topLeftFromCenterMm } from "../model/geometry";
-import { loadProject, saveProject } from "../model/storage";
+import { reorderObject, type ReorderDirection } from "../model/outliner";
+import {
+  ComplianceRules,
+  Object2D,
+  ProjectInfo,
+  RuleSetId,
+  Snapshot,
+  SnapIncrementMm,
+  Tool,
+  Underlay,
+  UnderlayPlacement,
+} from "../model/types";
+import type { PointMm } from "../model/geometry";
+import type { PersistedProject, ProjectFileImport } from "../model/storage";
+import { calibrateUnderlay } from "../model/underlay";
 import { DEFAULT_SNAP_INCREMENT_MM, snapMm } from "../model/units";
-import { HistoryState, canRedo, canUndo, commitSnapshot, createHistoryState, redo, replacePresent, undo } from "../model/history";
+import { exportProjectFile } from "../export/projectExport";
+import { importProjectFile } from "../import/projectImport";
+import {
+  AUTO_REVISION_INTERVAL_MS,
+  deleteLibraryProject,
+  deleteProjectRevision,
+  duplicateLibraryProject,
+  getCurrentProjectId,
+  listProjectRevisions,
+  listProjects,
+  loadLibraryHistory,
+  loadLibraryProject,
+  loadProjectRevision,
+  migrateLegacyProject,
+  newProjectId,
+  renameLibraryProject,
+  saveLibraryProject,
+  saveProjectRevision,
+  setCurrentProjectId,
+} from "../storage/projectLibrary";
+import { clearRecovery, readRecovery, writeRecovery, type RecoveredProject } from "../storage/recovery";
+import { HistoryStacks, HistoryState, canRedo, canUndo, commitSnapshot, createHistoryState, redo, replacePresent, undo } from "../model/history";
 import Canvas2D from "../ui/canvas/Canvas2D";
-import Preview3D from "../ui/preview/Preview3D";
+import RampDesignerDialog from "../ui/designer/RampDesignerDialog";
+import ExportDialog from "../ui/export/ExportDialog";
 import Inspector from "../ui/layout/Inspector";
+import OutlinerPanel from "../ui/layout/OutlinerPanel";
+import RuleSetPanel from "../ui/layout/RuleSetPanel";
+import SelectionInspector from "../ui/layout/SelectionInspector";
 import TopBar from "../ui/layout/TopBar";
 import Toolbox from "../ui/layout/Toolbox";
+import UnderlayPanel from "../ui/layout/UnderlayPanel";
+import WarningsPanel from "../ui/layout/WarningsPanel";
+import ProjectImportDialog from "../ui/project/ProjectImportDialog";
+import ProjectLibraryDialog from "../ui/project/ProjectLibraryDialog";
+import RecoveryDialog from "../ui/project/RecoveryDialog";
+import RevisionsDialog from "../ui/project/RevisionsDialog";
+import StartupNoticeDialog from "../ui/project/StartupNoticeDialog";
 import "./styles.css";
 
+// three.js is only needed once someone opens the 3D view, so keep it out of the initial bundle.
+const Preview3D = lazy(() => import("../ui/preview/Preview3D"));
+
 export type EditMode = "2d" | "3d";
 
 const statusText: Record<Tool, string> = {
-  none: "No tool selected. Click any object to select. Shortcuts: R (Ramp), P (Landing), D, Esc.",
+  none: "No tool selected. Click any object to select. Shortcuts: R (Ramp), P (Landing), S (Stairs), D, Esc, Ctrl+C/V/D, Ctrl+G.",
   ramp: "Ramp: Click on empty canvas to place once. Esc to cancel.",
   landing: "Landing: Click on empty canvas to place once. Esc to cancel.",
+  stairs: "Stairs: Click on empty canvas to place once. Esc to cancel.",
   delete: "Delete: Click an object to delete, or Esc to cancel.",
 };
 
@@ -26,8 +95,58 @@ const defaultSnapshot: Snapshot = {
   snapToGrid: true,
   snapToObjects: true,
   snapIncrementMm: DEFAULT_SNAP_INCREMENT_MM,
+  cascadeLevels: true,
+  compliance: DEFAULT_COMPLIANCE_SETTINGS,
+  projectInfo: DEFAULT_PROJECT_INFO,
+  underlay: null,
   objects: [],
-  selectedId: null,
+  groups: [],
+  selectedIds: [],
+  showLabels: false,
+};
+
+const toSnapshot = (project: PersistedProject): Snapshot => ({
+  objects: project.objects,
+  snapToGrid: project.snapToGrid,
+  snapToObjects: project.snapToObjects,
+  snapIncrementMm: project.snapIncrementMm,
+  cascadeLevels: project.cascadeLevels,
+  compliance: project.compliance,
+  projectInfo: project.projectInfo,
+  underlay: project.underlay,
+  groups: project.groups,
+  selectedIds: project.selectedIds,
+  showLabels: project.showLabels,
+});
+
+/** Identifies what a save would store, whatever order the project's fields were built in. */
+const toSaveKey = (id: string, project: PersistedProject): string =>
+  `${id}\n${JSON.stringify({ mode: project.mode, activeTool: project.activeTool, ...toSnapshot(project) })}`;
+
+/** What the library has stored, or is about to store, for the open project. */
+type SavedProject = {
+  id: string;
+  key: string;
+  project: PersistedProject;
+  history: HistoryStacks;
+};
+
+const loadProjectWithHistory = (id: string) => Promise.all([loadLibraryProject(id), loadLibraryHistory(id)]);
+
+/** A line for the startup notice saying which project could not be opened, and why. */
+const toOpenProblem = (projectName: string, error: unknown): string =>
+  `${projectName || "Untitled project"}: ${error instanceof Error ? error.message : String(error)}`;
+
+/** Unsaved edits found at startup, with the library's copy of the same project if it has one. */
+type PendingRecovery = RecoveredProject & {
+  stored: PersistedProject | null;
+};
+
+/** A project file picked for opening, read and waiting for the user to confirm. */
+type PendingProjectImport = {
+  fileName: string;
+  result: ProjectFileImport | null;
+  error: string | null;
 };
 
 export default function AppShell() {
@@ -35,48 +154,230 @@ export default function AppShell() {
   const [activeTool, setActiveTool] = useState<Tool>("none");
   const [history, setHistory] = useState<HistoryState>(() => createHistoryState(defaultSnapshot));
 
-  const { objects, selectedId, snapToGrid, snapToObjects, snapIncrementMm } = history.present;
+  const {
+    objects,
+    groups,
+    selectedIds,
+    snapToGrid,
+    snapToObjects,
+    snapIncrementMm,
+    cascadeLevels,
+    compliance,
+    projectInfo,
+    underlay,
+    showLabels,
+  } = history.present;
+  const [exportOpen, setExportOpen] = useState(false);
+  const [rampDesignerOpen, setRampDesignerOpen] = useState(false);
+  const [pendingImport, setPendingImport] = useState<PendingProjectImport | null>(null);
+  const [pickedCalibrationPoints, setPickedCalibrationPoints] = useState<PointMm[] | null>(null);
+  // Calibration ends on its own if the underlay goes away (remove, undo).
+  const calibrationPoints = underlay ? pickedCalibrationPoints : null;
+
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [libraryOpen, setLibraryOpen] = useState(false);
+  const [revisionsOpen, setRevisionsOpen] = useState(false);
+  const [pendingRecovery, setPendingRecovery] = useState<PendingRecovery | null>(null);
+  const [startupProblems, setStartupProblems] = useState<string[] | null>(null);
 
   const saveTimerRef = useRef<number | null>(null);
+  const pendingSaveRef = useRef<Omit<SavedProject, "key"> | null>(null);
+  // What was last stored (or opened), so opening a project or an edit that nets out writes nothing.
+  const lastSavedRef = useRef<SavedProject | null>(null);
+  // When the open project last had a revision taken, so automatic ones come every few minutes.
+  const lastRevisionAtRef = useRef(0);
+  // Library writes run one after another, so a slow save can never land after a later save or a delete.
+  const libraryQueueRef = useRef<Promise<unknown>>(Promise.resolve());
+  // Where the pointer is over the canvas, for pasting at the cursor. A ref so moves don't re-render.
+  const pointerMmRef = useRef<PointMm | null>(null);
+  // Last copy, for when the system clipboard can't be read (no permission, insecure context).
+  const copiedTextRef = useRef<string | null>(null);
 
-  useEffect(() => {
-    const restored = loadProject();
-    if (restored) {
-      setMode(restored.mode);
-      setActiveTool(restored.activeTool);
-      setHistory(
-        createHistoryState({
-          objects: restored.objects,
-          snapToGrid: restored.snapToGrid,
-          snapToObjects: restored.snapToObjects,
-          snapIncrementMm: restored.snapIncrementMm,
-          selectedId: restored.selectedId,
-        }),
-      );
-    }
+  const queueLibraryTask = useCallback(<T,>(task: () => Promise<T>): Promise<T> => {
+    const next = libraryQueueRef.current.then(task);
+    libraryQueueRef.current = next.catch(() => undefined);
+    return next;
   }, []);
 
-  useEffect(
-    () => () => {
-      if (saveTimerRef.current !== null) {
-        window.clearTimeout(saveTimerRef.current);
+  /** Writes any autosave still waiting on its timer now, resolving once it (and earlier writes) are stored. */
+  const flushSave = useCallback((): Promise<void> => {
+    if (saveTimerRef.current !== null) {
+      window.clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+    const pending = pendingSaveRef.current;
+    pendingSaveRef.current = null;
+    const saveKey = pending ? toSaveKey(pending.id, pending.project) : null;
+    // Written straight away, since the library write can be cut off if the tab closes or crashes. The
+    // stored underlay is passed so an unchanged one is left out of the copy.
+    const storedProject = lastSavedRef.current;
+    const wroteRecovery = pending !== null && saveKey !== storedProject?.key;
+    const recoveryToken =
+      pending && wroteRecovery
+        ? writeRecovery(pending.id, pending.project, storedProject?.id === pending.id ? storedProject.project.underlay : null)
+        : null;
+    return queueLibraryTask(async () => {
+      if (!pending || !saveKey) return;
+      const lastSaved = lastSavedRef.current;
+      // Undo and redo stacks are only ever replaced, never changed in place, so the same arrays mean no change.
+      if (
+        saveKey === lastSaved?.key &&
+        pending.history.past === lastSaved.history.past &&
+        pending.history.future === lastSaved.history.future
+      ) {
+        if (wroteRecovery) clearRecovery(recoveryToken);
+        return;
       }
+      // A revision keeps what is about to be overwritten: the project as it was opened, then every few minutes.
+      if (
+        saveKey !== lastSaved?.key &&
+        lastSaved?.id === pending.id &&
+        lastSaved.project.objects.length > 0 &&
+        Date.now() - lastRevisionAtRef.current >= AUTO_REVISION_INTERVAL_MS
+      ) {
+        try {
+          await saveProjectRevision(pending.id, lastSaved.project, "auto");
+          lastRevisionAtRef.current = Date.now();
+        } catch (error) {
+          console.warn("Failed to store revision", error);
+        }
+      }
+      try {
+        await saveLibraryProject(pending.id, pending.project, pending.history);
+        lastSavedRef.current = { ...pending, key: saveKey };
+        if (wroteRecovery) clearRecovery(recoveryToken);
+      } catch (error) {
+        console.warn("Failed to persist project", error);
+      }
+    });
+  }, [queueLibraryTask]);
+
+  const showProject = useCallback(
+    (id: string, project: PersistedProject, savedHistory: HistoryStacks | null = null) => {
+      const nextHistory = createHistoryState(toSnapshot(project), savedHistory);
+      lastSavedRef.current = { id, key: toSaveKey(id, project), project, history: nextHistory };
+      lastRevisionAtRef.current = 0;
+      // Queued ahead of any save of this project, so the first save sees when its last revision was.
+      void queueLibraryTask(async () => {
+        const [latest] = await listProjectRevisions(id);
+        if (latest && lastSavedRef.current?.id === id) lastRevisionAtRef.current = latest.createdAt;
+      }).catch(() => undefined);
+      setMode(project.mode);
+      setActiveTool(project.activeTool);
+      setPickedCalibrationPoints(null);
+      setHistory(nextHistory);
+      setProjectId(id);
+      setCurrentProjectId(id);
     },
-    [],
+    [queueLibraryTask],
+  );
+
+  const showNewProject = useCallback(() => {
+    showProject(newProjectId(), { mode: "2d", activeTool: "none", ...defaultSnapshot });
+  }, [showProject]);
+
+  /**
+   * Opens `preferredId` if it can be read, else the most recently modified project that can, else a
+   * fresh one. Returns why any that were passed over could not be opened; damaged ones are skipped quietly.
+   */
+  const showLatestProject = useCallback(
+    async (preferredId: string | null = null): Promise<string[]> => {
+      const summaries = await listProjects();
+      const ordered = [
+        ...summaries.filter((summary) => summary.id === preferredId),
+        ...summaries.filter((summary) => summary.id !== preferredId),
+      ];
+      const problems: string[] = [];
+      for (const summary of ordered) {
+        try {
+          const [project, savedHistory] = await loadProjectWithHistory(summary.id);
+          if (project) {
+            showProject(summary.id, project, savedHistory);
+            return problems;
+          }
+        } catch (error) {
+          problems.push(toOpenProblem(summary.name, error));
+        }
+      }
+      showNewProject();
+      return problems;
+    },
+    [showNewProject, showProject],
   );
 
   useEffect(() => {
+    let cancelled = false;
+    const openStartupProject = async () => {
+      const problems: string[] = [];
+      try {
+        const migration = await migrateLegacyProject();
+        if (migration.error) problems.push(toOpenProblem("Autosaved project", migration.error));
+        if (cancelled) return;
+        problems.push(...(await showLatestProject(getCurrentProjectId())));
+      } catch (error) {
+        // Without the library the app still works; edits just are not kept.
+        console.warn("Failed to open the project library", error);
+        problems.push("The project library could not be opened, so changes will not be kept after this tab closes.");
+        if (!cancelled) showNewProject();
+        return;
+      } finally {
+        if (!cancelled && problems.length > 0) setStartupProblems(problems);
+      }
+
+      const recoveredCopy = readRecovery();
+      if (!recoveredCopy) return;
+      let stored: PersistedProject | null;
+      try {
+        stored = await loadLibraryProject(recoveredCopy.projectId);
+      } catch (error) {
+        // A newer build stored the project, or the read failed. The project already open stays, and the
+        // copy is left for a session that can compare it.
+        console.warn("Failed to check the recovery copy", error);
+        return;
+      }
+      if (cancelled) return;
+      const recovered = recoveredCopy.underlayStored
+        ? { ...recoveredCopy, project: { ...recoveredCopy.project, underlay: stored?.underlay ?? null } }
+        : recoveredCopy;
+      // The library write landed after all; only the clean-up did not.
+      if (stored && toSaveKey(recovered.projectId, stored) === toSaveKey(recovered.projectId, recovered.project)) {
+        clearRecovery();
+      } else {
+        setPendingRecovery({ ...recovered, stored });
+      }
+    };
+    void openStartupProject();
+    return () => {
+      cancelled = true;
+    };
+  }, [showLatestProject, showNewProject]);
+
+  useEffect(() => () => void flushSave(), [flushSave]);
+
+  // Closing or reloading the tab starts the last write, and leaves a recovery copy in case it doesn't finish.
+  useEffect(() => {
+    const handlePageHide = () => void flushSave();
+    window.addEventListener("pagehide", handlePageHide);
+    return () => window.removeEventListener("pagehide", handlePageHide);
+  }, [flushSave]);
+
+  useEffect(() => {
+    // Nothing is saved until the startup project has been opened, so it can't be overwritten.
+    if (!projectId) return;
     if (saveTimerRef.current !== null) {
       window.clearTimeout(saveTimerRef.current);
     }
 
-    const snapshot = { mode, activeTool, objects, snapToGrid, snapToObjects, snapIncrementMm, selectedId };
+    pendingSaveRef.current = {
+      id: projectId,
+      project: { mode, activeTool, ...history.present },
+      history: { past: history.past, future: history.future },
+    };
 
     saveTimerRef.current = window.setTimeout(() => {
-      saveProject(snapshot);
-      saveTimerRef.current = null;
+      void flushSave();
     }, 200);
-  }, [mode, activeTool, objects, snapIncrementMm, snapToGrid, snapToObjects, selectedId]);
+  }, [projectId, flushSave, mode, activeTool, history]);
 
   const applySnapshot = useCallback(
     (updater: (snapshot: Snapshot) => Snapshot, commitChange = false) => {
@@ -97,10 +398,141 @@ export default function AppShell() {
     setHistory((current) => (canRedo(current) ? redo(current) : current));
   }, []);
 
+  const handleSaveProjectFile = () => {
+    exportProjectFile({ mode, activeTool, ...history.present });
+  };
+
+  const handleOpenProjectFile = async (file: File) => {
+    try {
+      setPendingImport({ fileName: file.name, result: await importProjectFile(file), error: null });
+    } catch (error) {
+      setPendingImport({
+        fileName: file.name,
+        result: null,
+        error: error instanceof Error ? error.message : "Could not read that file.",
+      });
+    }
+  };
+
+  // Opening is one undoable step, so Undo brings back the project it replaced.
+  const handleConfirmProjectImport = () => {
+    if (!pendingImport?.result) return;
+    const { project } = pendingImport.result;
+    setMode(project.mode);
+    setActiveTool(project.activeTool);
+    setPickedCalibrationPoints(null);
+    setHistory((current) => commitSnapshot(current, toSnapshot(project)));
+    setPendingImport(null);
+  };
+
+  // Library actions store the open project first, so the list and any copy made from it are current.
+  const handleListProjects = useCallback(() => flushSave().then(listProjects), [flushSave]);
+
+  const handleOpenLibraryProject = async (id: string) => {
+    await flushSave();
+    const [project, savedHistory] = await loadProjectWithHistory(id);
+    if (!project) throw new Error("That project could not be read. It may have been deleted in another tab.");
+    showProject(id, project, savedHistory);
+    setLibraryOpen(false);
+  };
+
+  const handleNewLibraryProject = async () => {
+    await flushSave();
+    showNewProject();
+    setLibraryOpen(false);
+  };
+
+  const handleRenameLibraryProject = async (id: string, name: string) => {
+    await flushSave();
+    // The open project's name is its title block name, so it changes (undoably) there too.
+    if (id === projectId) handleUpdateProjectInfo({ name });
+    await queueLibraryTask(() => renameLibraryProject(id, name));
+  };
+
+  const handleDuplicateLibraryProject = async (id: string) => {
+    await flushSave();
+    await queueLibraryTask(() => duplicateLibraryProject(id));
+  };
+
+  const handleDeleteLibraryProject = async (id: string) => {
+    if (id !== projectId) {
+      await queueLibraryTask(() => deleteLibraryProject(id));
+      return;
+    }
+    // Drop the open project's pending autosave and stop saving it, or it would be written straight back.
+    if (saveTimerRef.current !== null) {
+      window.clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+    pendingSaveRef.current = null;
+    setProjectId(null);
+    await queueLibraryTask(() => deleteLibraryProject(id));
+    await showLatestProject();
+  };
+
+  const handleListRevisions = useCallback(
+    () => (projectId ? flushSave().then(() => listProjectRevisions(projectId)) : Promise.resolve([])),
+    [flushSave, projectId],
+  );
+
+  const handleSaveRevision = async (label: string) => {
+    if (!projectId) return;
+    await flushSave();
+    const project: PersistedProject = { mode, activeTool, ...history.present };
+    await queueLibraryTask(() => saveProjectRevision(projectId, project, "manual", label));
+    lastRevisionAtRef.current = Date.now();
+  };
+
+  const handleRestoreRevision = async (revisionId: string) => {
+    if (!projectId) return;
+    const revision = await loadProjectRevision(revisionId);
+    if (!revision) throw new Error("This revision could not be read.");
+    await flushSave();
+    // Restoring is one undo step, but undo only reaches back so many steps, and fewer are stored when they
+    // are large, so the current plan is kept as a revision too.
+    const current: PersistedProject = { mode, activeTool, ...history.present };
+    if (current.objects.length > 0) {
+      await queueLibraryTask(() => saveProjectRevision(projectId, current, "auto", "Before restore"));
+    }
+    setPickedCalibrationPoints(null);
+    setHistory((state) => commitSnapshot(state, toSnapshot(revision)));
+    setRevisionsOpen(false);
+  };
+
+  const handleDeleteRevision = (revisionId: string) => queueLibraryTask(() => deleteProjectRevision(revisionId));
+
+  const handleRecoverProject = async () => {
+    if (!pendingRecovery) return;
+    const { projectId: id, project, stored } = pendingRecovery;
+    await flushSave();
+    const storedHistory = stored ? await loadLibraryHistory(id) : null;
+    if (stored) {
+      await queueLibraryTask(() => saveProjectRevision(id, stored, "auto", "Before recovery"));
+    }
+    // The recovered edits become one step on top of the stored project, so Undo goes back to it.
+    showProject(id, project, stored ? { past: [...(storedHistory?.past ?? []), toSnapshot(stored)], future: [] } : null);
+    // Not stored yet, so autosave writes it.
+    lastSavedRef.current = null;
+    setPendingRecovery(null);
+  };
+
+  const handleDiscardRecovery = () => {
+    clearRecovery();
+    setPendingRecovery(null);
+  };
+
   const handleToggleSnapToGrid = () => {
     applySnapshot((present) => ({ ...present, snapToGrid: !present.snapToGrid }), true);
   };
 
+  const handleToggleCascadeLevels = () => {
+    applySnapshot((present) => ({ ...present, cascadeLevels: !present.cascadeLevels }), true);
+  };
+
+  const handleToggleShowLabels = () => {
+    applySnapshot((present) => ({ ...present, showLabels: !present.showLabels }), true);
+  };
+
   const handleToggleSnapToObjects = () => {
     applySnapshot((present) => ({ ...present, snapToObjects: !present.snapToObjects }), true);
   };
@@ -109,17 +541,132 @@ export default function AppShell() {
     applySnapshot((present) => ({ ...present, snapIncrementMm: stepMm }), true);
   };
 
+  const handleSetRuleSet = (ruleSetId: RuleSetId) => {
+    applySnapshot(
+      (present) =>
+        present.compliance.ruleSetId === ruleSetId ? present : { ...present, compliance: { ruleSetId, overrides: {} } },
+      true,
+    );
+  };
+
+  const handleSetRuleOverrides = (overrides: Partial<ComplianceRules>) => {
+    applySnapshot(
+      (present) => ({
+        ...present,
+        compliance: { ...present.compliance, overrides: { ...present.compliance.overrides, ...overrides } },
+      }),
+      true,
+    );
+  };
+
+  const handleResetRuleOverrides = () => {
+    applySnapshot((present) => ({ ...present, compliance: { ...present.compliance, overrides: {} } }), true);
+  };
+
+  const handleUpdateProjectInfo = (patch: Partial<ProjectInfo>) => {
+    applySnapshot(
+      (present) =>
+        (Object.keys(patch) as Array<keyof ProjectInfo>).every((key) => present.projectInfo[key] === patch[key])
+          ? present
+          : { ...present, projectInfo: { ...present.projectInfo, ...patch } },
+      true,
+    );
+  };
+
+  const handleSetUnderlay = (nextUnderlay: Underlay | null) => {
+    applySnapshot((present) => (present.underlay === nextUnderlay ? present : { ...present, underlay: nextUnderlay }), true);
+  };
+
+  const handleUpdateUnderlay = (patch: Partial<UnderlayPlacement>, commitChange = true) => {
+    applySnapshot(
+      (present) => (present.underlay ? { ...present, underlay: { ...present.underlay, ...patch } } : present),
+      commitChange,
+    );
+  };
+
+  const handleStartCalibration = () => {
+    setActiveTool("none");
+    setPickedCalibrationPoints([]);
+  };
+
+  const handleCancelCalibration = () => {
+    setPickedCalibrationPoints(null);
+  };
+
+  const handleCalibrationPoint = useCallback((pointMm: PointMm) => {
+    setPickedCalibrationPoints((points) => (points && points.length < 2 ? [...points, pointMm] : points));
+  }, []);
+
+  const handleApplyCalibration = (distanceMm: number) => {
+    if (!underlay || !calibrationPoints || calibrationPoints.length < 2) return;
+    const calibrated = calibrateUnderlay(underlay, calibrationPoints[0], calibrationPoints[1], distanceMm);
+    if (!calibrated) return;
+    handleSetUnderlay(calibrated);
+    setPickedCalibrationPoints(null);
+  };
+
   const handleSetMode = (nextMode: EditMode) => {
     setMode(nextMode);
   };
 
+  // Shift/Ctrl-click (`additive`) toggles one object, or its whole group, in or out of the selection.
+  // `ignoreGroup` picks out a single member of a group.
   const handleSelect = useCallback(
-    (id: string) => {
-      applySnapshot((present) => (present.selectedId === id ? present : { ...present, selectedId: id }));
+    (id: string, additive = false, ignoreGroup = false) => {
+      applySnapshot((present) => {
+        const targetIds = ignoreGroup ? [id] : expandToGroups(present.groups, [id]);
+        const alreadySelected = targetIds.every((targetId) => present.selectedIds.includes(targetId));
+        const nextSelected = !additive
+          ? targetIds
+          : alreadySelected
+            ? present.selectedIds.filter((selected) => !targetIds.includes(selected))
+            : [...present.selectedIds, ...targetIds.filter((targetId) => !present.selectedIds.includes(targetId))];
+        return selectionEquals(present.selectedIds, nextSelected) ? present : { ...present, selectedIds: nextSelected };
+      });
+    },
+    [applySnapshot],
+  );
+
+  const handleSelectGroup = useCallback(
+    (groupId: string, additive = false) => {
+      applySnapshot((present) => {
+        const group = present.groups.find((candidate) => candidate.id === groupId);
+        if (!group) return present;
+        const alreadySelected = group.memberIds.every((id) => present.selectedIds.includes(id));
+        const nextSelected = !additive
+          ? group.memberIds
+          : alreadySelected
+            ? present.selectedIds.filter((id) => !group.memberIds.includes(id))
+            : [...present.selectedIds, ...group.memberIds.filter((id) => !present.selectedIds.includes(id))];
+        return selectionEquals(present.selectedIds, nextSelected) ? present : { ...present, selectedIds: nextSelected };
+      });
+    },
+    [applySnapshot],
+  );
+
+  const handleSelectWarningObject = useCallback((id: string) => handleSelect(id, false, true), [handleSelect]);
+
+  const handleSelectMany = useCallback(
+    (ids: string[], additive = false) => {
+      applySnapshot((present) => {
+        const targetIds = expandToGroups(present.groups, ids);
+        const nextSelected = additive
+          ? [...present.selectedIds, ...targetIds.filter((id) => !present.selectedIds.includes(id))]
+          : targetIds;
+        return selectionEquals(present.selectedIds, nextSelected) ? present : { ...present, selectedIds: nextSelected };
+      });
     },
     [applySnapshot],
   );
 
+  const complianceRules = useMemo(() => resolveComplianceRules(compliance), [compliance]);
+  const connectionGraph = useMemo(() => buildConnectionGraph(objects), [objects]);
+  const warnings = useMemo(
+    () => evaluateCompliance(objects, complianceRules, connectionGraph),
+    [complianceRules, connectionGraph, objects],
+  );
+  const warningsByObject = useMemo(() => groupWarningsByObject(warnings), [warnings]);
+
   const status = useMemo(() => statusText[activeTool], [activeTool]);
   const snapStatus = useMemo(() => {
     if (snapToGrid && snapToObjects) return `Grid (${snapIncrementMm}mm) + Objects`;
@@ -133,7 +680,7 @@ export default function AppShell() {
       if (tool === "ramp") {
         const ramp = newRampAt(xMm, yMm);
         applySnapshot(
-          (present) => ({ ...present, objects: [...present.objects, ramp], selectedId: ramp.id }),
+          (present) => ({ ...present, objects: [...present.objects, ramp], selectedIds: [ramp.id] }),
           true,
         );
         setActiveTool("none");
@@ -142,7 +689,16 @@ export default function AppShell() {
       if (tool === "landing") {
         const landing = newLandingAt(xMm, yMm);
         applySnapshot(
-          (present) => ({ ...present, objects: [...present.objects, landing], selectedId: landing.id }),
+          (present) => ({ ...present, objects: [...present.objects, landing], selectedIds: [landing.id] }),
+          true,
+        );
+        setActiveTool("none");
+        return;
+      }
+      if (tool === "stairs") {
+        const stairs = newStairsAt(xMm, yMm);
+        applySnapshot(
+          (present) => ({ ...present, objects: [...present.objects, stairs], selectedIds: [stairs.id] }),
           true,
         );
         setActiveTool("none");
@@ -154,40 +710,185 @@ export default function AppShell() {
 
   const handleUpdateObject = useCallback(
     (id: string, patch: ObjectPatch, commitChange = false) => {
-      applySnapshot((present) => updateObject(present, id, patch), commitChange);
+      // The cascade runs inside the same update so the whole chain undoes as one step. It follows
+      // the level actually changing, which also covers a ratio-locked resize re-deriving the height.
+      applySnapshot((present) => {
+        const updated = updateObject(present, id, patch);
+        if (!present.cascadeLevels || updated === present) return updated;
+        const before = present.objects.find((obj) => obj.id === id);
+        const after = updated.objects.find((obj) => obj.id === id);
+        const levelChanged =
+          before && after && (before.elevationMm !== after.elevationMm || before.heightMm !== after.heightMm);
+        return levelChanged ? propagateLevels(updated, id) : updated;
+      }, commitChange);
     },
     [applySnapshot],
   );
 
+  // The run goes in as one named group, so it moves and rotates as a single assembly.
+  const handleInsertRampRun = (runObjects: Object2D[], name: string) => {
+    if (runObjects.length === 0) return;
+    applySnapshot(
+      (present) =>
+        groupObjects(
+          { ...present, objects: [...present.objects, ...runObjects] },
+          runObjects.map((obj) => obj.id),
+          name,
+        ),
+      true,
+    );
+    setActiveTool("none");
+    setRampDesignerOpen(false);
+  };
+
   const handleDeleteObject = useCallback(
     (id: string) => {
+      applySnapshot((present) => deleteObjects(present, [id]), true);
+    },
+    [applySnapshot],
+  );
+
+  const handleDeleteSelection = useCallback(() => {
+    applySnapshot((present) => deleteObjects(present, present.selectedIds), true);
+  }, [applySnapshot]);
+
+  const handleMoveSelection = useCallback(
+    (dxMm: number, dyMm: number) => {
+      applySnapshot((present) => moveObjects(present, present.selectedIds, dxMm, dyMm), true);
+    },
+    [applySnapshot],
+  );
+
+  // Edits from the combined Inspector set the same value on every object, so they do not cascade:
+  // the user is choosing each level explicitly.
+  const handleUpdateSelection = useCallback(
+    (patch: ObjectPatch) => {
+      applySnapshot((present) => updateSelectedObjects(present, patch), true);
+    },
+    [applySnapshot],
+  );
+
+  const handlePointerChange = useCallback((pointMm: PointMm | null) => {
+    pointerMmRef.current = pointMm;
+  }, []);
+
+  const insertCopies = useCallback(
+    (copies: ClipboardContent) => {
+      if (copies.objects.length === 0) return;
+      applySnapshot(
+        (present) => ({
+          ...present,
+          objects: [...present.objects, ...copies.objects],
+          groups: [...present.groups, ...copies.groups],
+          selectedIds: copies.objects.map((obj) => obj.id),
+        }),
+        true,
+      );
+      setActiveTool("none");
+    },
+    [applySnapshot],
+  );
+
+  const getSelectionContent = useCallback(
+    (): ClipboardContent => ({
+      objects: getSelectedObjects({ objects, selectedIds }),
+      groups: getGroupsWithin(groups, selectedIds),
+    }),
+    [groups, objects, selectedIds],
+  );
+
+  const handleCopySelection = useCallback(() => {
+    const content = getSelectionContent();
+    if (content.objects.length === 0) return;
+    const text = serialiseClipboard(content);
+    copiedTextRef.current = text;
+    navigator.clipboard?.writeText(text).catch((error) => console.warn("Failed to write clipboard", error));
+  }, [getSelectionContent]);
+
+  const handlePaste = useCallback(async () => {
+    let text: string | null = null;
+    try {
+      text = navigator.clipboard?.readText ? await navigator.clipboard.readText() : null;
+    } catch (error) {
+      console.warn("Failed to read clipboard", error);
+    }
+    // Text on the system clipboard that isn't ours means the user copied something else since.
+    const source = parseClipboard(text ?? copiedTextRef.current ?? "");
+    if (!source) return;
+    const offset = getPasteOffsetMm(source.objects, pointerMmRef.current, snapToGrid ? snapIncrementMm : 1);
+    insertCopies(cloneForPaste(source, offset));
+  }, [insertCopies, snapIncrementMm, snapToGrid]);
+
+  const handleDuplicateSelection = useCallback(() => {
+    insertCopies(cloneForPaste(getSelectionContent(), { xMm: PASTE_OFFSET_MM, yMm: PASTE_OFFSET_MM }));
+  }, [getSelectionContent, insertCopies]);
+
+  const handleGroupSelection = useCallback(() => {
+    applySnapshot((present) => groupObjects(present, present.selectedIds), true);
+  }, [applySnapshot]);
+
+  const handleUngroupSelection = useCallback(() => {
+    applySnapshot(
+      (present) =>
+        getGroupsWithin(present.groups, present.selectedIds).reduce((acc, group) => ungroup(acc, group.id), present),
+      true,
+    );
+  }, [applySnapshot]);
+
+  // Outliner toggles (name, lock, visibility) apply whether or not the objects are locked.
+  const handleUpdateObjects = useCallback(
+    (ids: string[], patch: ObjectPatch) => {
+      applySnapshot((present) => ids.reduce((acc, id) => updateObject(acc, id, patch), present), true);
+    },
+    [applySnapshot],
+  );
+
+  const handleReorderObject = useCallback(
+    (id: string, direction: ReorderDirection) => {
+      applySnapshot((present) => reorderObject(present, id, direction), true);
+    },
+    [applySnapshot],
+  );
+
+  const handleToggleGroupCollapsed = useCallback(
+    (groupId: string) => {
       applySnapshot((present) => {
-        const nextObjects = present.objects.filter((obj) => obj.id !== id);
-        if (nextObjects.length === present.objects.length) return present;
-        const nextSelected = present.selectedId === id ? null : present.selectedId;
-        return { ...present, objects: nextObjects, selectedId: nextSelected };
+        const group = present.groups.find((candidate) => candidate.id === groupId);
+        return group ? updateGroup(present, groupId, { collapsed: !group.collapsed }) : present;
       }, true);
     },
     [applySnapshot],
   );
 
+  const handleRenameGroup = useCallback(
+    (groupId: string, name: string) => {
+      applySnapshot((present) => updateGroup(present, groupId, { name }), true);
+    },
+    [applySnapshot],
+  );
+
   const handleClearSelection = useCallback(() => {
     applySnapshot((present) => {
-      if (present.selectedId === null) return present;
-      return { ...present, selectedId: null };
+      if (present.selectedIds.length === 0) return present;
+      return { ...present, selectedIds: [] };
     });
   }, [applySnapshot]);
 
   const handleRotateSelected = useCallback(
     (delta: number) => {
       applySnapshot((present) => {
-        if (!present.selectedId) return present;
-        const selected = present.objects.find((obj) => obj.id === present.selectedId);
-        if (!selected || selected.locked) return present;
         const hasSnap = present.snapToGrid || present.snapToObjects;
-        const startingRotation = hasSnap ? Math.round(selected.rotationDeg / 90) * 90 : selected.rotationDeg;
-        const nextRotation = startingRotation + delta;
-        return updateObject(present, selected.id, { rotationDeg: nextRotation });
+        // Whole groups turn as a unit about their combined centre; other objects about their own.
+        const selectedGroups = getGroupsWithin(present.groups, present.selectedIds);
+        const rotatedGroups = selectedGroups.reduce(
+          (acc, group) => rotateObjectsAboutCentre(acc, group.memberIds, delta),
+          present,
+        );
+        return getSelectedObjects(rotatedGroups).reduce((acc, selected) => {
+          if (selected.locked || selectedGroups.some((group) => group.memberIds.includes(selected.id))) return acc;
+          const startingRotation = hasSnap ? Math.round(selected.rotationDeg / 90) * 90 : selected.rotationDeg;
+          return updateObject(acc, selected.id, { rotationDeg: startingRotation + delta });
+        }, rotatedGroups);
       }, true);
     },
     [applySnapshot],
@@ -218,17 +919,50 @@ export default function AppShell() {
         return;
       }
 
+      if ((event.metaKey || event.ctrlKey) && key === "c") {
+        if (selectedIds.length > 0) {
+          event.preventDefault();
+          handleCopySelection();
+        }
+        return;
+      }
+
+      if ((event.metaKey || event.ctrlKey) && key === "v") {
+        event.preventDefault();
+        void handlePaste();
+        return;
+      }
+
+      if ((event.metaKey || event.ctrlKey) && key === "g") {
+        event.preventDefault();
+        if (event.shiftKey) {
+          handleUngroupSelection();
+        } else {
+          handleGroupSelection();
+        }
+        return;
+      }
+
+      if ((event.metaKey || event.ctrlKey) && key === "d") {
+        // Also keeps the browser's bookmark shortcut from firing.
+        event.preventDefault();
+        handleDuplicateSelection();
+        return;
+      }
+
       if (event.key === "Escape") {
         setActiveTool("none");
+        setPickedCalibrationPoints(null);
         return;
       }
       if (key === "r") setActiveTool("ramp");
       if (key === "p") setActiveTool("landing");
+      if (key === "s") setActiveTool("stairs");
       if (key === "d") setActiveTool("delete");
-      if (event.key === "Backspace") {
-        if (selectedId) {
+      if (event.key === "Backspace" || event.key === "Delete") {
+        if (selectedIds.length > 0) {
           event.preventDefault();
-          handleDeleteObject(selectedId);
+          handleDeleteSelection();
         }
         setActiveTool("none");
         return;
@@ -236,12 +970,11 @@ export default function AppShell() {
       if (event.key.startsWith("Arrow")) {
         event.preventDefault();
         applySnapshot((present) => {
-          const selected = present.selectedId
-            ? present.objects.find((obj) => obj.id === present.selectedId)
-            : null;
-          if (!selected || selected.locked) return present;
-          const bbox = getObjectBoundingBoxMm(selected);
-          const currentTopLeft = topLeftFromCenterMm({ xMm: selected.xMm, yMm: selected.yMm }, bbox);
+          // The selection moves as one block, snapped by the top-left of its bounding box.
+          const movable = getSelectedObjects(present).filter((obj) => !obj.locked);
+          const groupRect = getGroupRectMm(movable);
+          if (!groupRect) return present;
+          const currentTopLeft = { xMm: groupRect.left, yMm: groupRect.top };
           const nudgeStep = present.snapToGrid ? present.snapIncrementMm : 1;
           const offset = { xMm: 0, yMm: 0 };
           if (event.key === "ArrowUp") offset.yMm = -nudgeStep;
@@ -254,19 +987,48 @@ export default function AppShell() {
             xMm: snapMm(nextTopLeft.xMm, snapStepMm),
             yMm: snapMm(nextTopLeft.yMm, snapStepMm),
           };
-          const nextCenter = centerFromTopLeftMm(snappedTopLeft, bbox);
-          return updateObject(present, selected.id, { xMm: nextCenter.xMm, yMm: nextCenter.yMm });
+          return moveObjects(
+            present,
+            movable.map((obj) => obj.id),
+            snappedTopLeft.xMm - currentTopLeft.xMm,
+            snappedTopLeft.yMm - currentTopLeft.yMm,
+          );
         }, true);
       }
     };
 
     window.addEventListener("keydown", handleKey);
     return () => window.removeEventListener("keydown", handleKey);
-  }, [applySnapshot, handleDeleteObject, handleRedo, handleUndo, selectedId]);
+  }, [
+    applySnapshot,
+    handleCopySelection,
+    handleDeleteSelection,
+    handleDuplicateSelection,
+    handleGroupSelection,
+    handlePaste,
+    handleRedo,
+    handleUndo,
+    handleUngroupSelection,
+    selectedIds,
+  ]);
 
   const canUndoAction = canUndo(history);
   const canRedoAction = canRedo(history);
-  const selectedObject = selectedId ? objects.find((obj) => obj.id === selectedId) ?? null : null;
+  const selectedObjects = useMemo(() => getSelectedObjects({ objects, selectedIds }), [objects, selectedIds]);
+  const selectedObject = selectedObjects.length === 1 ? selectedObjects[0] : null;
+  const visibleObjects = useMemo(() => objects.filter((obj) => !obj.hidden), [objects]);
+  const visibleConnections = useMemo(
+    () =>
+      connectionGraph.connections.filter((connection) =>
+        visibleObjects.some((obj) => obj.id === connection.rampId) && visibleObjects.some((obj) => obj.id === connection.targetId),
+      ),
+    [connectionGraph, visibleObjects],
+  );
+  // The group the selection is made of, when it is exactly one whole group.
+  const selectedGroup = useMemo(
+    () => getGroupsWithin(groups, selectedIds).find((group) => group.memberIds.length === selectedIds.length) ?? null,
+    [groups, selectedIds],
+  );
 
   return (
     <div className="ob-root">
@@ -280,6 +1042,12 @@ export default function AppShell() {
           onRedo={handleRedo}
           canUndo={canUndoAction}
           canRedo={canRedoAction}
+          onOpenExport={() => setExportOpen(true)}
+          onOpenRampDesigner={() => setRampDesignerOpen(true)}
+          onSaveProjectFile={handleSaveProjectFile}
+          onOpenProjectFile={handleOpenProjectFile}
+          onOpenProjects={() => setLibraryOpen(true)}
+          onOpenRevisions={() => setRevisionsOpen(true)}
         />
       </div>
       <div className="ob-main">
@@ -291,9 +1059,43 @@ export default function AppShell() {
             snapIncrementMm={snapIncrementMm}
             onToggleSnapToGrid={handleToggleSnapToGrid}
             onToggleSnapToObjects={handleToggleSnapToObjects}
+            showLabels={showLabels}
+            onToggleShowLabels={handleToggleShowLabels}
             onSetSnapIncrement={handleSetSnapIncrement}
             onSetActiveTool={setActiveTool}
           />
+          <OutlinerPanel
+            objects={objects}
+            groups={groups}
+            selectedIds={selectedIds}
+            onSelect={handleSelect}
+            onSelectGroup={handleSelectGroup}
+            onUpdateObjects={handleUpdateObjects}
+            onRenameGroup={handleRenameGroup}
+            onToggleGroupCollapsed={handleToggleGroupCollapsed}
+            onReorder={handleReorderObject}
+          />
+          <UnderlayPanel
+            underlay={underlay}
+            calibrationPoints={calibrationPoints}
+            onSetUnderlay={handleSetUnderlay}
+            onUpdateUnderlay={handleUpdateUnderlay}
+            onStartCalibration={handleStartCalibration}
+            onCancelCalibration={handleCancelCalibration}
+            onApplyCalibration={handleApplyCalibration}
+          />
+          <RuleSetPanel
+            settings={compliance}
+            onSetRuleSet={handleSetRuleSet}
+            onSetOverrides={handleSetRuleOverrides}
+            onResetOverrides={handleResetRuleOverrides}
+          />
+          <WarningsPanel
+            warnings={warnings}
+            objects={objects}
+            selectedIds={selectedIds}
+            onSelect={handleSelectWarningObject}
+          />
         </aside>
         <main className="ob-center ob-panel">
           {mode === "2d" ? (
@@ -302,21 +1104,54 @@ export default function AppShell() {
               snapToGrid={snapToGrid}
               snapToObjects={snapToObjects}
               snapIncrementMm={snapIncrementMm}
-              objects={objects}
-              selectedId={selectedId}
+              objects={visibleObjects}
+              allObjects={objects}
+              selectedIds={selectedIds}
+              showLabels={showLabels}
+              underlay={underlay}
+              calibrationPointsMm={calibrationPoints}
+              connections={visibleConnections}
+              warningsByObject={warningsByObject}
               onSelect={handleSelect}
+              onSelectMany={handleSelectMany}
               onClearSelection={handleClearSelection}
               onPlaceAt={handlePlaceAt}
+              onCalibrationPoint={handleCalibrationPoint}
               onUpdateObject={handleUpdateObject}
+              onMoveSelection={handleMoveSelection}
+              onPointerChange={handlePointerChange}
               onDeleteObject={handleDeleteObject}
               onSetActiveTool={setActiveTool}
             />
           ) : (
-            <Preview3D />
+            <Suspense fallback={<div className="canvas-placeholder">3D preview loading...</div>}>
+              <Preview3D objects={visibleObjects} selectedIds={selectedIds} />
+            </Suspense>
           )}
         </main>
         <aside className="ob-right ob-panel">
-          <Inspector selected={selectedObject} onUpdateObject={handleUpdateObject} onRotateSelected={handleRotateSelected} />
+          {selectedObjects.length > 1 ? (
+            <SelectionInspector
+              objects={selectedObjects}
+              group={selectedGroup}
+              hasGroups={getGroupsWithin(groups, selectedIds).length > 0}
+              onUpdateSelection={handleUpdateSelection}
+              onRotateSelected={handleRotateSelected}
+              onGroup={handleGroupSelection}
+              onUngroup={handleUngroupSelection}
+              onRenameGroup={handleRenameGroup}
+            />
+          ) : (
+            <Inspector
+              selected={selectedObject}
+              objects={objects}
+              complianceRules={complianceRules}
+              cascadeLevels={cascadeLevels}
+              onUpdateObject={handleUpdateObject}
+              onToggleCascadeLevels={handleToggleCascadeLevels}
+              onRotateSelected={handleRotateSelected}
+            />
+          )}
         </aside>
       </div>
       <div className="ob-statusBar">
@@ -324,6 +1159,63 @@ export default function AppShell() {
         <div className="ob-statusBar__snap">Snap: {snapStatus}</div>
         <div className="ob-statusBar__hint">{status}</div>
       </div>
+      {exportOpen && (
+        <ExportDialog
+          objects={visibleObjects}
+          allObjects={objects}
+          projectInfo={projectInfo}
+          onUpdateProjectInfo={handleUpdateProjectInfo}
+          onClose={() => setExportOpen(false)}
+        />
+      )}
+      {rampDesignerOpen && (
+        <RampDesignerDialog
+          complianceRules={complianceRules}
+          onInsert={handleInsertRampRun}
+          onClose={() => setRampDesignerOpen(false)}
+        />
+      )}
+      {pendingImport && (
+        <ProjectImportDialog
+          fileName={pendingImport.fileName}
+          result={pendingImport.result}
+          error={pendingImport.error}
+          onOpen={handleConfirmProjectImport}
+          onClose={() => setPendingImport(null)}
+        />
+      )}
+      {libraryOpen && (
+        <ProjectLibraryDialog
+          currentProjectId={projectId}
+          onListProjects={handleListProjects}
+          onOpen={handleOpenLibraryProject}
+          onNew={handleNewLibraryProject}
+          onRename={handleRenameLibraryProject}
+          onDuplicate={handleDuplicateLibraryProject}
+          onDelete={handleDeleteLibraryProject}
+          onClose={() => setLibraryOpen(false)}
+        />
+      )}
+      {revisionsOpen && (
+        <RevisionsDialog
+          projectName={projectInfo.name}
+          onListRevisions={handleListRevisions}
+          onSaveRevision={handleSaveRevision}
+          onRestore={handleRestoreRevision}
+          onDelete={handleDeleteRevision}
+          onClose={() => setRevisionsOpen(false)}
+        />
+      )}
+      {startupProblems && <StartupNoticeDialog problems={startupProblems} onClose={() => setStartupProblems(null)} />}
+      {pendingRecovery && (
+        <RecoveryDialog
+          projectName={pendingRecovery.project.projectInfo.name}
+          savedAt={pendingRecovery.savedAt}
+          hasStoredCopy={Boolean(pendingRecovery.stored)}
+          onRecover={handleRecoverProject}
+          onDiscard={handleDiscardRecovery}
+        />
+      )}
     </div>
   );
 }
@@ -1 +1 @@
-export const APP_VERSION = "0.7.3";
+export const APP_VERSION = "0.32.0";
@@ -0,0 +1,22 @@
+const toFileSlug = (projectName: string) =>
+  projectName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "") || "occupational-builder";
+
+export const toExportFileName = (projectName: string, extension: string) => `${toFileSlug(projectName)}-plan.${extension}`;
+
+/** `extension` includes its leading dot, e.g. ".obproj.json". */
+export const toProjectFileName = (projectName: string, extension: string) => `${toFileSlug(projectName)}${extension}`;
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers start the download after click() returns, so keep the URL alive until then.
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+};
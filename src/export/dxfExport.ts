@@ -0,0 +1,354 @@
+import type { ObjectAnnotation } from "../model/annotations";
+import { EdgeFeatureKind, PointMm, getRampBodyPointsMm, getRampWingPolygonsMm, localToWorldMm } from "../model/geometry";
+import { Object2D, ProjectInfo } from "../model/types";
+import { downloadBlob, toExportFileName } from "./download";
+import { PlanDimension, PlanDrawing, buildPlanDrawing, getPlanBoundsMm } from "./planGeometry";
+
+type DxfLayer =
+  | "RAMP"
+  | "LANDING"
+  | "STAIRS"
+  | "WINGS"
+  | "HANDRAILS"
+  | "KERB_RAILS"
+  | "BALUSTRADES"
+  | "DIMENSIONS"
+  | "TEXT"
+  | "NOTES";
+
+/** AutoCAD colour index per layer. */
+const LAYER_COLOURS: Record<DxfLayer, number> = {
+  RAMP: 7,
+  LANDING: 8,
+  STAIRS: 3,
+  WINGS: 4,
+  HANDRAILS: 6,
+  KERB_RAILS: 30,
+  BALUSTRADES: 2,
+  DIMENSIONS: 5,
+  TEXT: 7,
+  NOTES: 7,
+};
+
+const KIND_LAYERS: Record<Object2D["kind"], DxfLayer> = {
+  ramp: "RAMP",
+  landing: "LANDING",
+  stairs: "STAIRS",
+};
+
+const EDGE_FEATURE_LAYERS: Record<EdgeFeatureKind, DxfLayer> = {
+  handrail: "HANDRAILS",
+  kerbRail: "KERB_RAILS",
+  balustrade: "BALUSTRADES",
+};
+
+// Drawing units are millimetres at 1:1; annotation sizes match a 1:50 print.
+const TEXT_HEIGHT_MM = 125;
+const TICK_SIZE_MM = 75;
+const ARROW_HEAD_MM = 150;
+const DASH_MM = 50;
+const NOTE_LINE_SPACING_MM = TEXT_HEIGHT_MM * 1.6;
+
+/**
+ * Minimal AutoCAD R12 (AC1009) ASCII writer. R12 needs no handles or object dictionaries,
+ * and every CAD package we hand designs to still opens it.
+ */
+type DxfWriter = {
+  pair: (code: number, value: string | number) => void;
+  point: (baseCode: number, point: PointMm) => void;
+  toString: () => string;
+};
+
+const createDxfWriter = (): DxfWriter => {
+  const lines: string[] = [];
+  const pair = (code: number, value: string | number) => {
+    lines.push(String(code), typeof value === "number" ? formatNumber(value) : value);
+  };
+
+  return {
+    pair,
+    point: (baseCode, point) => {
+      const dxf = toDxfPoint(point);
+      pair(baseCode, dxf.x);
+      pair(baseCode + 10, dxf.y);
+      pair(baseCode + 20, 0);
+    },
+    toString: () => `${lines.join("\n")}\n`,
+  };
+};
+
+const formatNumber = (value: number) => String(Math.round(value * 1000) / 1000);
+
+// Plan y grows downwards on screen; CAD y grows upwards.
+const toDxfPoint = (point: PointMm) => ({ x: point.xMm, y: point.yMm === 0 ? 0 : -point.yMm });
+
+const writeLine = (dxf: DxfWriter, layer: string, start: PointMm, end: PointMm, lineType?: string) => {
+  dxf.pair(0, "LINE");
+  dxf.pair(8, layer);
+  if (lineType) dxf.pair(6, lineType);
+  dxf.point(10, start);
+  dxf.point(11, end);
+};
+
+const writeClosedPolyline = (dxf: DxfWriter, layer: string, points: PointMm[]) => {
+  dxf.pair(0, "POLYLINE");
+  dxf.pair(8, layer);
+  dxf.pair(66, 1);
+  dxf.point(10, { xMm: 0, yMm: 0 });
+  dxf.pair(70, 1);
+  points.forEach((point) => {
+    dxf.pair(0, "VERTEX");
+    dxf.pair(8, layer);
+    dxf.point(10, point);
+  });
+  dxf.pair(0, "SEQEND");
+  dxf.pair(8, layer);
+};
+
+const writeSolidTriangle = (dxf: DxfWriter, layer: string, a: PointMm, b: PointMm, c: PointMm) => {
+  dxf.pair(0, "SOLID");
+  dxf.pair(8, layer);
+  dxf.point(10, a);
+  dxf.point(11, b);
+  dxf.point(12, c);
+  dxf.point(13, c);
+};
+
+/**
+ * R12 text is read in the drawing's ANSI code page, so anything outside ASCII is written as a control
+ * code: the degree sign as %%d, the rest as \U+XXXX (characters beyond that range become "?").
+ */
+const toDxfText = (text: string): string =>
+  Array.from(text)
+    .map((char) => {
+      if (char === "°") return "%%d";
+      const code = char.codePointAt(0) ?? 0;
+      if (code < 0x80) return char;
+      return code > 0xffff ? "?" : `\\U+${code.toString(16).toUpperCase().padStart(4, "0")}`;
+    })
+    .join("");
+
+const writeText = (dxf: DxfWriter, layer: string, text: string, at: PointMm) => {
+  dxf.pair(0, "TEXT");
+  dxf.pair(8, layer);
+  dxf.point(10, at);
+  dxf.pair(40, TEXT_HEIGHT_MM);
+  dxf.pair(1, toDxfText(text));
+  dxf.pair(72, 1);
+  dxf.point(11, at);
+  dxf.pair(73, 2);
+};
+
+/** Left-aligned text with its baseline at `at`, for the notes schedule. */
+const writeNoteText = (dxf: DxfWriter, text: string, at: PointMm) => {
+  dxf.pair(0, "TEXT");
+  dxf.pair(8, "NOTES");
+  dxf.point(10, at);
+  dxf.pair(40, TEXT_HEIGHT_MM);
+  dxf.pair(1, toDxfText(text));
+};
+
+/** The notes schedule, under the plan and left-aligned with it. */
+const writeNotes = (dxf: DxfWriter, drawing: PlanDrawing) => {
+  const bounds = getPlanBoundsMm(drawing);
+  if (!bounds || drawing.notes.length === 0) return;
+  const lines = ["NOTES", ...drawing.notes.map((note) => `${note.reference}  ${note.title}: ${note.text}`)];
+  lines.forEach((line, idx) =>
+    writeNoteText(dxf, line, { xMm: bounds.minX, yMm: bounds.maxY + TEXT_HEIGHT_MM * 4 + idx * NOTE_LINE_SPACING_MM }),
+  );
+};
+
+const writeArrow = (dxf: DxfWriter, layer: string, start: PointMm, end: PointMm) => {
+  const length = Math.hypot(end.xMm - start.xMm, end.yMm - start.yMm);
+  if (length === 0) return;
+  const ux = (end.xMm - start.xMm) / length;
+  const uy = (end.yMm - start.yMm) / length;
+  const base = { xMm: end.xMm - ux * ARROW_HEAD_MM, yMm: end.yMm - uy * ARROW_HEAD_MM };
+  const half = ARROW_HEAD_MM / 2;
+  writeLine(dxf, layer, start, base);
+  writeSolidTriangle(
+    dxf,
+    layer,
+    end,
+    { xMm: base.xMm - uy * half, yMm: base.yMm + ux * half },
+    { xMm: base.xMm + uy * half, yMm: base.yMm - ux * half },
+  );
+};
+
+const dimensionMidpoint = (dimension: PlanDimension): PointMm => ({
+  xMm: (dimension.lineStart.xMm + dimension.lineEnd.xMm) / 2,
+  yMm: (dimension.lineStart.yMm + dimension.lineEnd.yMm) / 2,
+});
+
+/** The anonymous block holding a dimension's rendered graphics, which R12 readers display as-is. */
+const writeDimensionBlock = (dxf: DxfWriter, name: string, dimension: PlanDimension) => {
+  const { measuredStart, measuredEnd, lineStart, lineEnd } = dimension;
+  const length = Math.hypot(lineEnd.xMm - lineStart.xMm, lineEnd.yMm - lineStart.yMm);
+  const ux = length === 0 ? 0 : (lineEnd.xMm - lineStart.xMm) / length;
+  const uy = length === 0 ? 0 : (lineEnd.yMm - lineStart.yMm) / length;
+  // Architectural 45° ticks.
+  const tickX = ((ux - uy) * TICK_SIZE_MM) / 2;
+  const tickY = ((uy + ux) * TICK_SIZE_MM) / 2;
+  const tick = (at: PointMm) =>
+    writeLine(dxf, "DIMENSIONS", { xMm: at.xMm - tickX, yMm: at.yMm - tickY }, { xMm: at.xMm + tickX, yMm: at.yMm + tickY });
+
+  dxf.pair(0, "BLOCK");
+  dxf.pair(8, "0");
+  dxf.pair(2, name);
+  dxf.pair(70, 1);
+  dxf.point(10, { xMm: 0, yMm: 0 });
+  dxf.pair(3, name);
+  writeLine(dxf, "DIMENSIONS", measuredStart, lineStart);
+  writeLine(dxf, "DIMENSIONS", measuredEnd, lineEnd);
+  writeLine(dxf, "DIMENSIONS", lineStart, lineEnd);
+  tick(lineStart);
+  tick(lineEnd);
+  writeText(dxf, "DIMENSIONS", dimension.label, dimensionMidpoint(dimension));
+  dxf.pair(0, "ENDBLK");
+  dxf.pair(8, "0");
+};
+
+const writeAlignedDimension = (dxf: DxfWriter, blockName: string, dimension: PlanDimension) => {
+  dxf.pair(0, "DIMENSION");
+  dxf.pair(8, "DIMENSIONS");
+  dxf.pair(2, blockName);
+  dxf.point(10, dimension.lineEnd);
+  dxf.point(11, dimensionMidpoint(dimension));
+  dxf.pair(70, 1);
+  dxf.pair(1, toDxfText(dimension.label));
+  dxf.point(13, dimension.measuredStart);
+  dxf.point(14, dimension.measuredEnd);
+};
+
+const writeHeader = (dxf: DxfWriter, drawing: PlanDrawing) => {
+  const bounds = getPlanBoundsMm(drawing) ?? { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+  dxf.pair(0, "SECTION");
+  dxf.pair(2, "HEADER");
+  dxf.pair(9, "$ACADVER");
+  dxf.pair(1, "AC1009");
+  dxf.pair(9, "$INSUNITS");
+  dxf.pair(70, 4);
+  dxf.pair(9, "$MEASUREMENT");
+  dxf.pair(70, 1);
+  dxf.pair(9, "$EXTMIN");
+  dxf.point(10, { xMm: bounds.minX, yMm: bounds.maxY });
+  dxf.pair(9, "$EXTMAX");
+  dxf.point(10, { xMm: bounds.maxX, yMm: bounds.minY });
+  dxf.pair(9, "$DIMTXT");
+  dxf.pair(40, TEXT_HEIGHT_MM);
+  dxf.pair(9, "$DIMTSZ");
+  dxf.pair(40, TICK_SIZE_MM);
+  dxf.pair(0, "ENDSEC");
+};
+
+const writeTables = (dxf: DxfWriter) => {
+  dxf.pair(0, "SECTION");
+  dxf.pair(2, "TABLES");
+
+  dxf.pair(0, "TABLE");
+  dxf.pair(2, "LTYPE");
+  dxf.pair(70, 2);
+  dxf.pair(0, "LTYPE");
+  dxf.pair(2, "CONTINUOUS");
+  dxf.pair(70, 0);
+  dxf.pair(3, "Solid line");
+  dxf.pair(72, 65);
+  dxf.pair(73, 0);
+  dxf.pair(40, 0);
+  dxf.pair(0, "LTYPE");
+  dxf.pair(2, "DASHED");
+  dxf.pair(70, 0);
+  dxf.pair(3, "Dashed __ __ __");
+  dxf.pair(72, 65);
+  dxf.pair(73, 2);
+  dxf.pair(40, DASH_MM * 2);
+  dxf.pair(49, DASH_MM);
+  dxf.pair(49, -DASH_MM);
+  dxf.pair(0, "ENDTAB");
+
+  const layers = Object.keys(LAYER_COLOURS) as DxfLayer[];
+  dxf.pair(0, "TABLE");
+  dxf.pair(2, "LAYER");
+  dxf.pair(70, layers.length + 1);
+  dxf.pair(0, "LAYER");
+  dxf.pair(2, "0");
+  dxf.pair(70, 0);
+  dxf.pair(62, 7);
+  dxf.pair(6, "CONTINUOUS");
+  layers.forEach((layer) => {
+    dxf.pair(0, "LAYER");
+    dxf.pair(2, layer);
+    dxf.pair(70, 0);
+    dxf.pair(62, LAYER_COLOURS[layer]);
+    dxf.pair(6, "CONTINUOUS");
+  });
+  dxf.pair(0, "ENDTAB");
+
+  dxf.pair(0, "TABLE");
+  dxf.pair(2, "STYLE");
+  dxf.pair(70, 1);
+  dxf.pair(0, "STYLE");
+  dxf.pair(2, "STANDARD");
+  dxf.pair(70, 0);
+  dxf.pair(40, 0);
+  dxf.pair(41, 1);
+  dxf.pair(50, 0);
+  dxf.pair(71, 0);
+  dxf.pair(42, TEXT_HEIGHT_MM);
+  dxf.pair(3, "txt");
+  dxf.pair(4, "");
+  dxf.pair(0, "ENDTAB");
+
+  dxf.pair(0, "ENDSEC");
+};
+
+export const createPlanDxf = (objects: Object2D[], annotations: ObjectAnnotation[] = []): string => {
+  const drawing = buildPlanDrawing(objects, annotations);
+  const layerById = new Map(objects.map((obj) => [obj.id, KIND_LAYERS[obj.kind]]));
+  const dimensionBlocks = drawing.dimensions.map((dimension, idx) => ({ name: `*D${idx + 1}`, dimension }));
+  const dxf = createDxfWriter();
+
+  writeHeader(dxf, drawing);
+  writeTables(dxf);
+
+  dxf.pair(0, "SECTION");
+  dxf.pair(2, "BLOCKS");
+  dimensionBlocks.forEach(({ name, dimension }) => writeDimensionBlock(dxf, name, dimension));
+  dxf.pair(0, "ENDSEC");
+
+  dxf.pair(0, "SECTION");
+  dxf.pair(2, "ENTITIES");
+
+  objects.forEach((obj) => {
+    const toWorld = (point: PointMm) => localToWorldMm(obj, point);
+    if (obj.kind === "ramp") {
+      writeClosedPolyline(dxf, "RAMP", getRampBodyPointsMm(obj).map(toWorld));
+      getRampWingPolygonsMm(obj).forEach((wing) => writeClosedPolyline(dxf, "WINGS", wing.map(toWorld)));
+    }
+  });
+  drawing.outlines
+    .filter((outline) => outline.kind !== "ramp")
+    .forEach((outline) => writeClosedPolyline(dxf, KIND_LAYERS[outline.kind], outline.points));
+
+  // Ramp seams are already the shared edges of the body and wing polylines.
+  drawing.lines.forEach((line) => {
+    const layer = layerById.get(line.objectId) ?? "0";
+    if (layer === "RAMP") return;
+    writeLine(dxf, layer, line.start, line.end, line.dashed ? "DASHED" : undefined);
+  });
+  drawing.edgeFeatures.forEach((edge) =>
+    writeLine(dxf, EDGE_FEATURE_LAYERS[edge.feature], edge.start, edge.end, edge.feature === "balustrade" ? "DASHED" : undefined),
+  );
+  drawing.arrows.forEach((arrow) => writeArrow(dxf, layerById.get(arrow.objectId) ?? "0", arrow.start, arrow.end));
+  drawing.labels.forEach((label) => writeText(dxf, "TEXT", label.text, label.at));
+  dimensionBlocks.forEach(({ name, dimension }) => writeAlignedDimension(dxf, name, dimension));
+  writeNotes(dxf, drawing);
+
+  dxf.pair(0, "ENDSEC");
+  dxf.pair(0, "EOF");
+  return dxf.toString();
+};
+
+export const exportPlanDxf = (objects: Object2D[], info: ProjectInfo, annotations: ObjectAnnotation[] = []) => {
+  downloadBlob(new Blob([createPlanDxf(objects, annotations)], { type: "application/dxf" }), toExportFileName(info.name, "dxf"));
+};
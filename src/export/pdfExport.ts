@@ -1,3 +1,388 @@
-export function pdfExportPlaceholder(): string {
-  return "PDF export placeholder";
-}
+import { jsPDF } from "jspdf";
+import { APP_VERSION } from "../app/version";
+import type { ObjectAnnotation } from "../model/annotations";
+import { PointMm } from "../model/geometry";
+import { Object2D, ProjectInfo } from "../model/types";
+import { toExportFileName } from "./download";
+import {
+  PlanBoundsMm,
+  PlanDrawing,
+  buildPlanDrawing,
+  getObjectsBoundsMm,
+  getPlanBoundsMm,
+  mergeBoundsMm,
+} from "./planGeometry";
+import { DrawingScale, MatchEdge, SheetLayout, SheetLayoutMode, SheetTile, computeSheetLayout } from "./sheetLayout";
+
+export type PaperSize = "A4" | "A3";
+
+export type PdfExportOptions = {
+  paper: PaperSize;
+  /** Requested scale; "fit" mode replaces it with the largest standard scale that fits. */
+  scale: DrawingScale;
+  layout: SheetLayoutMode;
+};
+
+type SheetSizeMm = { widthMm: number; heightMm: number };
+type RectMm = { x: number; y: number; w: number; h: number };
+
+/** Landscape sheet sizes. */
+export const PAPER_SIZES_MM: Record<PaperSize, SheetSizeMm> = {
+  A4: { widthMm: 297, heightMm: 210 },
+  A3: { widthMm: 420, heightMm: 297 },
+};
+
+const SHEET_MARGIN_MM = 10;
+const TITLE_BLOCK_HEIGHT_MM = 30;
+const OUTLINE_WIDTH_MM = 0.35;
+const DETAIL_WIDTH_MM = 0.18;
+const TICK_SIZE_MM = 1.5;
+const ARROW_HEAD_MM = 3;
+const LABEL_FONT_PT = 7;
+const PT_TO_MM = 25.4 / 72;
+const KEY_PLAN_WIDTH_MM = 50;
+const KEY_PLAN_HEIGHT_MM = 35;
+const KEY_PLAN_INSET_MM = 3;
+const NOTES_MAX_WIDTH_MM = 110;
+const NOTES_FONT_PT = 6.5;
+const NOTES_LINE_HEIGHT_MM = 3;
+const MATCH_LINE_DASH_MM = [6, 1.5, 1, 1.5];
+
+type SheetTransform = (point: PointMm) => { x: number; y: number };
+
+const getDrawingArea = (sheet: SheetSizeMm): RectMm => ({
+  x: SHEET_MARGIN_MM,
+  y: SHEET_MARGIN_MM,
+  w: sheet.widthMm - SHEET_MARGIN_MM * 2,
+  h: sheet.heightMm - SHEET_MARGIN_MM * 2 - TITLE_BLOCK_HEIGHT_MM,
+});
+
+const createSheetTransform = (centre: PointMm, area: RectMm, scale: number): SheetTransform => {
+  const areaCentreX = area.x + area.w / 2;
+  const areaCentreY = area.y + area.h / 2;
+  return (point) => ({
+    x: areaCentreX + (point.xMm - centre.xMm) / scale,
+    y: areaCentreY + (point.yMm - centre.yMm) / scale,
+  });
+};
+
+const drawPolygon = (doc: jsPDF, points: Array<{ x: number; y: number }>, style: "S" | "FD") => {
+  if (points.length < 2) return;
+  const [first, ...rest] = points;
+  const deltas = rest.map((point, idx) => {
+    const previous = points[idx];
+    return [point.x - previous.x, point.y - previous.y];
+  });
+  doc.lines(deltas, first.x, first.y, [1, 1], style, true);
+};
+
+const drawLabel = (doc: jsPDF, text: string, at: { x: number; y: number }) => {
+  doc.setFontSize(LABEL_FONT_PT);
+  const widthMm = doc.getTextWidth(text);
+  const heightMm = LABEL_FONT_PT * PT_TO_MM;
+  doc.setFillColor(255, 255, 255);
+  doc.rect(at.x - widthMm / 2 - 0.5, at.y - heightMm / 2 - 0.3, widthMm + 1, heightMm + 0.6, "F");
+  doc.setTextColor(17, 24, 39);
+  doc.text(text, at.x, at.y, { align: "center", baseline: "middle" });
+};
+
+const drawPlan = (doc: jsPDF, drawing: PlanDrawing, toSheet: SheetTransform) => {
+  doc.setDrawColor(15, 23, 42);
+  doc.setFillColor(229, 231, 235);
+  doc.setLineWidth(OUTLINE_WIDTH_MM);
+  drawing.outlines.forEach((outline) => drawPolygon(doc, outline.points.map(toSheet), "FD"));
+
+  doc.setLineWidth(DETAIL_WIDTH_MM);
+  drawing.lines.forEach((line) => {
+    const start = toSheet(line.start);
+    const end = toSheet(line.end);
+    doc.setLineDashPattern(line.dashed ? [1, 1] : [], 0);
+    doc.line(start.x, start.y, end.x, end.y);
+  });
+  doc.setLineDashPattern([], 0);
+
+  drawing.edgeFeatures.forEach((edge) => {
+    const start = toSheet(edge.start);
+    const end = toSheet(edge.end);
+    doc.setLineWidth(edge.feature === "handrail" ? OUTLINE_WIDTH_MM : DETAIL_WIDTH_MM);
+    doc.setLineDashPattern(edge.feature === "balustrade" ? [2, 1] : [], 0);
+    doc.line(start.x, start.y, end.x, end.y);
+  });
+  doc.setLineDashPattern([], 0);
+  doc.setLineWidth(DETAIL_WIDTH_MM);
+
+  doc.setFillColor(15, 23, 42);
+  drawing.arrows.forEach((arrow) => {
+    const start = toSheet(arrow.start);
+    const end = toSheet(arrow.end);
+    const length = Math.hypot(end.x - start.x, end.y - start.y);
+    if (length === 0) return;
+    const ux = (end.x - start.x) / length;
+    const uy = (end.y - start.y) / length;
+    const baseX = end.x - ux * ARROW_HEAD_MM;
+    const baseY = end.y - uy * ARROW_HEAD_MM;
+    const half = ARROW_HEAD_MM / 2;
+    doc.line(start.x, start.y, baseX, baseY);
+    doc.triangle(end.x, end.y, baseX - uy * half, baseY + ux * half, baseX + uy * half, baseY - ux * half, "F");
+  });
+
+  doc.setDrawColor(37, 99, 235);
+  drawing.dimensions.forEach((dimension) => {
+    const measuredStart = toSheet(dimension.measuredStart);
+    const measuredEnd = toSheet(dimension.measuredEnd);
+    const lineStart = toSheet(dimension.lineStart);
+    const lineEnd = toSheet(dimension.lineEnd);
+    const length = Math.hypot(lineEnd.x - lineStart.x, lineEnd.y - lineStart.y);
+    if (length === 0) return;
+    const ux = (lineEnd.x - lineStart.x) / length;
+    const uy = (lineEnd.y - lineStart.y) / length;
+    // Architectural 45° ticks.
+    const tickX = ((ux - uy) * TICK_SIZE_MM) / 2;
+    const tickY = ((uy + ux) * TICK_SIZE_MM) / 2;
+
+    doc.line(measuredStart.x, measuredStart.y, lineStart.x, lineStart.y);
+    doc.line(measuredEnd.x, measuredEnd.y, lineEnd.x, lineEnd.y);
+    doc.line(lineStart.x, lineStart.y, lineEnd.x, lineEnd.y);
+    doc.line(lineStart.x - tickX, lineStart.y - tickY, lineStart.x + tickX, lineStart.y + tickY);
+    doc.line(lineEnd.x - tickX, lineEnd.y - tickY, lineEnd.x + tickX, lineEnd.y + tickY);
+    drawLabel(doc, dimension.label, { x: (lineStart.x + lineEnd.x) / 2, y: (lineStart.y + lineEnd.y) / 2 });
+  });
+
+  drawing.labels.forEach((label) => drawLabel(doc, label.text, toSheet(label.at)));
+};
+
+const formatDate = (date: Date) => date.toLocaleDateString("en-AU", { day: "2-digit", month: "2-digit", year: "numeric" });
+
+const drawTitleBlock = (
+  doc: jsPDF,
+  sheet: SheetSizeMm,
+  info: ProjectInfo,
+  paper: PaperSize,
+  scale: DrawingScale,
+  sheetLabel: string,
+) => {
+  const x = SHEET_MARGIN_MM;
+  const y = sheet.heightMm - SHEET_MARGIN_MM - TITLE_BLOCK_HEIGHT_MM;
+  const w = sheet.widthMm - SHEET_MARGIN_MM * 2;
+  const columnWidth = w / 3;
+  const rowHeight = TITLE_BLOCK_HEIGHT_MM / 3;
+
+  const cells: Array<[string, string]> = [
+    ["Project", info.name],
+    ["Client", info.client],
+    ["Address", info.address],
+    ["Designer", info.designer],
+    ["Date", formatDate(new Date())],
+    ["Revision", info.revision],
+    ["Scale", `1:${scale} @ ${paper}`],
+    ["Sheet", sheetLabel],
+    ["Generated by", `Occupational Builder v${APP_VERSION}`],
+  ];
+
+  doc.setDrawColor(15, 23, 42);
+  doc.setLineWidth(OUTLINE_WIDTH_MM);
+  doc.rect(x, y, w, TITLE_BLOCK_HEIGHT_MM);
+  doc.setLineWidth(DETAIL_WIDTH_MM);
+  for (let col = 1; col < 3; col += 1) {
+    doc.line(x + columnWidth * col, y, x + columnWidth * col, y + TITLE_BLOCK_HEIGHT_MM);
+  }
+  for (let row = 1; row < 3; row += 1) {
+    doc.line(x, y + rowHeight * row, x + w, y + rowHeight * row);
+  }
+
+  cells.forEach(([label, value], idx) => {
+    const col = Math.floor(idx / 3);
+    const row = idx % 3;
+    const cellX = x + columnWidth * col + 2;
+    const cellY = y + rowHeight * row;
+    doc.setFontSize(6);
+    doc.setTextColor(107, 114, 128);
+    doc.text(label.toUpperCase(), cellX, cellY + 3);
+    doc.setFontSize(9);
+    doc.setTextColor(17, 24, 39);
+    const fitted = doc.splitTextToSize(value || "-", columnWidth - 4)[0] ?? "";
+    doc.text(fitted, cellX, cellY + rowHeight - 2);
+  });
+};
+
+const drawScaleBar = (doc: jsPDF, area: RectMm, scale: DrawingScale) => {
+  const segmentWorldMm = scale >= 500 ? 5000 : scale >= 200 ? 2000 : scale >= 100 ? 1000 : scale >= 50 ? 500 : 200;
+  const segmentSheetMm = segmentWorldMm / scale;
+  const segments = 4;
+  const x = area.x + 4;
+  const y = area.y + area.h - 6;
+
+  doc.setDrawColor(15, 23, 42);
+  doc.setLineWidth(DETAIL_WIDTH_MM);
+  for (let idx = 0; idx < segments; idx += 1) {
+    if (idx % 2 === 0) {
+      doc.setFillColor(15, 23, 42);
+      doc.rect(x + idx * segmentSheetMm, y, segmentSheetMm, 1.5, "FD");
+    } else {
+      doc.rect(x + idx * segmentSheetMm, y, segmentSheetMm, 1.5, "S");
+    }
+  }
+  doc.setFontSize(6);
+  doc.setTextColor(17, 24, 39);
+  doc.text("0", x, y + 4, { align: "center" });
+  doc.text(`${(segments * segmentWorldMm) / 1000}m`, x + segments * segmentSheetMm, y + 4, { align: "center" });
+};
+
+const drawMatchLines = (doc: jsPDF, tile: SheetTile, toSheet: SheetTransform) => {
+  const topLeft = toSheet({ xMm: tile.extentMm.minX, yMm: tile.extentMm.minY });
+  const bottomRight = toSheet({ xMm: tile.extentMm.maxX, yMm: tile.extentMm.maxY });
+  const midX = (topLeft.x + bottomRight.x) / 2;
+  const midY = (topLeft.y + bottomRight.y) / 2;
+  const edges: Record<MatchEdge, { start: [number, number]; end: [number, number]; label: [number, number]; angle: number }> = {
+    top: { start: [topLeft.x, topLeft.y], end: [bottomRight.x, topLeft.y], label: [midX, topLeft.y - 1.5], angle: 0 },
+    bottom: { start: [topLeft.x, bottomRight.y], end: [bottomRight.x, bottomRight.y], label: [midX, bottomRight.y + 3], angle: 0 },
+    left: { start: [topLeft.x, topLeft.y], end: [topLeft.x, bottomRight.y], label: [topLeft.x - 1.5, midY], angle: 90 },
+    right: { start: [bottomRight.x, topLeft.y], end: [bottomRight.x, bottomRight.y], label: [bottomRight.x + 3, midY], angle: 90 },
+  };
+
+  doc.setDrawColor(220, 38, 38);
+  doc.setTextColor(220, 38, 38);
+  doc.setLineWidth(OUTLINE_WIDTH_MM);
+  doc.setLineDashPattern(MATCH_LINE_DASH_MM, 0);
+  doc.setFontSize(LABEL_FONT_PT);
+  (Object.keys(tile.matchEdges) as MatchEdge[]).forEach((edge) => {
+    const { start, end, label, angle } = edges[edge];
+    doc.line(start[0], start[1], end[0], end[1]);
+    doc.text(`MATCH LINE - SEE SHEET ${tile.matchEdges[edge]}`, label[0], label[1], { align: "center", angle });
+  });
+  doc.setLineDashPattern([], 0);
+};
+
+const drawKeyPlan = (doc: jsPDF, drawing: PlanDrawing, layout: SheetLayout, current: SheetTile, area: RectMm) => {
+  const box: RectMm = {
+    x: area.x + area.w - KEY_PLAN_WIDTH_MM - KEY_PLAN_INSET_MM,
+    y: area.y + KEY_PLAN_INSET_MM,
+    w: KEY_PLAN_WIDTH_MM,
+    h: KEY_PLAN_HEIGHT_MM,
+  };
+  const first = layout.tiles[0].extentMm;
+  const last = layout.tiles[layout.tiles.length - 1].extentMm;
+  const extent: PlanBoundsMm = { minX: first.minX, minY: first.minY, maxX: last.maxX, maxY: last.maxY };
+  const keyScale = Math.max((extent.maxX - extent.minX) / (box.w - 4), (extent.maxY - extent.minY) / (box.h - 8));
+  const inner: RectMm = { x: box.x, y: box.y + 4, w: box.w, h: box.h - 4 };
+  const toKey = createSheetTransform(
+    { xMm: (extent.minX + extent.maxX) / 2, yMm: (extent.minY + extent.maxY) / 2 },
+    inner,
+    keyScale,
+  );
+
+  doc.setFillColor(255, 255, 255);
+  doc.setDrawColor(15, 23, 42);
+  doc.setLineWidth(DETAIL_WIDTH_MM);
+  doc.rect(box.x, box.y, box.w, box.h, "FD");
+  doc.setFontSize(6);
+  doc.setTextColor(107, 114, 128);
+  doc.text("KEY PLAN", box.x + 2, box.y + 3);
+
+  layout.tiles.forEach((tile) => {
+    const topLeft = toKey({ xMm: tile.extentMm.minX, yMm: tile.extentMm.minY });
+    const bottomRight = toKey({ xMm: tile.extentMm.maxX, yMm: tile.extentMm.maxY });
+    const isCurrent = tile.sheetNumber === current.sheetNumber;
+    doc.setFillColor(isCurrent ? 191 : 255, isCurrent ? 219 : 255, isCurrent ? 254 : 255);
+    doc.setDrawColor(148, 163, 184);
+    doc.rect(topLeft.x, topLeft.y, bottomRight.x - topLeft.x, bottomRight.y - topLeft.y, "FD");
+  });
+
+  doc.setDrawColor(15, 23, 42);
+  drawing.outlines.forEach((outline) => drawPolygon(doc, outline.points.map(toKey), "S"));
+
+  doc.setFontSize(6);
+  doc.setTextColor(30, 64, 175);
+  layout.tiles.forEach((tile) => {
+    const centre = toKey(tile.centreMm);
+    doc.text(String(tile.sheetNumber), centre.x, centre.y, { align: "center", baseline: "middle" });
+  });
+};
+
+/** The notes schedule, boxed in the top-left corner of the drawing area on every sheet. */
+const drawNotes = (doc: jsPDF, drawing: PlanDrawing, area: RectMm) => {
+  if (drawing.notes.length === 0) return;
+  const width = Math.min(NOTES_MAX_WIDTH_MM, area.w * 0.4);
+  doc.setFontSize(NOTES_FONT_PT);
+  const lines: string[] = drawing.notes.flatMap((note) =>
+    doc.splitTextToSize(`${note.reference}  ${note.title}: ${note.text}`, width - 4),
+  );
+  const box: RectMm = {
+    x: area.x + KEY_PLAN_INSET_MM,
+    y: area.y + KEY_PLAN_INSET_MM,
+    w: width,
+    h: 6 + lines.length * NOTES_LINE_HEIGHT_MM,
+  };
+
+  doc.setFillColor(255, 255, 255);
+  doc.setDrawColor(15, 23, 42);
+  doc.setLineWidth(DETAIL_WIDTH_MM);
+  doc.rect(box.x, box.y, box.w, box.h, "FD");
+  doc.setFontSize(6);
+  doc.setTextColor(107, 114, 128);
+  doc.text("NOTES", box.x + 2, box.y + 3);
+  doc.setFontSize(NOTES_FONT_PT);
+  doc.setTextColor(17, 24, 39);
+  lines.forEach((line, idx) => doc.text(line, box.x + 2, box.y + 6 + idx * NOTES_LINE_HEIGHT_MM + 1));
+};
+
+const getLayoutInputs = (objects: Object2D[], options: PdfExportOptions, annotations: ObjectAnnotation[]) => {
+  const sheet = PAPER_SIZES_MM[options.paper];
+  const area = getDrawingArea(sheet);
+  const drawing = buildPlanDrawing(objects, annotations);
+  const bounds = mergeBoundsMm(getObjectsBoundsMm(objects), getPlanBoundsMm(drawing));
+  return { sheet, area, drawing, layout: computeSheetLayout(bounds, area, options.layout, options.scale) };
+};
+
+/** Resolved scale and sheet count for the given options, without rendering anything. */
+export const getPdfSheetLayout = (
+  objects: Object2D[],
+  options: PdfExportOptions,
+  annotations: ObjectAnnotation[] = [],
+): SheetLayout => getLayoutInputs(objects, options, annotations).layout;
+
+export const createPlanPdf = (
+  objects: Object2D[],
+  info: ProjectInfo,
+  options: PdfExportOptions,
+  annotations: ObjectAnnotation[] = [],
+): jsPDF => {
+  const { sheet, area, drawing, layout } = getLayoutInputs(objects, options, annotations);
+  const doc = new jsPDF({ orientation: "landscape", unit: "mm", format: options.paper.toLowerCase() });
+  const sheetCount = layout.tiles.length;
+
+  layout.tiles.forEach((tile, idx) => {
+    if (idx > 0) doc.addPage(options.paper.toLowerCase(), "landscape");
+    const toSheet = createSheetTransform(tile.centreMm, area, layout.scale);
+
+    doc.setDrawColor(15, 23, 42);
+    doc.setLineWidth(OUTLINE_WIDTH_MM);
+    doc.rect(area.x, area.y, area.w, area.h);
+
+    if (objects.length > 0) {
+      doc.saveGraphicsState();
+      doc.rect(area.x, area.y, area.w, area.h, null);
+      doc.clip();
+      doc.discardPath();
+      drawPlan(doc, drawing, toSheet);
+      drawMatchLines(doc, tile, toSheet);
+      doc.restoreGraphicsState();
+    }
+
+    drawNotes(doc, drawing, area);
+    if (sheetCount > 1) drawKeyPlan(doc, drawing, layout, tile, area);
+    drawScaleBar(doc, area, layout.scale);
+    drawTitleBlock(doc, sheet, info, options.paper, layout.scale, `${tile.sheetNumber} of ${sheetCount}`);
+  });
+
+  return doc;
+};
+
+export const exportPlanPdf = (
+  objects: Object2D[],
+  info: ProjectInfo,
+  options: PdfExportOptions,
+  annotations: ObjectAnnotation[] = [],
+) => {
+  createPlanPdf(objects, info, options, annotations).save(toExportFileName(info.name, "pdf"));
+};
@@ -0,0 +1,228 @@
+import type { ObjectAnnotation } from "../model/annotations";
+import { getDimensionSpecsMm } from "../model/dimensions";
+import {
+  EdgeFeatureKind,
+  LineSegmentMm,
+  PointMm,
+  getEdgeFeatureLinesMm,
+  getRampOutlinePointsMm,
+  getObjectBoundingBoxMm,
+  getRampSeamLinesMm,
+  getStairsTreadLinesMm,
+  localToWorldMm,
+} from "../model/geometry";
+import { computeRampSlope } from "../model/rampSlope";
+import { Object2D } from "../model/types";
+
+export type PlanPolyline = {
+  objectId: string;
+  kind: Object2D["kind"];
+  points: PointMm[];
+};
+
+export type PlanLine = LineSegmentMm & {
+  objectId: string;
+  dashed: boolean;
+};
+
+export type PlanArrow = LineSegmentMm & {
+  objectId: string;
+};
+
+export type PlanEdgeFeature = LineSegmentMm & {
+  objectId: string;
+  feature: EdgeFeatureKind;
+};
+
+export type PlanText = {
+  objectId: string;
+  at: PointMm;
+  text: string;
+};
+
+export type PlanDimension = {
+  objectId: string;
+  measuredStart: PointMm;
+  measuredEnd: PointMm;
+  lineStart: PointMm;
+  lineEnd: PointMm;
+  label: string;
+};
+
+/** An entry in the notes schedule, keyed to the plan by `reference` (e.g. "N1"). */
+export type PlanNote = {
+  objectId: string;
+  reference: string;
+  title: string;
+  text: string;
+};
+
+export type PlanBoundsMm = {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+};
+
+/** World-space (millimetre) primitives describing the top-down plan, shared by the exporters. */
+export type PlanDrawing = {
+  outlines: PlanPolyline[];
+  lines: PlanLine[];
+  edgeFeatures: PlanEdgeFeature[];
+  arrows: PlanArrow[];
+  labels: PlanText[];
+  dimensions: PlanDimension[];
+  notes: PlanNote[];
+};
+
+const rectPointsMm = (lengthMm: number, widthMm: number): PointMm[] => {
+  const halfLength = lengthMm / 2;
+  const halfWidth = widthMm / 2;
+  return [
+    { xMm: -halfLength, yMm: -halfWidth },
+    { xMm: halfLength, yMm: -halfWidth },
+    { xMm: halfLength, yMm: halfWidth },
+    { xMm: -halfLength, yMm: halfWidth },
+  ];
+};
+
+const getLocalOutlineMm = (obj: Object2D): PointMm[] =>
+  obj.kind === "ramp" ? getRampOutlinePointsMm(obj) : rectPointsMm(obj.lengthMm, obj.widthMm);
+
+const getLocalLinesMm = (obj: Object2D): Array<LineSegmentMm & { dashed: boolean }> => {
+  if (obj.kind === "ramp") return getRampSeamLinesMm(obj).map((seam) => ({ ...seam, dashed: false }));
+  if (obj.kind !== "stairs") return [];
+
+  const { nosings, risers } = getStairsTreadLinesMm(obj);
+  return [...nosings.map((line) => ({ ...line, dashed: false })), ...risers.map((line) => ({ ...line, dashed: true }))];
+};
+
+const getArrowLengthMm = (obj: Object2D): number | null => {
+  if (obj.kind === "ramp") return obj.showArrow ? obj.runMm : null;
+  if (obj.kind === "stairs") return obj.showArrow ? obj.lengthMm : null;
+  return null;
+};
+
+/**
+ * Objects with an entry in `annotations` get a name label, placed opposite a ramp's slope label;
+ * those with notes also get a numbered entry in `notes`, referenced from the label.
+ */
+export const buildPlanDrawing = (objects: Object2D[], annotations: ObjectAnnotation[] = []): PlanDrawing => {
+  const drawing: PlanDrawing = {
+    outlines: [],
+    lines: [],
+    edgeFeatures: [],
+    arrows: [],
+    labels: [],
+    dimensions: [],
+    notes: [],
+  };
+  const annotationById = new Map(annotations.map((annotation) => [annotation.objectId, annotation]));
+
+  objects.forEach((obj) => {
+    const toWorld = (point: PointMm) => localToWorldMm(obj, point);
+
+    drawing.outlines.push({ objectId: obj.id, kind: obj.kind, points: getLocalOutlineMm(obj).map(toWorld) });
+
+    getLocalLinesMm(obj).forEach((line) => {
+      drawing.lines.push({ objectId: obj.id, start: toWorld(line.start), end: toWorld(line.end), dashed: line.dashed });
+    });
+
+    if (obj.kind !== "stairs") {
+      getEdgeFeatureLinesMm(obj).forEach((line) => {
+        drawing.edgeFeatures.push({ objectId: obj.id, feature: line.feature, start: toWorld(line.start), end: toWorld(line.end) });
+      });
+    }
+
+    const arrowLengthMm = getArrowLengthMm(obj);
+    if (arrowLengthMm !== null) {
+      drawing.arrows.push({
+        objectId: obj.id,
+        start: toWorld({ xMm: -arrowLengthMm * 0.4, yMm: 0 }),
+        end: toWorld({ xMm: arrowLengthMm * 0.4, yMm: 0 }),
+      });
+    }
+
+    if (obj.kind === "ramp") {
+      const slope = computeRampSlope(obj.runMm, obj.heightMm);
+      drawing.labels.push({
+        objectId: obj.id,
+        at: toWorld({ xMm: 0, yMm: obj.widthMm * 0.25 }),
+        text: `${slope.ratioText} (${slope.gradientText})`,
+      });
+    }
+
+    const annotation = annotationById.get(obj.id);
+    if (annotation) {
+      let text = annotation.title;
+      if (annotation.notes) {
+        const reference = `N${drawing.notes.length + 1}`;
+        drawing.notes.push({ objectId: obj.id, reference, title: annotation.title, text: annotation.notes });
+        text = `${text} [${reference}]`;
+      }
+      drawing.labels.push({ objectId: obj.id, at: toWorld({ xMm: 0, yMm: obj.kind === "ramp" ? -obj.widthMm * 0.25 : 0 }), text });
+    }
+
+    getDimensionSpecsMm(obj).forEach((spec) => {
+      const offset = { xMm: spec.normalMm.xMm * spec.offsetMm, yMm: spec.normalMm.yMm * spec.offsetMm };
+      drawing.dimensions.push({
+        objectId: obj.id,
+        measuredStart: toWorld(spec.startMm),
+        measuredEnd: toWorld(spec.endMm),
+        lineStart: toWorld({ xMm: spec.startMm.xMm + offset.xMm, yMm: spec.startMm.yMm + offset.yMm }),
+        lineEnd: toWorld({ xMm: spec.endMm.xMm + offset.xMm, yMm: spec.endMm.yMm + offset.yMm }),
+        label: spec.label,
+      });
+    });
+  });
+
+  return drawing;
+};
+
+const boundsFromPoints = (points: PointMm[]): PlanBoundsMm | null => {
+  if (points.length === 0) return null;
+
+  return points.reduce<PlanBoundsMm>(
+    (acc, point) => ({
+      minX: Math.min(acc.minX, point.xMm),
+      minY: Math.min(acc.minY, point.yMm),
+      maxX: Math.max(acc.maxX, point.xMm),
+      maxY: Math.max(acc.maxY, point.yMm),
+    }),
+    { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity },
+  );
+};
+
+/** Union of every object's axis-aligned bounding box, in world millimetres. */
+export const getObjectsBoundsMm = (objects: Object2D[]): PlanBoundsMm | null =>
+  boundsFromPoints(
+    objects.flatMap((obj) => {
+      const bbox = getObjectBoundingBoxMm(obj);
+      const centreX = obj.xMm + (bbox.offsetXMm ?? 0);
+      const centreY = obj.yMm + (bbox.offsetYMm ?? 0);
+      return [
+        { xMm: centreX - bbox.widthMm / 2, yMm: centreY - bbox.heightMm / 2 },
+        { xMm: centreX + bbox.widthMm / 2, yMm: centreY + bbox.heightMm / 2 },
+      ];
+    }),
+  );
+
+/** Extent of the plan including dimension strings and labels that sit outside the objects. */
+export const getPlanBoundsMm = (drawing: PlanDrawing): PlanBoundsMm | null =>
+  boundsFromPoints([
+    ...drawing.outlines.flatMap((outline) => outline.points),
+    ...drawing.edgeFeatures.flatMap((edge) => [edge.start, edge.end]),
+    ...drawing.dimensions.flatMap((dimension) => [dimension.lineStart, dimension.lineEnd]),
+    ...drawing.labels.map((label) => label.at),
+  ]);
+
+export const mergeBoundsMm = (a: PlanBoundsMm | null, b: PlanBoundsMm | null): PlanBoundsMm | null => {
+  if (!a) return b;
+  if (!b) return a;
+  return {
+    minX: Math.min(a.minX, b.minX),
+    minY: Math.min(a.minY, b.minY),
+    maxX: Math.max(a.maxX, b.maxX),
+    maxY: Math.max(a.maxY, b.maxY),
+  };
+};
@@ -0,0 +1,9 @@
+import { PROJECT_FILE_EXTENSION, createProjectFile, type PersistedProject } from "../model/storage";
+import { downloadBlob, toProjectFileName } from "./download";
+
+export const exportProjectFile = (state: PersistedProject) => {
+  downloadBlob(
+    new Blob([createProjectFile(state)], { type: "application/json" }),
+    toProjectFileName(state.projectInfo.name, PROJECT_FILE_EXTENSION),
+  );
+};
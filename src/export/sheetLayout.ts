@@ -0,0 +1,112 @@
+import { PointMm } from "../model/geometry";
+import { PlanBoundsMm } from "./planGeometry";
+
+export type DrawingScale = 20 | 50 | 100 | 200 | 500;
+
+export type SheetLayoutMode = "fixed" | "fit" | "tile";
+
+/** Standard drawing scales, largest (most detailed) first. */
+export const DRAWING_SCALES: DrawingScale[] = [20, 50, 100, 200, 500];
+
+export type AreaSizeMm = { w: number; h: number };
+
+export type MatchEdge = "top" | "right" | "bottom" | "left";
+
+export type SheetTile = {
+  row: number;
+  col: number;
+  sheetNumber: number;
+  centreMm: PointMm;
+  /** The part of the plan this sheet is responsible for; neighbours meet along its edges. */
+  extentMm: PlanBoundsMm;
+  matchEdges: Partial<Record<MatchEdge, number>>;
+};
+
+export type SheetLayout = {
+  scale: DrawingScale;
+  rows: number;
+  cols: number;
+  tiles: SheetTile[];
+};
+
+/** Clear paper space kept around the design when fitting, and the overlap shown past each match line. */
+export const FIT_PADDING_MM = 10;
+export const TILE_OVERLAP_MM = 10;
+
+const boundsSize = (bounds: PlanBoundsMm) => ({ w: bounds.maxX - bounds.minX, h: bounds.maxY - bounds.minY });
+
+const boundsCentre = (bounds: PlanBoundsMm): PointMm => ({
+  xMm: (bounds.minX + bounds.maxX) / 2,
+  yMm: (bounds.minY + bounds.maxY) / 2,
+});
+
+export const fitsAtScale = (bounds: PlanBoundsMm, area: AreaSizeMm, scale: DrawingScale): boolean => {
+  const size = boundsSize(bounds);
+  return size.w / scale <= area.w - FIT_PADDING_MM * 2 && size.h / scale <= area.h - FIT_PADDING_MM * 2;
+};
+
+/** Largest standard scale at which the whole design fits on one sheet, else the smallest scale available. */
+export const pickFitScale = (bounds: PlanBoundsMm, area: AreaSizeMm): DrawingScale =>
+  DRAWING_SCALES.find((scale) => fitsAtScale(bounds, area, scale)) ?? DRAWING_SCALES[DRAWING_SCALES.length - 1];
+
+const singleSheet = (bounds: PlanBoundsMm | null, scale: DrawingScale): SheetLayout => {
+  const centreMm = bounds ? boundsCentre(bounds) : { xMm: 0, yMm: 0 };
+  return {
+    scale,
+    rows: 1,
+    cols: 1,
+    tiles: [
+      {
+        row: 0,
+        col: 0,
+        sheetNumber: 1,
+        centreMm,
+        extentMm: bounds ?? { minX: 0, minY: 0, maxX: 0, maxY: 0 },
+        matchEdges: {},
+      },
+    ],
+  };
+};
+
+export const computeSheetLayout = (
+  bounds: PlanBoundsMm | null,
+  area: AreaSizeMm,
+  mode: SheetLayoutMode,
+  scale: DrawingScale,
+): SheetLayout => {
+  if (mode === "fit") return singleSheet(bounds, bounds ? pickFitScale(bounds, area) : scale);
+  if (mode === "fixed" || !bounds || fitsAtScale(bounds, area, scale)) return singleSheet(bounds, scale);
+
+  const tileW = (area.w - TILE_OVERLAP_MM * 2) * scale;
+  const tileH = (area.h - TILE_OVERLAP_MM * 2) * scale;
+  const size = boundsSize(bounds);
+  const cols = Math.max(1, Math.ceil(size.w / tileW));
+  const rows = Math.max(1, Math.ceil(size.h / tileH));
+  const centre = boundsCentre(bounds);
+  const originX = centre.xMm - (cols * tileW) / 2;
+  const originY = centre.yMm - (rows * tileH) / 2;
+  const sheetNumberAt = (row: number, col: number) => row * cols + col + 1;
+
+  const tiles: SheetTile[] = [];
+  for (let row = 0; row < rows; row += 1) {
+    for (let col = 0; col < cols; col += 1) {
+      const minX = originX + col * tileW;
+      const minY = originY + row * tileH;
+      const matchEdges: Partial<Record<MatchEdge, number>> = {};
+      if (row > 0) matchEdges.top = sheetNumberAt(row - 1, col);
+      if (row < rows - 1) matchEdges.bottom = sheetNumberAt(row + 1, col);
+      if (col > 0) matchEdges.left = sheetNumberAt(row, col - 1);
+      if (col < cols - 1) matchEdges.right = sheetNumberAt(row, col + 1);
+      tiles.push({
+        row,
+        col,
+        sheetNumber: sheetNumberAt(row, col),
+        centreMm: { xMm: minX + tileW / 2, yMm: minY + tileH / 2 },
+        extentMm: { minX, minY, maxX: minX + tileW, maxY: minY + tileH },
+        matchEdges,
+      });
+    }
+  }
+
+  return { scale, rows, cols, tiles };
+};
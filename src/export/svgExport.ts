@@ -0,0 +1,148 @@
+import type { ObjectAnnotation } from "../model/annotations";
+import { PointMm } from "../model/geometry";
+import { Object2D, ProjectInfo } from "../model/types";
+import { downloadBlob, toExportFileName } from "./download";
+import { PlanDrawing, buildPlanDrawing, getPlanBoundsMm } from "./planGeometry";
+
+/**
+ * Coordinates are real millimetres; line weights and text are sized as they would print at this scale,
+ * which is also the physical size the SVG reports so it drops into documents at a sensible size.
+ */
+const NOMINAL_SCALE = 50;
+const PADDING_MM = 20 * NOMINAL_SCALE;
+const OUTLINE_WIDTH_MM = 0.35 * NOMINAL_SCALE;
+const DETAIL_WIDTH_MM = 0.18 * NOMINAL_SCALE;
+const DASH_MM = 1 * NOMINAL_SCALE;
+const TICK_SIZE_MM = 1.5 * NOMINAL_SCALE;
+const ARROW_HEAD_MM = 3 * NOMINAL_SCALE;
+const FONT_SIZE_MM = 2.5 * NOMINAL_SCALE;
+/** Rough average glyph width for sans-serif text, used to size label backgrounds. */
+const GLYPH_WIDTH_RATIO = 0.55;
+const NOTE_LINE_HEIGHT_MM = FONT_SIZE_MM * 1.6;
+
+const INK = "#0f172a";
+const DIMENSION_INK = "#2563eb";
+
+const fmt = (value: number) => String(Math.round(value * 100) / 100);
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const pointsAttr = (points: PointMm[]) => points.map((point) => `${fmt(point.xMm)},${fmt(point.yMm)}`).join(" ");
+
+const lineEl = (start: PointMm, end: PointMm, attrs = "") =>
+  `<line x1="${fmt(start.xMm)}" y1="${fmt(start.yMm)}" x2="${fmt(end.xMm)}" y2="${fmt(end.yMm)}"${attrs} />`;
+
+const labelEl = (text: string, at: PointMm) => {
+  const widthMm = text.length * FONT_SIZE_MM * GLYPH_WIDTH_RATIO;
+  const pad = FONT_SIZE_MM * 0.2;
+  return [
+    `<rect x="${fmt(at.xMm - widthMm / 2 - pad)}" y="${fmt(at.yMm - FONT_SIZE_MM / 2 - pad)}" width="${fmt(widthMm + pad * 2)}" height="${fmt(FONT_SIZE_MM + pad * 2)}" fill="#ffffff" stroke="none" />`,
+    `<text x="${fmt(at.xMm)}" y="${fmt(at.yMm)}" text-anchor="middle" dominant-baseline="central" fill="${INK}" stroke="none">${escapeXml(text)}</text>`,
+  ].join("");
+};
+
+const renderArrow = (start: PointMm, end: PointMm) => {
+  const length = Math.hypot(end.xMm - start.xMm, end.yMm - start.yMm);
+  if (length === 0) return "";
+  const ux = (end.xMm - start.xMm) / length;
+  const uy = (end.yMm - start.yMm) / length;
+  const base = { xMm: end.xMm - ux * ARROW_HEAD_MM, yMm: end.yMm - uy * ARROW_HEAD_MM };
+  const half = ARROW_HEAD_MM / 2;
+  const head = [
+    end,
+    { xMm: base.xMm - uy * half, yMm: base.yMm + ux * half },
+    { xMm: base.xMm + uy * half, yMm: base.yMm - ux * half },
+  ];
+  return `${lineEl(start, base)}<polygon points="${pointsAttr(head)}" fill="${INK}" stroke="none" />`;
+};
+
+const renderDimension = (dimension: PlanDrawing["dimensions"][number]) => {
+  const { measuredStart, measuredEnd, lineStart, lineEnd } = dimension;
+  const length = Math.hypot(lineEnd.xMm - lineStart.xMm, lineEnd.yMm - lineStart.yMm);
+  if (length === 0) return "";
+  const ux = (lineEnd.xMm - lineStart.xMm) / length;
+  const uy = (lineEnd.yMm - lineStart.yMm) / length;
+  // Architectural 45° ticks.
+  const tickX = ((ux - uy) * TICK_SIZE_MM) / 2;
+  const tickY = ((uy + ux) * TICK_SIZE_MM) / 2;
+  const tick = (at: PointMm) => lineEl({ xMm: at.xMm - tickX, yMm: at.yMm - tickY }, { xMm: at.xMm + tickX, yMm: at.yMm + tickY });
+  const mid = { xMm: (lineStart.xMm + lineEnd.xMm) / 2, yMm: (lineStart.yMm + lineEnd.yMm) / 2 };
+
+  return [
+    lineEl(measuredStart, lineStart),
+    lineEl(measuredEnd, lineEnd),
+    lineEl(lineStart, lineEnd),
+    tick(lineStart),
+    tick(lineEnd),
+    labelEl(dimension.label, mid),
+  ].join("");
+};
+
+const getNoteLines = (notes: PlanDrawing["notes"]): string[] =>
+  notes.length === 0 ? [] : ["NOTES", ...notes.map((note) => `${note.reference}  ${note.title}: ${note.text}`)];
+
+export const createPlanSvg = (objects: Object2D[], title: string, annotations: ObjectAnnotation[] = []): string => {
+  const drawing = buildPlanDrawing(objects, annotations);
+  const bounds = getPlanBoundsMm(drawing) ?? { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+  // The notes schedule sits under the plan, left-aligned with it, and widens the sheet if it needs to.
+  const noteLines = getNoteLines(drawing.notes);
+  const notesWidthMm = Math.max(0, ...noteLines.map((line) => line.length * FONT_SIZE_MM * GLYPH_WIDTH_RATIO));
+  const notesHeightMm = noteLines.length > 0 ? PADDING_MM / 2 + noteLines.length * NOTE_LINE_HEIGHT_MM : 0;
+  const x = bounds.minX - PADDING_MM;
+  const y = bounds.minY - PADDING_MM;
+  const w = Math.max(bounds.maxX - bounds.minX, notesWidthMm) + PADDING_MM * 2;
+  const h = bounds.maxY - bounds.minY + PADDING_MM * 2 + notesHeightMm;
+
+  const outlines = drawing.outlines
+    .map((outline) => `<polygon points="${pointsAttr(outline.points)}" data-object-id="${escapeXml(outline.objectId)}" />`)
+    .join("");
+  const lines = drawing.lines
+    .map((line) => lineEl(line.start, line.end, line.dashed ? ` stroke-dasharray="${fmt(DASH_MM)} ${fmt(DASH_MM)}"` : ""))
+    .join("");
+  const edgeFeatures = drawing.edgeFeatures
+    .map((edge) =>
+      lineEl(
+        edge.start,
+        edge.end,
+        ` data-feature="${edge.feature}"` +
+          (edge.feature === "handrail" ? ` stroke-width="${fmt(OUTLINE_WIDTH_MM)}"` : "") +
+          (edge.feature === "balustrade" ? ` stroke-dasharray="${fmt(DASH_MM * 2)} ${fmt(DASH_MM)}"` : ""),
+      ),
+    )
+    .join("");
+  const arrows = drawing.arrows.map((arrow) => renderArrow(arrow.start, arrow.end)).join("");
+  const dimensions = drawing.dimensions.map(renderDimension).join("");
+  const labels = drawing.labels.map((label) => labelEl(label.text, label.at)).join("");
+  const notesTop = bounds.maxY + PADDING_MM;
+  const notes = noteLines
+    .map(
+      (line, idx) =>
+        `<text x="${fmt(bounds.minX)}" y="${fmt(notesTop + idx * NOTE_LINE_HEIGHT_MM)}" dominant-baseline="hanging"${
+          idx === 0 ? ` font-weight="bold"` : ""
+        }>${escapeXml(line)}</text>`,
+    )
+    .join("");
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${fmt(w / NOMINAL_SCALE)}mm" height="${fmt(h / NOMINAL_SCALE)}mm" viewBox="${fmt(x)} ${fmt(y)} ${fmt(w)} ${fmt(h)}">`,
+    `<title>${escapeXml(title)}</title>`,
+    `<g id="outlines" fill="#e5e7eb" stroke="${INK}" stroke-width="${fmt(OUTLINE_WIDTH_MM)}" stroke-linejoin="miter">${outlines}</g>`,
+    `<g id="details" fill="none" stroke="${INK}" stroke-width="${fmt(DETAIL_WIDTH_MM)}">${lines}</g>`,
+    `<g id="edge-features" fill="none" stroke="${INK}" stroke-width="${fmt(DETAIL_WIDTH_MM)}" stroke-linecap="round">${edgeFeatures}</g>`,
+    `<g id="arrows" fill="none" stroke="${INK}" stroke-width="${fmt(DETAIL_WIDTH_MM)}">${arrows}</g>`,
+    `<g id="dimensions" stroke="${DIMENSION_INK}" stroke-width="${fmt(DETAIL_WIDTH_MM)}" font-family="Helvetica, Arial, sans-serif" font-size="${fmt(FONT_SIZE_MM)}">`,
+    dimensions,
+    `</g>`,
+    `<g id="labels" font-family="Helvetica, Arial, sans-serif" font-size="${fmt(FONT_SIZE_MM)}">${labels}</g>`,
+    `<g id="notes" fill="${INK}" font-family="Helvetica, Arial, sans-serif" font-size="${fmt(FONT_SIZE_MM)}">${notes}</g>`,
+    `</svg>`,
+    "",
+  ].join("\n");
+};
+
+export const exportPlanSvg = (objects: Object2D[], info: ProjectInfo, annotations: ObjectAnnotation[] = []) => {
+  const svg = createPlanSvg(objects, info.name, annotations);
+  downloadBlob(new Blob([svg], { type: "image/svg+xml" }), toExportFileName(info.name, "svg"));
+};
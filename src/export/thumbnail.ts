@@ -0,0 +1,35 @@
+import { Object2D } from "../model/types";
+import { buildPlanDrawing, getObjectsBoundsMm } from "./planGeometry";
+
+const THUMBNAIL_WIDTH_PX = 160;
+const THUMBNAIL_HEIGHT_PX = 100;
+/** Breathing room around the plan, as a share of its larger side. */
+const THUMBNAIL_PADDING_RATIO = 0.08;
+
+/**
+ * A small outline-only plan of the visible objects as an SVG data URL, for the project library and revision list.
+ * Returns "" when there is nothing to draw.
+ */
+export const createPlanThumbnail = (objects: Object2D[]): string => {
+  const visible = objects.filter((obj) => !obj.hidden);
+  const bounds = getObjectsBoundsMm(visible);
+  if (!bounds) return "";
+
+  const padding = Math.max(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY, 1) * THUMBNAIL_PADDING_RATIO;
+  const x = bounds.minX - padding;
+  const y = bounds.minY - padding;
+  const w = bounds.maxX - bounds.minX + padding * 2;
+  const h = bounds.maxY - bounds.minY + padding * 2;
+  const polygons = buildPlanDrawing(visible)
+    .outlines.map(
+      (outline) => `<polygon points="${outline.points.map((point) => `${Math.round(point.xMm)},${Math.round(point.yMm)}`).join(" ")}" />`,
+    )
+    .join("");
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${THUMBNAIL_WIDTH_PX}" height="${THUMBNAIL_HEIGHT_PX}" viewBox="${Math.round(x)} ${Math.round(y)} ${Math.round(w)} ${Math.round(h)}">`,
+    `<g fill="#e5e7eb" stroke="#0f172a" stroke-width="${Math.round(w / THUMBNAIL_WIDTH_PX)}" stroke-linejoin="round">${polygons}</g>`,
+    `</svg>`,
+  ].join("");
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
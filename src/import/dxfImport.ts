@@ -0,0 +1,219 @@
+import { UnderlaySegment } from "../model/types";
+import { ParsedVectorDrawing } from "../model/underlay";
+
+type DxfPair = { code: number; value: string };
+
+type DxfEntity = { type: string; pairs: DxfPair[] };
+
+type DxfBlock = { baseX: number; baseY: number; entities: DxfEntity[] };
+
+type Point = { x: number; y: number };
+
+type Transform = (point: Point) => Point;
+
+/** Millimetres per drawing unit for the `$INSUNITS` codes site plans actually use. */
+const INSUNITS_TO_MM: Record<number, number> = {
+  1: 25.4,
+  2: 304.8,
+  4: 1,
+  5: 10,
+  6: 1000,
+};
+
+const ARC_STEP_DEG = 10;
+const MAX_INSERT_DEPTH = 4;
+
+const readPairs = (text: string): DxfPair[] => {
+  const lines = text.split(/\r?\n/);
+  const pairs: DxfPair[] = [];
+  for (let idx = 0; idx + 1 < lines.length; idx += 2) {
+    const code = parseInt(lines[idx].trim(), 10);
+    if (Number.isNaN(code)) {
+      throw new Error("This does not look like an ASCII DXF file.");
+    }
+    pairs.push({ code, value: lines[idx + 1].trim() });
+  }
+  return pairs;
+};
+
+const numberAt = (entity: DxfEntity, code: number, fallback = 0): number => {
+  const pair = entity.pairs.find((candidate) => candidate.code === code);
+  const value = pair ? parseFloat(pair.value) : NaN;
+  return Number.isFinite(value) ? value : fallback;
+};
+
+const stringAt = (entity: DxfEntity, code: number): string =>
+  entity.pairs.find((candidate) => candidate.code === code)?.value ?? "";
+
+/** Splits a section's pairs into entities; each starts at a `0` code. */
+const toEntities = (pairs: DxfPair[]): DxfEntity[] => {
+  const entities: DxfEntity[] = [];
+  pairs.forEach((pair) => {
+    if (pair.code === 0) {
+      entities.push({ type: pair.value, pairs: [] });
+    } else if (entities.length > 0) {
+      entities[entities.length - 1].pairs.push(pair);
+    }
+  });
+  return entities;
+};
+
+const readSections = (pairs: DxfPair[]) => {
+  const sections: Record<string, DxfPair[]> = {};
+  let current: DxfPair[] | null = null;
+  for (let idx = 0; idx < pairs.length; idx += 1) {
+    const pair = pairs[idx];
+    if (pair.code === 0 && pair.value === "SECTION") {
+      const name = pairs[idx + 1]?.code === 2 ? pairs[idx + 1].value : "";
+      current = [];
+      sections[name] = current;
+      idx += 1;
+    } else if (pair.code === 0 && pair.value === "ENDSEC") {
+      current = null;
+    } else if (current) {
+      current.push(pair);
+    }
+  }
+  return sections;
+};
+
+const readUnitScaleMm = (headerPairs: DxfPair[] | undefined): number => {
+  if (!headerPairs) return 1;
+  const idx = headerPairs.findIndex((pair) => pair.code === 9 && pair.value === "$INSUNITS");
+  const units = idx >= 0 ? parseInt(headerPairs[idx + 1]?.value ?? "", 10) : NaN;
+  return INSUNITS_TO_MM[units] ?? 1;
+};
+
+const readBlocks = (blockPairs: DxfPair[] | undefined): Record<string, DxfBlock> => {
+  const blocks: Record<string, DxfBlock> = {};
+  let current: DxfBlock | null = null;
+  toEntities(blockPairs ?? []).forEach((entity) => {
+    if (entity.type === "BLOCK") {
+      current = { baseX: numberAt(entity, 10), baseY: numberAt(entity, 20), entities: [] };
+      blocks[stringAt(entity, 2)] = current;
+    } else if (entity.type === "ENDBLK") {
+      current = null;
+    } else if (current) {
+      current.entities.push(entity);
+    }
+  });
+  return blocks;
+};
+
+/** LWPOLYLINE stores its vertices as repeated 10/20 pairs. */
+const readLwPolylinePoints = (entity: DxfEntity): Point[] => {
+  const points: Point[] = [];
+  entity.pairs.forEach((pair) => {
+    if (pair.code === 10) points.push({ x: parseFloat(pair.value), y: 0 });
+    if (pair.code === 20 && points.length > 0) points[points.length - 1].y = parseFloat(pair.value);
+  });
+  return points.filter((point) => Number.isFinite(point.x) && Number.isFinite(point.y));
+};
+
+const arcPoints = (cx: number, cy: number, radius: number, startDeg: number, endDeg: number): Point[] => {
+  const sweep = endDeg > startDeg ? endDeg - startDeg : endDeg + 360 - startDeg;
+  const steps = Math.max(2, Math.ceil(sweep / ARC_STEP_DEG));
+  return Array.from({ length: steps + 1 }, (_, idx) => {
+    const rad = ((startDeg + (sweep * idx) / steps) * Math.PI) / 180;
+    return { x: cx + radius * Math.cos(rad), y: cy + radius * Math.sin(rad) };
+  });
+};
+
+/**
+ * Flattens the entities we can trace (lines, polylines, arcs, circles, splines as their control
+ * polygon) into segments, expanding block references. Text, hatches and dimensions are skipped.
+ */
+export const parseDxf = (text: string): ParsedVectorDrawing => {
+  const pairs = readPairs(text);
+  const sections = readSections(pairs);
+  if (!sections.ENTITIES) {
+    throw new Error("The DXF file has no ENTITIES section.");
+  }
+  const blocks = readBlocks(sections.BLOCKS);
+  const segments: UnderlaySegment[] = [];
+
+  const pushPolyline = (points: Point[], closed: boolean, toWorld: Transform) => {
+    const world = points.map(toWorld);
+    for (let idx = 1; idx < world.length; idx += 1) {
+      // DXF y grows upwards; the plan's grows downwards.
+      segments.push([world[idx - 1].x, -world[idx - 1].y, world[idx].x, -world[idx].y]);
+    }
+    if (closed && world.length > 2) {
+      const first = world[0];
+      const last = world[world.length - 1];
+      segments.push([last.x, -last.y, first.x, -first.y]);
+    }
+  };
+
+  const walk = (entities: DxfEntity[], toWorld: Transform, depth: number) => {
+    let polyline: { points: Point[]; closed: boolean } | null = null;
+
+    entities.forEach((entity) => {
+      switch (entity.type) {
+        case "LINE":
+          pushPolyline(
+            [
+              { x: numberAt(entity, 10), y: numberAt(entity, 20) },
+              { x: numberAt(entity, 11), y: numberAt(entity, 21) },
+            ],
+            false,
+            toWorld,
+          );
+          break;
+        case "LWPOLYLINE":
+          pushPolyline(readLwPolylinePoints(entity), (numberAt(entity, 70) & 1) === 1, toWorld);
+          break;
+        case "POLYLINE":
+          polyline = { points: [], closed: (numberAt(entity, 70) & 1) === 1 };
+          break;
+        case "VERTEX":
+          polyline?.points.push({ x: numberAt(entity, 10), y: numberAt(entity, 20) });
+          break;
+        case "SEQEND":
+          if (polyline) pushPolyline(polyline.points, polyline.closed, toWorld);
+          polyline = null;
+          break;
+        case "ARC":
+          pushPolyline(
+            arcPoints(numberAt(entity, 10), numberAt(entity, 20), numberAt(entity, 40), numberAt(entity, 50), numberAt(entity, 51)),
+            false,
+            toWorld,
+          );
+          break;
+        case "CIRCLE":
+          pushPolyline(arcPoints(numberAt(entity, 10), numberAt(entity, 20), numberAt(entity, 40), 0, 360), false, toWorld);
+          break;
+        case "SPLINE":
+          pushPolyline(readLwPolylinePoints(entity), (numberAt(entity, 70) & 1) === 1, toWorld);
+          break;
+        case "INSERT": {
+          const block = blocks[stringAt(entity, 2)];
+          if (!block || depth >= MAX_INSERT_DEPTH) break;
+          const insertX = numberAt(entity, 10);
+          const insertY = numberAt(entity, 20);
+          const scaleX = numberAt(entity, 41, 1);
+          const scaleY = numberAt(entity, 42, 1);
+          const rad = (numberAt(entity, 50) * Math.PI) / 180;
+          const cos = Math.cos(rad);
+          const sin = Math.sin(rad);
+          const toParent: Transform = (point) => {
+            const localX = (point.x - block.baseX) * scaleX;
+            const localY = (point.y - block.baseY) * scaleY;
+            return toWorld({ x: insertX + localX * cos - localY * sin, y: insertY + localX * sin + localY * cos });
+          };
+          walk(block.entities, toParent, depth + 1);
+          break;
+        }
+        default:
+          break;
+      }
+    });
+  };
+
+  walk(toEntities(sections.ENTITIES), (point) => point, 0);
+
+  return {
+    segments: segments.filter((segment) => segment.every(Number.isFinite)),
+    unitScaleMm: readUnitScaleMm(sections.HEADER),
+  };
+};
@@ -0,0 +1,11 @@
+import { PROJECT_FILE_EXTENSION, parseProjectFile, type ProjectFileImport } from "../model/storage";
+
+/** Plain `.json` is accepted too, since some browsers and mail clients rename the double extension. */
+export const PROJECT_FILE_ACCEPT = [PROJECT_FILE_EXTENSION, ".json"].join(",");
+
+export const importProjectFile = async (file: File): Promise<ProjectFileImport> => {
+  if (!file.name.toLowerCase().endsWith(".json")) {
+    throw new Error(`Choose an Occupational Builder project (${PROJECT_FILE_EXTENSION}) file.`);
+  }
+  return parseProjectFile(await file.text());
+};
@@ -0,0 +1,338 @@
+import { UnderlaySegment } from "../model/types";
+import { ParsedVectorDrawing } from "../model/underlay";
+
+type Point = { x: number; y: number };
+
+/** 2D affine matrix [a, b, c, d, e, f] as used by SVG `matrix()`. */
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+const CURVE_STEPS = 8;
+const ARC_STEP_RAD = Math.PI / 18;
+
+/** Millimetres per CSS unit; unitless lengths are CSS pixels at 96 dpi. */
+const LENGTH_UNITS_MM: Record<string, number> = {
+  "": 25.4 / 96,
+  px: 25.4 / 96,
+  mm: 1,
+  cm: 10,
+  in: 25.4,
+  pt: 25.4 / 72,
+  pc: 25.4 / 6,
+};
+
+const SKIPPED_ELEMENTS = new Set(["defs", "symbol", "clipPath", "mask", "pattern", "marker", "title", "desc", "metadata", "text", "style"]);
+
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[2] * n[1],
+  m[1] * n[0] + m[3] * n[1],
+  m[0] * n[2] + m[2] * n[3],
+  m[1] * n[2] + m[3] * n[3],
+  m[0] * n[4] + m[2] * n[5] + m[4],
+  m[1] * n[4] + m[3] * n[5] + m[5],
+];
+
+const apply = (m: Matrix, point: Point): Point => ({
+  x: m[0] * point.x + m[2] * point.y + m[4],
+  y: m[1] * point.x + m[3] * point.y + m[5],
+});
+
+const parseNumbers = (text: string): number[] =>
+  (text.match(/-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi) ?? []).map(Number);
+
+const parseTransform = (text: string | null): Matrix => {
+  if (!text) return IDENTITY;
+  let result = IDENTITY;
+  const pattern = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+  let match = pattern.exec(text);
+  while (match) {
+    const [name, args] = [match[1], parseNumbers(match[2])];
+    let next: Matrix = IDENTITY;
+    if (name === "matrix" && args.length === 6) next = args as Matrix;
+    if (name === "translate") next = [1, 0, 0, 1, args[0] ?? 0, args[1] ?? 0];
+    if (name === "scale") next = [args[0] ?? 1, 0, 0, args[1] ?? args[0] ?? 1, 0, 0];
+    if (name === "rotate") {
+      const rad = ((args[0] ?? 0) * Math.PI) / 180;
+      const cos = Math.cos(rad);
+      const sin = Math.sin(rad);
+      const [cx, cy] = [args[1] ?? 0, args[2] ?? 0];
+      next = multiply(multiply([1, 0, 0, 1, cx, cy], [cos, sin, -sin, cos, 0, 0]), [1, 0, 0, 1, -cx, -cy]);
+    }
+    if (name === "skewX") next = [1, 0, Math.tan(((args[0] ?? 0) * Math.PI) / 180), 1, 0, 0];
+    if (name === "skewY") next = [1, Math.tan(((args[0] ?? 0) * Math.PI) / 180), 0, 1, 0, 0];
+    result = multiply(result, next);
+    match = pattern.exec(text);
+  }
+  return result;
+};
+
+const numberAttr = (element: Element, name: string): number => {
+  const value = parseFloat(element.getAttribute(name) ?? "");
+  return Number.isFinite(value) ? value : 0;
+};
+
+const ellipsePoints = (cx: number, cy: number, rx: number, ry: number): Point[] => {
+  const steps = Math.ceil((Math.PI * 2) / ARC_STEP_RAD);
+  return Array.from({ length: steps + 1 }, (_, idx) => {
+    const angle = (Math.PI * 2 * idx) / steps;
+    return { x: cx + rx * Math.cos(angle), y: cy + ry * Math.sin(angle) };
+  });
+};
+
+const cubicPoints = (p0: Point, p1: Point, p2: Point, p3: Point): Point[] =>
+  Array.from({ length: CURVE_STEPS }, (_, idx) => {
+    const t = (idx + 1) / CURVE_STEPS;
+    const mt = 1 - t;
+    return {
+      x: mt * mt * mt * p0.x + 3 * mt * mt * t * p1.x + 3 * mt * t * t * p2.x + t * t * t * p3.x,
+      y: mt * mt * mt * p0.y + 3 * mt * mt * t * p1.y + 3 * mt * t * t * p2.y + t * t * t * p3.y,
+    };
+  });
+
+const quadraticPoints = (p0: Point, p1: Point, p2: Point): Point[] =>
+  Array.from({ length: CURVE_STEPS }, (_, idx) => {
+    const t = (idx + 1) / CURVE_STEPS;
+    const mt = 1 - t;
+    return { x: mt * mt * p0.x + 2 * mt * t * p1.x + t * t * p2.x, y: mt * mt * p0.y + 2 * mt * t * p1.y + t * t * p2.y };
+  });
+
+/** Endpoint-to-centre arc conversion from the SVG spec (appendix F.6.5), flattened to points. */
+const arcPoints = (from: Point, rxIn: number, ryIn: number, xRotDeg: number, largeArc: boolean, sweep: boolean, to: Point): Point[] => {
+  let rx = Math.abs(rxIn);
+  let ry = Math.abs(ryIn);
+  if (rx === 0 || ry === 0) return [to];
+  const phi = (xRotDeg * Math.PI) / 180;
+  const cosPhi = Math.cos(phi);
+  const sinPhi = Math.sin(phi);
+  const dx = (from.x - to.x) / 2;
+  const dy = (from.y - to.y) / 2;
+  const x1p = cosPhi * dx + sinPhi * dy;
+  const y1p = -sinPhi * dx + cosPhi * dy;
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+  const numerator = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+  const denominator = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+  const coefficient = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+  const cxp = (coefficient * rx * y1p) / ry;
+  const cyp = (-coefficient * ry * x1p) / rx;
+  const cx = cosPhi * cxp - sinPhi * cyp + (from.x + to.x) / 2;
+  const cy = sinPhi * cxp + cosPhi * cyp + (from.y + to.y) / 2;
+  const angle = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const startAngle = angle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+  let delta = angle((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry);
+  if (!sweep && delta > 0) delta -= Math.PI * 2;
+  if (sweep && delta < 0) delta += Math.PI * 2;
+  const steps = Math.max(1, Math.ceil(Math.abs(delta) / ARC_STEP_RAD));
+  return Array.from({ length: steps }, (_, idx) => {
+    const theta = startAngle + (delta * (idx + 1)) / steps;
+    const x = rx * Math.cos(theta);
+    const y = ry * Math.sin(theta);
+    return { x: cosPhi * x - sinPhi * y + cx, y: sinPhi * x + cosPhi * y + cy };
+  });
+};
+
+/** Breaks path data into subpaths of points; curves and arcs are flattened. */
+const parsePathData = (data: string): Array<{ points: Point[]; closed: boolean }> => {
+  const tokens = data.match(/[MmLlHhVvCcSsQqTtAaZz]|-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi) ?? [];
+  const subpaths: Array<{ points: Point[]; closed: boolean }> = [];
+  let current: { points: Point[]; closed: boolean } | null = null;
+  let cursor: Point = { x: 0, y: 0 };
+  let start: Point = { x: 0, y: 0 };
+  let lastControl: Point | null = null;
+  let command = "";
+  let idx = 0;
+
+  const next = () => parseFloat(tokens[idx++]);
+  // Arc flags are a single digit and may run into what follows ("0110" is 0, 1, then 10), so they
+  // are read one character at a time.
+  const nextFlag = () => {
+    const token = tokens[idx] ?? "";
+    if (token.length > 1) {
+      tokens[idx] = token.slice(1);
+    } else {
+      idx += 1;
+    }
+    return token.charAt(0) === "1";
+  };
+  const hasNumber = () => idx < tokens.length && !/^[a-z]$/i.test(tokens[idx]);
+  const lineTo = (point: Point) => {
+    if (!current) {
+      current = { points: [cursor], closed: false };
+      subpaths.push(current);
+    }
+    current.points.push(point);
+    cursor = point;
+  };
+
+  while (idx < tokens.length) {
+    if (/^[a-z]$/i.test(tokens[idx])) {
+      command = tokens[idx++];
+    } else if (!command) {
+      break;
+    }
+    const relative = command === command.toLowerCase();
+    const base = relative ? cursor : { x: 0, y: 0 };
+    const upper = command.toUpperCase();
+
+    if (upper === "Z") {
+      if (current) {
+        current.closed = true;
+        cursor = start;
+      }
+      current = null;
+      lastControl = null;
+      // Numbers straight after a closepath are malformed; stop rather than loop on them.
+      command = "";
+      continue;
+    }
+    if (!hasNumber()) continue;
+
+    if (upper === "M") {
+      cursor = { x: base.x + next(), y: base.y + next() };
+      start = cursor;
+      current = { points: [cursor], closed: false };
+      subpaths.push(current);
+      // Further coordinate pairs after a moveto are implicit linetos.
+      command = relative ? "l" : "L";
+      lastControl = null;
+    } else if (upper === "L") {
+      lineTo({ x: base.x + next(), y: base.y + next() });
+      lastControl = null;
+    } else if (upper === "H") {
+      lineTo({ x: base.x + next(), y: cursor.y });
+      lastControl = null;
+    } else if (upper === "V") {
+      lineTo({ x: cursor.x, y: base.y + next() });
+      lastControl = null;
+    } else if (upper === "C" || upper === "S") {
+      const from = cursor;
+      const c1: Point =
+        upper === "C"
+          ? { x: base.x + next(), y: base.y + next() }
+          : lastControl
+            ? { x: from.x * 2 - lastControl.x, y: from.y * 2 - lastControl.y }
+            : from;
+      const c2 = { x: base.x + next(), y: base.y + next() };
+      const end = { x: base.x + next(), y: base.y + next() };
+      cubicPoints(from, c1, c2, end).forEach(lineTo);
+      lastControl = c2;
+    } else if (upper === "Q" || upper === "T") {
+      const from = cursor;
+      const control: Point =
+        upper === "Q"
+          ? { x: base.x + next(), y: base.y + next() }
+          : lastControl
+            ? { x: from.x * 2 - lastControl.x, y: from.y * 2 - lastControl.y }
+            : from;
+      const end = { x: base.x + next(), y: base.y + next() };
+      quadraticPoints(from, control, end).forEach(lineTo);
+      lastControl = control;
+    } else if (upper === "A") {
+      const [rx, ry, rotation] = [next(), next(), next()];
+      const [largeArc, sweep] = [nextFlag(), nextFlag()];
+      const end = { x: base.x + next(), y: base.y + next() };
+      arcPoints(cursor, rx, ry, rotation, largeArc, sweep, end).forEach(lineTo);
+      lastControl = null;
+    } else {
+      idx += 1;
+    }
+  }
+
+  return subpaths;
+};
+
+const readUnitScaleMm = (root: Element): number => {
+  const viewBox = parseNumbers(root.getAttribute("viewBox") ?? "");
+  const widthMatch = (root.getAttribute("width") ?? "").trim().match(/^(-?[\d.]+(?:e[-+]?\d+)?)\s*([a-z]*)$/i);
+  const unitMm = widthMatch ? LENGTH_UNITS_MM[widthMatch[2].toLowerCase()] : undefined;
+  if (!widthMatch || unitMm === undefined) return LENGTH_UNITS_MM.px;
+  if (viewBox.length !== 4 || viewBox[2] <= 0) return unitMm;
+  return (parseFloat(widthMatch[1]) * unitMm) / viewBox[2];
+};
+
+export const parseSvg = (text: string): ParsedVectorDrawing => {
+  const doc = new DOMParser().parseFromString(text, "image/svg+xml");
+  const root = doc.documentElement;
+  if (!root || root.nodeName !== "svg" || doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("This does not look like a valid SVG file.");
+  }
+  const segments: UnderlaySegment[] = [];
+
+  const pushPolyline = (points: Point[], closed: boolean, matrix: Matrix) => {
+    const world = points.map((point) => apply(matrix, point));
+    for (let idx = 1; idx < world.length; idx += 1) {
+      segments.push([world[idx - 1].x, world[idx - 1].y, world[idx].x, world[idx].y]);
+    }
+    if (closed && world.length > 2) {
+      segments.push([world[world.length - 1].x, world[world.length - 1].y, world[0].x, world[0].y]);
+    }
+  };
+
+  const walk = (element: Element, parentMatrix: Matrix) => {
+    if (SKIPPED_ELEMENTS.has(element.nodeName)) return;
+    const matrix = multiply(parentMatrix, parseTransform(element.getAttribute("transform")));
+
+    switch (element.nodeName) {
+      case "line":
+        pushPolyline(
+          [
+            { x: numberAttr(element, "x1"), y: numberAttr(element, "y1") },
+            { x: numberAttr(element, "x2"), y: numberAttr(element, "y2") },
+          ],
+          false,
+          matrix,
+        );
+        break;
+      case "polyline":
+      case "polygon": {
+        const values = parseNumbers(element.getAttribute("points") ?? "");
+        const points = Array.from({ length: Math.floor(values.length / 2) }, (_, idx) => ({ x: values[idx * 2], y: values[idx * 2 + 1] }));
+        pushPolyline(points, element.nodeName === "polygon", matrix);
+        break;
+      }
+      case "rect": {
+        const [x, y, w, h] = ["x", "y", "width", "height"].map((name) => numberAttr(element, name));
+        pushPolyline(
+          [
+            { x, y },
+            { x: x + w, y },
+            { x: x + w, y: y + h },
+            { x, y: y + h },
+          ],
+          true,
+          matrix,
+        );
+        break;
+      }
+      case "circle": {
+        const r = numberAttr(element, "r");
+        pushPolyline(ellipsePoints(numberAttr(element, "cx"), numberAttr(element, "cy"), r, r), false, matrix);
+        break;
+      }
+      case "ellipse":
+        pushPolyline(
+          ellipsePoints(numberAttr(element, "cx"), numberAttr(element, "cy"), numberAttr(element, "rx"), numberAttr(element, "ry")),
+          false,
+          matrix,
+        );
+        break;
+      case "path":
+        parsePathData(element.getAttribute("d") ?? "").forEach((subpath) => pushPolyline(subpath.points, subpath.closed, matrix));
+        break;
+      default:
+        break;
+    }
+
+    Array.from(element.children).forEach((child) => walk(child, matrix));
+  };
+
+  walk(root, IDENTITY);
+
+  return {
+    segments: segments.filter((segment) => segment.every(Number.isFinite)),
+    unitScaleMm: readUnitScaleMm(root),
+  };
+};
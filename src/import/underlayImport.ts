@@ -0,0 +1,84 @@
+import { Underlay } from "../model/types";
+import { MAX_UNDERLAY_SEGMENTS, createImageUnderlay, createVectorUnderlay } from "../model/underlay";
+import { parseDxf } from "./dxfImport";
+import { parseSvg } from "./svgImport";
+
+export type UnderlayImportResult = {
+  underlay: Underlay;
+  /** Line segments dropped to stay under MAX_UNDERLAY_SEGMENTS. */
+  truncatedSegments: number;
+};
+
+const IMAGE_EXTENSIONS = ["png", "jpg", "jpeg", "gif", "webp"];
+
+export const UNDERLAY_FILE_ACCEPT = [".dxf", ".svg", ...IMAGE_EXTENSIONS.map((extension) => `.${extension}`)].join(",");
+
+/**
+ * Images are stored in the project, so large photos are downsampled and re-encoded to keep
+ * autosave inside the browser's storage quota.
+ */
+const MAX_IMAGE_DIMENSION_PX = 2400;
+const IMAGE_QUALITY = 0.85;
+
+const getExtension = (fileName: string) => fileName.split(".").pop()?.toLowerCase() ?? "";
+
+const readAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(new Error(`Could not read ${file.name}.`));
+    reader.readAsDataURL(file);
+  });
+
+const loadImage = (src: string, fileName: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`${fileName} is not an image this browser can open.`));
+    image.src = src;
+  });
+
+const importImage = async (file: File): Promise<Underlay> => {
+  const original = await readAsDataUrl(file);
+  const image = await loadImage(original, file.name);
+  const ratio = Math.min(1, MAX_IMAGE_DIMENSION_PX / Math.max(image.naturalWidth, image.naturalHeight));
+  if (ratio === 1 && file.size < 1024 * 1024) {
+    return createImageUnderlay(file.name, original, image.naturalWidth, image.naturalHeight);
+  }
+
+  const widthPx = Math.round(image.naturalWidth * ratio);
+  const heightPx = Math.round(image.naturalHeight * ratio);
+  const canvas = document.createElement("canvas");
+  canvas.width = widthPx;
+  canvas.height = heightPx;
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Could not prepare the image for the underlay.");
+  }
+  // JPEG has no alpha; flatten transparent scans onto white like paper.
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, widthPx, heightPx);
+  context.drawImage(image, 0, 0, widthPx, heightPx);
+  return createImageUnderlay(file.name, canvas.toDataURL("image/jpeg", IMAGE_QUALITY), widthPx, heightPx);
+};
+
+export const importUnderlayFile = async (file: File): Promise<UnderlayImportResult> => {
+  const extension = getExtension(file.name);
+  if (IMAGE_EXTENSIONS.includes(extension)) {
+    return { underlay: await importImage(file), truncatedSegments: 0 };
+  }
+  if (extension !== "dxf" && extension !== "svg") {
+    throw new Error("Choose a DXF, SVG or image (PNG, JPG, GIF, WebP) file.");
+  }
+
+  const text = await file.text();
+  const parsed = extension === "dxf" ? parseDxf(text) : parseSvg(text);
+  if (parsed.segments.length === 0) {
+    throw new Error(`No traceable line work found in ${file.name}.`);
+  }
+
+  return {
+    underlay: createVectorUnderlay(file.name, extension, parsed),
+    truncatedSegments: Math.max(0, parsed.segments.length - MAX_UNDERLAY_SEGMENTS),
+  };
+};
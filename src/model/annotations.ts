@@ -0,0 +1,38 @@
+import { getObjectDisplayName } from "./outliner";
+import { Object2D } from "./types";
+
+/** What the exports print for one object: its callout heading and any notes. */
+export type ObjectAnnotation = {
+  objectId: string;
+  title: string;
+  notes: string;
+};
+
+/** Trims tags, drops empty ones and a leading "#", and keeps the first of any duplicates (ignoring case). */
+export const normaliseTags = (tags: string[]): string[] =>
+  tags
+    .map((tag) => tag.trim().replace(/^#+/, "").trim())
+    .filter((tag, idx, all) => tag !== "" && all.findIndex((other) => other.toLowerCase() === tag.toLowerCase()) === idx);
+
+/** Tags typed as a comma-separated list. */
+export const parseTagList = (text: string): string[] => normaliseTags(text.split(","));
+
+export const formatTagList = (tags: string[]): string => tags.join(", ");
+
+export const hasAnnotation = (obj: Object2D): boolean =>
+  obj.name.trim() !== "" || obj.notes.trim() !== "" || obj.tags.length > 0;
+
+/** The callout's heading: the object's name followed by its tags, e.g. "Ramp R1 - front entry #existing". */
+export const getAnnotationTitle = (obj: Object2D, objects: Object2D[]): string =>
+  [getObjectDisplayName(obj, objects), ...obj.tags.map((tag) => `#${tag}`)].join(" ");
+
+/**
+ * Annotations for the objects in `objects` that have any, with default names numbered across
+ * `allObjects` (hidden ones included) so they match the outliner.
+ */
+export const getObjectAnnotations = (objects: Object2D[], allObjects: Object2D[]): ObjectAnnotation[] =>
+  objects.filter(hasAnnotation).map((obj) => ({
+    objectId: obj.id,
+    title: getAnnotationTitle(obj, allObjects),
+    notes: obj.notes.trim().replace(/\s+/g, " "),
+  }));
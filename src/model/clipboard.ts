@@ -0,0 +1,73 @@
+import { makeId } from "./defaults";
+import type { PointMm } from "./geometry";
+import { getGroupRectMm } from "./selection";
+import { normaliseGroups, normaliseObject } from "./storage";
+import { Object2D, ObjectGroup } from "./types";
+import { snapMm } from "./units";
+
+const CLIPBOARD_FORMAT = "occupational-builder/objects";
+const CLIPBOARD_VERSION = 1;
+
+/** How far a duplicate, or a paste with no cursor over the canvas, lands from its source. */
+export const PASTE_OFFSET_MM = 500;
+
+/** Objects on the clipboard, plus any groups copied whole. */
+export type ClipboardContent = {
+  objects: Object2D[];
+  groups: ObjectGroup[];
+};
+
+type ClipboardPayload = ClipboardContent & {
+  format: typeof CLIPBOARD_FORMAT;
+  version: number;
+};
+
+/** Copied objects as JSON text, so they can be pasted into another tab or project. */
+export const serialiseClipboard = (content: ClipboardContent): string => {
+  const payload: ClipboardPayload = { format: CLIPBOARD_FORMAT, version: CLIPBOARD_VERSION, ...content };
+  return JSON.stringify(payload);
+};
+
+/**
+ * Reads objects back from clipboard text. Anything that is not our payload (ordinary copied text)
+ * gives null; individual objects that fail validation are dropped.
+ */
+export const parseClipboard = (text: string): ClipboardContent | null => {
+  try {
+    const parsed = JSON.parse(text);
+    if (!parsed || parsed.format !== CLIPBOARD_FORMAT || !Array.isArray(parsed.objects)) return null;
+    if (typeof parsed.version !== "number" || parsed.version > CLIPBOARD_VERSION) return null;
+    const objects = parsed.objects.map(normaliseObject).filter((obj: Object2D | null): obj is Object2D => Boolean(obj));
+    if (objects.length === 0) return null;
+    return { objects, groups: normaliseGroups(parsed.groups, objects) };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Offset that centres the copied objects on `cursorMm`, with their bounding box's top-left on the
+ * grid; without a cursor they land a fixed step down and to the right of the originals.
+ */
+export const getPasteOffsetMm = (objects: Object2D[], cursorMm: PointMm | null, snapStepMm: number): PointMm => {
+  const rect = getGroupRectMm(objects);
+  if (!rect || !cursorMm) return { xMm: PASTE_OFFSET_MM, yMm: PASTE_OFFSET_MM };
+  const left = cursorMm.xMm - (rect.right - rect.left) / 2;
+  const top = cursorMm.yMm - (rect.bottom - rect.top) / 2;
+  return { xMm: snapMm(left, snapStepMm) - rect.left, yMm: snapMm(top, snapStepMm) - rect.top };
+};
+
+/** Copies of the content with fresh object and group ids, moved by `offset`. */
+export const cloneForPaste = (content: ClipboardContent, offset: PointMm): ClipboardContent => {
+  const newIds = new Map(content.objects.map((obj) => [obj.id, makeId()]));
+  const objects = content.objects
+    .map((obj) => normaliseObject(obj))
+    .filter((obj): obj is Object2D => Boolean(obj))
+    .map((obj) => ({ ...obj, id: newIds.get(obj.id)!, xMm: obj.xMm + offset.xMm, yMm: obj.yMm + offset.yMm }));
+  const groups = content.groups.map((group) => ({
+    ...group,
+    id: makeId(),
+    memberIds: group.memberIds.map((id) => newIds.get(id)).filter((id): id is string => Boolean(id)),
+  }));
+  return { objects, groups };
+};
@@ -0,0 +1,158 @@
+import { ConnectionGraph, ObjectConnection, buildConnectionGraph, getConnectionStepMm } from "./connections";
+import { computeRampSlope } from "./rampSlope";
+import { ComplianceRules, ComplianceSettings, GradientBand, Object2D, RuleSetId } from "./types";
+
+export type ComplianceRuleId = "rampGradient" | "rampRise" | "landingLength" | "clearWidth" | "elevationContinuity";
+
+export type ComplianceWarning = {
+  ruleId: ComplianceRuleId;
+  objectId: string;
+  message: string;
+  /** For a continuity warning, which ramp end it is about and what that end meets; a ramp can have several. */
+  connection?: Pick<ObjectConnection, "rampEnd" | "targetId">;
+};
+
+export type ComplianceRuleSet = ComplianceRules & {
+  id: RuleSetId;
+  name: string;
+  description: string;
+};
+
+export type GradientStatus = "none" | "pass" | "fail";
+
+export const RULE_SETS: Record<RuleSetId, ComplianceRuleSet> = {
+  as1428: {
+    id: "as1428",
+    name: "AS 1428.1",
+    description: "Public and commercial work.",
+    gradientBands: [
+      { maxRunMm: 9000, minGradientRatio: 14 },
+      { maxRunMm: 15000, minGradientRatio: 20 },
+      { maxRunMm: 25000, minGradientRatio: 33 },
+    ],
+    maxRiseBetweenLandingsMm: 750,
+    minLandingLengthMm: 1200,
+    minClearWidthMm: 1000,
+  },
+  residential: {
+    id: "residential",
+    name: "Residential (relaxed)",
+    description: "Home modifications where the relaxed guidance applies.",
+    gradientBands: [
+      { maxRunMm: 1900, minGradientRatio: 10 },
+      { maxRunMm: 9000, minGradientRatio: 12 },
+      { maxRunMm: 15000, minGradientRatio: 14 },
+    ],
+    maxRiseBetweenLandingsMm: 760,
+    minLandingLengthMm: 1200,
+    minClearWidthMm: 900,
+  },
+};
+
+export const RULE_SET_IDS = Object.keys(RULE_SETS) as RuleSetId[];
+
+export const DEFAULT_COMPLIANCE_SETTINGS: ComplianceSettings = {
+  ruleSetId: "as1428",
+  overrides: {},
+};
+
+export const resolveComplianceRules = (settings: ComplianceSettings): ComplianceRules => {
+  const { id: _id, name: _name, description: _description, ...base } = RULE_SETS[settings.ruleSetId];
+  return { ...base, ...settings.overrides };
+};
+
+// Bands are matched shortest run first; runs beyond the last band are held to its gradient
+// and left to the rise-between-landings rule.
+export const getRequiredGradientRatio = (rules: ComplianceRules, runMm: number): number | null => {
+  const bands = [...rules.gradientBands].sort((a, b) => a.maxRunMm - b.maxRunMm);
+  if (bands.length === 0) return null;
+  const band: GradientBand = bands.find((candidate) => runMm <= candidate.maxRunMm) ?? bands[bands.length - 1];
+  return band.minGradientRatio;
+};
+
+export const getGradientStatus = (rules: ComplianceRules, runMm: number, heightMm: number): GradientStatus => {
+  if (runMm <= 0 || heightMm <= 0) return "none";
+  const required = getRequiredGradientRatio(rules, runMm);
+  if (required === null) return "none";
+  return runMm / heightMm < required ? "fail" : "pass";
+};
+
+const rampWarnings = (obj: Object2D, rules: ComplianceRules): ComplianceWarning[] => {
+  if (obj.kind !== "ramp") return [];
+  const warnings: ComplianceWarning[] = [];
+  const slope = computeRampSlope(obj.runMm, obj.heightMm);
+  const required = getRequiredGradientRatio(rules, obj.runMm);
+
+  if (required !== null && getGradientStatus(rules, obj.runMm, obj.heightMm) === "fail") {
+    warnings.push({
+      ruleId: "rampGradient",
+      objectId: obj.id,
+      message: `Ramp gradient ${slope.ratioText} is steeper than 1 : ${required} for a ${obj.runMm}mm run.`,
+    });
+  }
+
+  if (obj.heightMm > rules.maxRiseBetweenLandingsMm) {
+    warnings.push({
+      ruleId: "rampRise",
+      objectId: obj.id,
+      message: `Ramp rise ${obj.heightMm}mm exceeds ${rules.maxRiseBetweenLandingsMm}mm for a single run without a landing.`,
+    });
+  }
+
+  return warnings;
+};
+
+const landingWarnings = (obj: Object2D, rules: ComplianceRules): ComplianceWarning[] => {
+  if (obj.kind !== "landing" || obj.lengthMm >= rules.minLandingLengthMm) return [];
+  return [
+    {
+      ruleId: "landingLength",
+      objectId: obj.id,
+      message: `Landing length ${obj.lengthMm}mm is shorter than ${rules.minLandingLengthMm}mm.`,
+    },
+  ];
+};
+
+const widthWarnings = (obj: Object2D, rules: ComplianceRules): ComplianceWarning[] => {
+  if ((obj.kind !== "ramp" && obj.kind !== "landing") || obj.widthMm >= rules.minClearWidthMm) return [];
+  const label = obj.kind === "ramp" ? "Ramp" : "Landing";
+  return [
+    {
+      ruleId: "clearWidth",
+      objectId: obj.id,
+      message: `${label} width ${obj.widthMm}mm is under the ${rules.minClearWidthMm}mm minimum clear width.`,
+    },
+  ];
+};
+
+// Reported against the ramp: its elevation and height are what usually need adjusting.
+const continuityWarnings = (objects: Object2D[], graph: ConnectionGraph): ComplianceWarning[] =>
+  graph.connections.flatMap((connection) => {
+    const step = getConnectionStepMm(connection);
+    if (step === 0) return [];
+    const target = objects.find((obj) => obj.id === connection.targetId);
+    const targetLabel = target?.kind === "ramp" ? "ramp" : "landing";
+    return [
+      {
+        ruleId: "elevationContinuity" as const,
+        objectId: connection.rampId,
+        connection: { rampEnd: connection.rampEnd, targetId: connection.targetId },
+        message: `Ramp ${connection.rampEnd} end is at ${Math.round(connection.rampLevelMm)}mm but the ${targetLabel} it meets is at ${Math.round(connection.targetLevelMm)}mm (${Math.round(Math.abs(step))}mm ${step > 0 ? "step up" : "drop"}).`,
+      },
+    ];
+  });
+
+export const evaluateCompliance = (
+  objects: Object2D[],
+  rules: ComplianceRules = resolveComplianceRules(DEFAULT_COMPLIANCE_SETTINGS),
+  graph: ConnectionGraph = buildConnectionGraph(objects),
+): ComplianceWarning[] => [
+  ...objects.flatMap((obj) => [...rampWarnings(obj, rules), ...landingWarnings(obj, rules), ...widthWarnings(obj, rules)]),
+  ...continuityWarnings(objects, graph),
+];
+
+export const groupWarningsByObject = (warnings: ComplianceWarning[]): Record<string, ComplianceWarning[]> =>
+  warnings.reduce<Record<string, ComplianceWarning[]>>((acc, warning) => {
+    acc[warning.objectId] = [...(acc[warning.objectId] ?? []), warning];
+    return acc;
+  }, {});
@@ -0,0 +1,165 @@
+import { LineSegmentMm, PointMm, getRampBodyPointsMm, localToWorldMm, worldToLocalMm } from "./geometry";
+import { LandingObj, Object2D, RampObj } from "./types";
+
+export type RampEnd = "low" | "high";
+
+/** Which face of the target a ramp end meets: a ramp's low/high end or side, or a landing edge. */
+export type ConnectionFace = RampEnd | "side" | "edge";
+
+export type ObjectConnection = {
+  rampId: string;
+  rampEnd: RampEnd;
+  targetId: string;
+  targetFace: ConnectionFace;
+  /** Middle of the shared stretch of edge, in world millimetres. */
+  atMm: PointMm;
+  /** Walking surface level of the ramp end and of the target where they meet. */
+  rampLevelMm: number;
+  targetLevelMm: number;
+};
+
+export type ConnectionGraph = {
+  connections: ObjectConnection[];
+  /** Object id → ids of every object it is connected to, in either direction. */
+  neighbours: Record<string, string[]>;
+};
+
+/** Ends may sit this far off a target face (either side) and still count as touching it. */
+export const CONNECTION_TOLERANCE_MM = 5;
+/** Shorter shared stretches are treated as corners brushing past, not connections. */
+const MIN_CONTACT_MM = 50;
+/** Levels are whole millimetres; anything beyond rounding noise is a real step. */
+const LEVEL_TOLERANCE_MM = 0.5;
+
+type Face = LineSegmentMm & { face: ConnectionFace };
+
+type Connectable = RampObj | LandingObj;
+
+const isConnectable = (obj: Object2D): obj is Connectable => obj.kind === "ramp" || obj.kind === "landing";
+
+const getRampEndLocalMm = (obj: RampObj, end: RampEnd): LineSegmentMm => {
+  const [A, B, C, D] = getRampBodyPointsMm(obj);
+  return end === "low" ? { start: A, end: B } : { start: D, end: C };
+};
+
+const getFacesMm = (obj: Connectable): Face[] => {
+  const toWorld = (point: PointMm) => localToWorldMm(obj, point);
+  if (obj.kind === "ramp") {
+    const [A, B, C, D] = getRampBodyPointsMm(obj).map(toWorld);
+    return [
+      { start: A, end: B, face: "low" },
+      { start: B, end: C, face: "side" },
+      { start: C, end: D, face: "high" },
+      { start: D, end: A, face: "side" },
+    ];
+  }
+
+  const halfLength = obj.lengthMm / 2;
+  const halfWidth = obj.widthMm / 2;
+  const corners = [
+    { xMm: -halfLength, yMm: -halfWidth },
+    { xMm: halfLength, yMm: -halfWidth },
+    { xMm: halfLength, yMm: halfWidth },
+    { xMm: -halfLength, yMm: halfWidth },
+  ].map(toWorld);
+  return corners.map((start, idx) => ({ start, end: corners[(idx + 1) % corners.length], face: "edge" }));
+};
+
+export const getRampEndLevelMm = (obj: RampObj, end: RampEnd): number =>
+  end === "low" ? obj.elevationMm : obj.elevationMm + obj.heightMm;
+
+/** Walking surface level of a ramp or landing at a world point on (or near) it. */
+export const getSurfaceLevelMm = (obj: Connectable, pointMm: PointMm): number => {
+  if (obj.kind === "landing") return obj.elevationMm + obj.heightMm;
+  if (obj.runMm <= 0) return obj.elevationMm;
+  const local = worldToLocalMm(obj, pointMm);
+  const along = Math.min(1, Math.max(0, (local.xMm + obj.runMm / 2) / obj.runMm));
+  return obj.elevationMm + obj.heightMm * along;
+};
+
+/**
+ * Where a ramp end lies along a target face and the two objects sit on opposite sides of it,
+ * returns the middle of their shared stretch.
+ */
+const findContactMm = (endMm: LineSegmentMm, rampCentre: PointMm, face: Face, targetCentre: PointMm): PointMm | null => {
+  const dx = face.end.xMm - face.start.xMm;
+  const dy = face.end.yMm - face.start.yMm;
+  const length = Math.hypot(dx, dy);
+  if (length === 0) return null;
+  const ux = dx / length;
+  const uy = dy / length;
+  const offset = (point: PointMm) => (point.xMm - face.start.xMm) * -uy + (point.yMm - face.start.yMm) * ux;
+  const along = (point: PointMm) => (point.xMm - face.start.xMm) * ux + (point.yMm - face.start.yMm) * uy;
+
+  if (Math.abs(offset(endMm.start)) > CONNECTION_TOLERANCE_MM || Math.abs(offset(endMm.end)) > CONNECTION_TOLERANCE_MM) {
+    return null;
+  }
+  if (offset(rampCentre) * offset(targetCentre) >= 0) return null;
+
+  const from = Math.max(0, Math.min(along(endMm.start), along(endMm.end)));
+  const to = Math.min(length, Math.max(along(endMm.start), along(endMm.end)));
+  if (to - from < MIN_CONTACT_MM) return null;
+
+  const mid = (from + to) / 2;
+  return { xMm: face.start.xMm + ux * mid, yMm: face.start.yMm + uy * mid };
+};
+
+/**
+ * Finds every ramp end that abuts a landing edge or a face of another ramp. A ramp-to-ramp joint
+ * where both ends meet is recorded once, from whichever ramp comes first.
+ */
+export const buildConnectionGraph = (objects: Object2D[]): ConnectionGraph => {
+  const connectables = objects.filter(isConnectable);
+  const faces = new Map(connectables.map((obj) => [obj.id, getFacesMm(obj)]));
+  const connections: ObjectConnection[] = [];
+
+  const alreadyJoined = (rampId: string, targetId: string) =>
+    connections.some((connection) => connection.rampId === targetId && connection.targetId === rampId);
+
+  connectables.forEach((ramp) => {
+    if (ramp.kind !== "ramp") return;
+    const rampCentre = { xMm: ramp.xMm, yMm: ramp.yMm };
+
+    (["high", "low"] as RampEnd[]).forEach((rampEnd) => {
+      const localEnd = getRampEndLocalMm(ramp, rampEnd);
+      const endMm = { start: localToWorldMm(ramp, localEnd.start), end: localToWorldMm(ramp, localEnd.end) };
+
+      connectables.forEach((target) => {
+        if (target.id === ramp.id || alreadyJoined(ramp.id, target.id)) return;
+        const targetCentre = { xMm: target.xMm, yMm: target.yMm };
+        for (const face of faces.get(target.id) ?? []) {
+          const atMm = findContactMm(endMm, rampCentre, face, targetCentre);
+          if (!atMm) continue;
+          connections.push({
+            rampId: ramp.id,
+            rampEnd,
+            targetId: target.id,
+            targetFace: face.face,
+            atMm,
+            rampLevelMm: getRampEndLevelMm(ramp, rampEnd),
+            targetLevelMm: getSurfaceLevelMm(target, atMm),
+          });
+          break;
+        }
+      });
+    });
+  });
+
+  const neighbours: Record<string, string[]> = {};
+  const link = (from: string, to: string) => {
+    const list = (neighbours[from] ??= []);
+    if (!list.includes(to)) list.push(to);
+  };
+  connections.forEach((connection) => {
+    link(connection.rampId, connection.targetId);
+    link(connection.targetId, connection.rampId);
+  });
+
+  return { connections, neighbours };
+};
+
+/** Height of the step from the ramp end up to the target surface; 0 when they are level. */
+export const getConnectionStepMm = (connection: ObjectConnection): number => {
+  const step = connection.targetLevelMm - connection.rampLevelMm;
+  return Math.abs(step) <= LEVEL_TOLERANCE_MM ? 0 : step;
+};
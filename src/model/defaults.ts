@@ -1,7 +1,15 @@
-import { LandingObj, MeasurementKey, MeasurementState, RampObj } from "./types";
+import { EdgeFeatureSet, EdgeFeatures, LandingObj, MeasurementKey, MeasurementState, ProjectInfo, RampObj, StairsObj } from "./types";
 
 export const makeId = (): string => `obj-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
 
+export const DEFAULT_PROJECT_INFO: ProjectInfo = {
+  name: "Untitled project",
+  client: "",
+  address: "",
+  designer: "",
+  revision: "A",
+};
+
 const measurementKeys: MeasurementKey[] = ["L1", "L2", "W1", "W2", "WL", "WR", "H", "E"];
 export const DEFAULT_MEASUREMENT_OFFSET_MM = 300;
 
@@ -23,6 +31,25 @@ export const defaultMeasurementOffsets = (): Record<MeasurementKey, number> =>
     {} as Record<MeasurementKey, number>,
   );
 
+export const DEFAULT_HANDRAIL_HEIGHT_MM = 900;
+export const DEFAULT_HANDRAIL_EXTENSION_MM = 300;
+export const DEFAULT_KERB_RAIL_HEIGHT_MM = 75;
+
+export const DEFAULT_EDGE_FEATURES: EdgeFeatures = {
+  handrail: false,
+  handrailHeightMm: DEFAULT_HANDRAIL_HEIGHT_MM,
+  handrailExtensionStartMm: DEFAULT_HANDRAIL_EXTENSION_MM,
+  handrailExtensionEndMm: DEFAULT_HANDRAIL_EXTENSION_MM,
+  kerbRail: false,
+  kerbRailHeightMm: DEFAULT_KERB_RAIL_HEIGHT_MM,
+  balustrade: false,
+};
+
+export const defaultEdgeFeatures = (): EdgeFeatureSet => ({
+  left: { ...DEFAULT_EDGE_FEATURES },
+  right: { ...DEFAULT_EDGE_FEATURES },
+});
+
 export const DEFAULT_RAMP_RUN_MM = 1800;
 export const DEFAULT_RAMP_WIDTH_MM = 1000;
 export const DEFAULT_RAMP_HEIGHT_MM = 300;
@@ -38,6 +65,10 @@ export const newRampAt = (xMm: number, yMm: number): RampObj => ({
   elevationMm: 0,
   rotationDeg: 0,
   locked: false,
+  name: "",
+  notes: "",
+  tags: [],
+  hidden: false,
   measurements: defaultMeasurements(0),
   measurementOffsets: defaultMeasurementOffsets(),
   runMm: DEFAULT_RAMP_RUN_MM,
@@ -46,6 +77,8 @@ export const newRampAt = (xMm: number, yMm: number): RampObj => ({
   leftWingSizeMm: 0,
   hasRightWing: false,
   rightWingSizeMm: 0,
+  lockedRatio: null,
+  edges: defaultEdgeFeatures(),
 });
 
 export const DEFAULT_LANDING_LENGTH_MM = 1200;
@@ -63,6 +96,41 @@ export const newLandingAt = (xMm: number, yMm: number): LandingObj => ({
   elevationMm: 0,
   rotationDeg: 0,
   locked: false,
+  name: "",
+  notes: "",
+  tags: [],
+  hidden: false,
   measurements: defaultMeasurements(0),
   measurementOffsets: defaultMeasurementOffsets(),
+  edges: defaultEdgeFeatures(),
+});
+
+export const DEFAULT_STAIRS_RISER_COUNT = 4;
+export const DEFAULT_STAIRS_RISER_HEIGHT_MM = 170;
+export const DEFAULT_STAIRS_GOING_MM = 280;
+export const DEFAULT_STAIRS_NOSING_MM = 20;
+export const DEFAULT_STAIRS_WIDTH_MM = 1000;
+
+export const newStairsAt = (xMm: number, yMm: number): StairsObj => ({
+  id: makeId(),
+  kind: "stairs",
+  xMm,
+  yMm,
+  lengthMm: DEFAULT_STAIRS_RISER_COUNT * DEFAULT_STAIRS_GOING_MM,
+  widthMm: DEFAULT_STAIRS_WIDTH_MM,
+  heightMm: DEFAULT_STAIRS_RISER_COUNT * DEFAULT_STAIRS_RISER_HEIGHT_MM,
+  elevationMm: 0,
+  rotationDeg: 0,
+  locked: false,
+  name: "",
+  notes: "",
+  tags: [],
+  hidden: false,
+  measurements: defaultMeasurements(0),
+  measurementOffsets: defaultMeasurementOffsets(),
+  showArrow: true,
+  riserCount: DEFAULT_STAIRS_RISER_COUNT,
+  riserHeightMm: DEFAULT_STAIRS_RISER_HEIGHT_MM,
+  goingMm: DEFAULT_STAIRS_GOING_MM,
+  nosingMm: DEFAULT_STAIRS_NOSING_MM,
 });
@@ -1,5 +1,6 @@
 import { Snapshot } from "./types";
 
 export function deriveStatus(state: Snapshot): string {
-  return state.selectedId ? "Selection active" : "No selection";
+  if (state.selectedIds.length > 1) return `${state.selectedIds.length} objects selected`;
+  return state.selectedIds.length === 1 ? "Selection active" : "No selection";
 }
@@ -0,0 +1,61 @@
+import { PointMm } from "./geometry";
+import { MeasurementKey, Object2D } from "./types";
+
+export type DimensionSpec = {
+  key: MeasurementKey;
+  startMm: PointMm;
+  endMm: PointMm;
+  normalMm: PointMm;
+  offsetMm: number;
+  label: string;
+};
+
+const formatLabel = (valueMm: number) => `${valueMm}mm`;
+
+/**
+ * Enabled dimension annotations for an object, in its local (unrotated, centre-origin) frame.
+ * Shared by the 2D canvas and the exporters so every output dimensions the same edges.
+ */
+export const getDimensionSpecsMm = (obj: Object2D): DimensionSpec[] => {
+  const lengthMm = obj.kind === "ramp" ? obj.runMm : obj.lengthMm;
+  const halfLengthMm = lengthMm / 2;
+  const halfWidthMm = obj.widthMm / 2;
+  const specs: DimensionSpec[] = [];
+
+  const push = (key: MeasurementKey, startMm: PointMm, endMm: PointMm, normalMm: PointMm, valueMm: number) => {
+    specs.push({ key, startMm, endMm, normalMm, offsetMm: obj.measurementOffsets[key], label: formatLabel(valueMm) });
+  };
+
+  if (obj.measurements.L1) {
+    push("L1", { xMm: -halfLengthMm, yMm: -halfWidthMm }, { xMm: halfLengthMm, yMm: -halfWidthMm }, { xMm: 0, yMm: -1 }, lengthMm);
+  }
+  if (obj.measurements.L2) {
+    push("L2", { xMm: -halfLengthMm, yMm: halfWidthMm }, { xMm: halfLengthMm, yMm: halfWidthMm }, { xMm: 0, yMm: 1 }, lengthMm);
+  }
+  if (obj.measurements.W1) {
+    push("W1", { xMm: -halfLengthMm, yMm: -halfWidthMm }, { xMm: -halfLengthMm, yMm: halfWidthMm }, { xMm: -1, yMm: 0 }, obj.widthMm);
+  }
+  if (obj.measurements.W2) {
+    push("W2", { xMm: halfLengthMm, yMm: -halfWidthMm }, { xMm: halfLengthMm, yMm: halfWidthMm }, { xMm: 1, yMm: 0 }, obj.widthMm);
+  }
+  if (obj.kind === "ramp" && obj.hasLeftWing && obj.measurements.WL && obj.leftWingSizeMm > 0) {
+    push(
+      "WL",
+      { xMm: halfLengthMm, yMm: -halfWidthMm },
+      { xMm: halfLengthMm, yMm: -halfWidthMm - obj.leftWingSizeMm },
+      { xMm: 1, yMm: 0 },
+      obj.leftWingSizeMm,
+    );
+  }
+  if (obj.kind === "ramp" && obj.hasRightWing && obj.measurements.WR && obj.rightWingSizeMm > 0) {
+    push(
+      "WR",
+      { xMm: halfLengthMm, yMm: halfWidthMm },
+      { xMm: halfLengthMm, yMm: halfWidthMm + obj.rightWingSizeMm },
+      { xMm: 1, yMm: 0 },
+      obj.rightWingSizeMm,
+    );
+  }
+
+  return specs;
+};
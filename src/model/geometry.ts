@@ -1,5 +1,13 @@
-import { DEFAULT_LANDING_LENGTH_MM, DEFAULT_LANDING_WIDTH_MM, DEFAULT_RAMP_RUN_MM, DEFAULT_RAMP_WIDTH_MM } from "./defaults";
-import { Object2D, RampObj, Tool } from "./types";
+import {
+  DEFAULT_LANDING_LENGTH_MM,
+  DEFAULT_LANDING_WIDTH_MM,
+  DEFAULT_RAMP_RUN_MM,
+  DEFAULT_RAMP_WIDTH_MM,
+  DEFAULT_STAIRS_GOING_MM,
+  DEFAULT_STAIRS_RISER_COUNT,
+  DEFAULT_STAIRS_WIDTH_MM,
+} from "./defaults";
+import { EdgeSide, LandingObj, Object2D, RampObj, StairsObj, Tool } from "./types";
 
 export type PointMm = { xMm: number; yMm: number };
 export type LineSegmentMm = { start: PointMm; end: PointMm };
@@ -45,6 +53,80 @@ export const getRampSeamLinesMm = (obj: RampObj): LineSegmentMm[] => {
   return seams;
 };
 
+/** The ramp body without its wings: the rectangle the seams separate from the wing triangles. */
+export const getRampBodyPointsMm = (obj: RampObj): PointMm[] => {
+  const { A, B, C, D } = getRampCornerPoints(obj);
+  return [A, B, C, D];
+};
+
+export const getRampWingPolygonsMm = (obj: RampObj): PointMm[][] => {
+  const { A, B, C, D, outerDownLeft, outerDownRight } = getRampCornerPoints(obj);
+  const wings: PointMm[][] = [];
+
+  if (outerDownLeft) {
+    wings.push([A, D, outerDownLeft]);
+  }
+  if (outerDownRight) {
+    wings.push([B, outerDownRight, C]);
+  }
+
+  return wings;
+};
+
+export type EdgeFeatureKind = "handrail" | "kerbRail" | "balustrade";
+
+export type EdgeFeatureLineMm = LineSegmentMm & {
+  feature: EdgeFeatureKind;
+  side: EdgeSide;
+};
+
+/** Plan offsets from the body edge: handrails and kerb rails sit inside it, balustrades just outside. */
+export const HANDRAIL_INSET_MM = 50;
+export const KERB_RAIL_INSET_MM = 20;
+export const BALUSTRADE_OFFSET_MM = 40;
+
+/**
+ * Edge treatments as lines in the object's local frame. Handrails run the body length plus their
+ * extensions past each end; kerb rails and balustrades stop at the body ends.
+ */
+export const getEdgeFeatureLinesMm = (obj: RampObj | LandingObj): EdgeFeatureLineMm[] => {
+  const halfLength = (obj.kind === "ramp" ? obj.runMm : obj.lengthMm) / 2;
+  const halfWidth = obj.widthMm / 2;
+  const lines: EdgeFeatureLineMm[] = [];
+
+  (["left", "right"] as EdgeSide[]).forEach((side) => {
+    const edge = obj.edges[side];
+    // Left is the -y side; an inset moves towards the centreline.
+    const sign = side === "left" ? -1 : 1;
+    const alongEdge = (feature: EdgeFeatureKind, insetMm: number, startXMm: number, endXMm: number) => {
+      const yMm = sign * (halfWidth - insetMm);
+      lines.push({ feature, side, start: { xMm: startXMm, yMm }, end: { xMm: endXMm, yMm } });
+    };
+
+    if (edge.handrail) {
+      alongEdge("handrail", HANDRAIL_INSET_MM, -halfLength - edge.handrailExtensionStartMm, halfLength + edge.handrailExtensionEndMm);
+    }
+    if (edge.kerbRail) alongEdge("kerbRail", KERB_RAIL_INSET_MM, -halfLength, halfLength);
+    if (edge.balustrade) alongEdge("balustrade", -BALUSTRADE_OFFSET_MM, -halfLength, halfLength);
+  });
+
+  return lines;
+};
+
+// Flight climbs along +x: each riser sits one going further on, with the tread nosing
+// projecting back over the riser below (the riser itself is hidden in plan).
+export const getStairsTreadLinesMm = (obj: StairsObj): { nosings: LineSegmentMm[]; risers: LineSegmentMm[] } => {
+  const halfLength = obj.lengthMm / 2;
+  const halfWidth = obj.widthMm / 2;
+  const riserXs = Array.from({ length: Math.max(0, obj.riserCount - 1) }, (_, idx) => -halfLength + (idx + 1) * obj.goingMm);
+  const crossLine = (xMm: number): LineSegmentMm => ({ start: { xMm, yMm: -halfWidth }, end: { xMm, yMm: halfWidth } });
+
+  return {
+    nosings: riserXs.map((xMm) => crossLine(xMm - obj.nosingMm)),
+    risers: obj.nosingMm > 0 ? riserXs.map((xMm) => crossLine(xMm)) : [],
+  };
+};
+
 const rotatePoint = (point: PointMm, rotationDeg: number): PointMm => {
   const rad = (rotationDeg * Math.PI) / 180;
   const cos = Math.cos(rad);
@@ -52,6 +134,14 @@ const rotatePoint = (point: PointMm, rotationDeg: number): PointMm => {
   return { xMm: point.xMm * cos - point.yMm * sin, yMm: point.xMm * sin + point.yMm * cos };
 };
 
+export const localToWorldMm = (obj: Pick<Object2D, "xMm" | "yMm" | "rotationDeg">, point: PointMm): PointMm => {
+  const rotated = rotatePoint(point, obj.rotationDeg);
+  return { xMm: obj.xMm + rotated.xMm, yMm: obj.yMm + rotated.yMm };
+};
+
+export const worldToLocalMm = (obj: Pick<Object2D, "xMm" | "yMm" | "rotationDeg">, point: PointMm): PointMm =>
+  rotatePoint({ xMm: point.xMm - obj.xMm, yMm: point.yMm - obj.yMm }, -obj.rotationDeg);
+
 const boundingBoxFromPoints = (points: PointMm[]): BoundingBoxMm => {
   const xs = points.map((p) => p.xMm);
   const ys = points.map((p) => p.yMm);
@@ -68,13 +158,29 @@ const boundingBoxFromPoints = (points: PointMm[]): BoundingBoxMm => {
   };
 };
 
+const getEdgeFeaturePointsMm = (obj: RampObj | LandingObj): PointMm[] =>
+  getEdgeFeatureLinesMm(obj).flatMap((line) => [line.start, line.end]);
+
 export const getObjectBoundingBoxMm = (obj: Object2D): BoundingBoxMm => {
   if (obj.kind === "ramp") {
-    const outline = getRampOutlinePointsMm(obj);
+    const outline = [...getRampOutlinePointsMm(obj), ...getEdgeFeaturePointsMm(obj)];
     const rotated = outline.map((point) => rotatePoint(point, obj.rotationDeg));
     return boundingBoxFromPoints(rotated);
   }
 
+  const edgePoints = obj.kind === "landing" ? getEdgeFeaturePointsMm(obj) : [];
+  if (edgePoints.length > 0) {
+    const halfLength = obj.lengthMm / 2;
+    const halfWidth = obj.widthMm / 2;
+    const corners: PointMm[] = [
+      { xMm: -halfLength, yMm: -halfWidth },
+      { xMm: halfLength, yMm: -halfWidth },
+      { xMm: halfLength, yMm: halfWidth },
+      { xMm: -halfLength, yMm: halfWidth },
+    ];
+    return boundingBoxFromPoints([...corners, ...edgePoints].map((point) => rotatePoint(point, obj.rotationDeg)));
+  }
+
   const vertical = isVerticalRotation(obj.rotationDeg);
   const length = obj.lengthMm;
   const width = obj.widthMm;
@@ -95,6 +201,9 @@ export const getDefaultBoundingBoxMm = (tool: Tool): SizeMm | null => {
   if (tool === "landing") {
     return { widthMm: DEFAULT_LANDING_LENGTH_MM, heightMm: DEFAULT_LANDING_WIDTH_MM };
   }
+  if (tool === "stairs") {
+    return { widthMm: DEFAULT_STAIRS_RISER_COUNT * DEFAULT_STAIRS_GOING_MM, heightMm: DEFAULT_STAIRS_WIDTH_MM };
+  }
   return null;
 };
 
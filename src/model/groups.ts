@@ -0,0 +1,91 @@
+import { makeId } from "./defaults";
+import { Object2D, ObjectGroup, Snapshot } from "./types";
+
+/** Groups need at least this many members; smaller ones dissolve. */
+const MIN_GROUP_MEMBERS = 2;
+
+export const getGroupForObject = (groups: ObjectGroup[], id: string): ObjectGroup | null =>
+  groups.find((group) => group.memberIds.includes(id)) ?? null;
+
+export const getGroupMembers = (objects: Object2D[], group: ObjectGroup): Object2D[] =>
+  objects.filter((obj) => group.memberIds.includes(obj.id));
+
+/** A group is locked as a whole when every member is. */
+export const isGroupLocked = (objects: Object2D[], group: ObjectGroup): boolean => {
+  const members = getGroupMembers(objects, group);
+  return members.length > 0 && members.every((obj) => obj.locked);
+};
+
+/** Widens `ids` so any grouped object brings the rest of its group along. */
+export const expandToGroups = (groups: ObjectGroup[], ids: string[]): string[] =>
+  ids.reduce<string[]>((acc, id) => {
+    const memberIds = getGroupForObject(groups, id)?.memberIds ?? [id];
+    return [...acc, ...memberIds.filter((memberId) => !acc.includes(memberId))];
+  }, []);
+
+/** Groups whose every member is in `ids`. */
+export const getGroupsWithin = (groups: ObjectGroup[], ids: string[]): ObjectGroup[] =>
+  groups.filter((group) => group.memberIds.every((id) => ids.includes(id)));
+
+export const nextGroupName = (groups: ObjectGroup[]): string => {
+  const used = new Set(groups.map((group) => group.name));
+  let index = groups.length + 1;
+  while (used.has(`Group ${index}`)) index += 1;
+  return `Group ${index}`;
+};
+
+/**
+ * Drops members that no longer exist and dissolves groups left too small. Returns the same array
+ * when nothing changed, so snapshots stay referentially equal.
+ */
+export const pruneGroups = (groups: ObjectGroup[], objects: Object2D[]): ObjectGroup[] => {
+  let changed = false;
+  const next = groups.flatMap((group) => {
+    const memberIds = group.memberIds.filter((id) => objects.some((obj) => obj.id === id));
+    if (memberIds.length === group.memberIds.length) return [group];
+    changed = true;
+    return memberIds.length >= MIN_GROUP_MEMBERS ? [{ ...group, memberIds }] : [];
+  });
+  return changed ? next : groups;
+};
+
+/**
+ * Groups `ids` under one new group, taking them out of any group they were in before. The new group
+ * is selected. Returns the same snapshot when there are too few objects to group.
+ */
+export const groupObjects = (snapshot: Snapshot, ids: string[], name?: string): Snapshot => {
+  const memberIds = snapshot.objects.filter((obj) => ids.includes(obj.id)).map((obj) => obj.id);
+  if (memberIds.length < MIN_GROUP_MEMBERS) return snapshot;
+  const remaining = snapshot.groups.map((group) => ({
+    ...group,
+    memberIds: group.memberIds.filter((id) => !memberIds.includes(id)),
+  }));
+  const group: ObjectGroup = {
+    id: makeId(),
+    name: name?.trim() || nextGroupName(snapshot.groups),
+    memberIds,
+    collapsed: false,
+  };
+  return {
+    ...snapshot,
+    groups: [...remaining.filter((existing) => existing.memberIds.length >= MIN_GROUP_MEMBERS), group],
+    selectedIds: memberIds,
+  };
+};
+
+export const ungroup = (snapshot: Snapshot, groupId: string): Snapshot => {
+  const nextGroups = snapshot.groups.filter((group) => group.id !== groupId);
+  return nextGroups.length === snapshot.groups.length ? snapshot : { ...snapshot, groups: nextGroups };
+};
+
+export const updateGroup = (
+  snapshot: Snapshot,
+  groupId: string,
+  patch: Partial<Pick<ObjectGroup, "name" | "collapsed">>,
+): Snapshot => {
+  const group = snapshot.groups.find((candidate) => candidate.id === groupId);
+  if (!group) return snapshot;
+  const next = { ...group, ...patch, name: patch.name !== undefined ? patch.name.trim() || group.name : group.name };
+  if (next.name === group.name && next.collapsed === group.collapsed) return snapshot;
+  return { ...snapshot, groups: snapshot.groups.map((candidate) => (candidate.id === groupId ? next : candidate)) };
+};
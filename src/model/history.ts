@@ -8,15 +8,19 @@ export type HistoryState = {
   future: Snapshot[];
 };
 
+/** The undo and redo steps around the present, as stored with a project. */
+export type HistoryStacks = Pick<HistoryState, "past" | "future">;
+
 export const cloneSnapshot = (snapshot: Snapshot): Snapshot => ({
   ...snapshot,
   objects: snapshot.objects.map((obj) => ({ ...obj })),
 });
 
-export const createHistoryState = (initial: Snapshot): HistoryState => ({
-  past: [],
+/** A fresh history, or one carrying on from stored undo and redo steps. */
+export const createHistoryState = (initial: Snapshot, saved?: HistoryStacks | null): HistoryState => ({
+  past: saved ? saved.past.slice(-MAX_PAST) : [],
   present: cloneSnapshot(initial),
-  future: [],
+  future: saved ? saved.future.slice(0, MAX_PAST) : [],
 });
 
 export const replacePresent = (history: HistoryState, nextPresent: Snapshot): HistoryState => ({
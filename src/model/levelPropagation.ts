@@ -0,0 +1,71 @@
+import { buildConnectionGraph, getRampEndLevelMm, getSurfaceLevelMm, type ObjectConnection } from "./connections";
+import { updateObject } from "./objectUpdate";
+import { LandingObj, Object2D, RampObj, Snapshot } from "./types";
+
+type Connectable = RampObj | LandingObj;
+
+/** A joint where `upperId` rests on `lowerId`; the upper object follows when the lower one moves. */
+type LevelLink = {
+  lowerId: string;
+  upperId: string;
+  connection: ObjectConnection;
+};
+
+const isConnectable = (obj: Object2D | undefined): obj is Connectable =>
+  Boolean(obj) && (obj!.kind === "ramp" || obj!.kind === "landing");
+
+/**
+ * A ramp's top end carries whatever it meets (a landing, or the bottom of the next ramp), and its
+ * bottom end sits on whatever it meets. Joints against the side of a ramp say nothing about which
+ * object is higher, so they are left out.
+ */
+const getLevelLinks = (connections: ObjectConnection[]): LevelLink[] =>
+  connections.flatMap((connection): LevelLink[] => {
+    const { rampId, rampEnd, targetId, targetFace } = connection;
+    if (rampEnd === "high" && (targetFace === "edge" || targetFace === "low")) {
+      return [{ lowerId: rampId, upperId: targetId, connection }];
+    }
+    if (rampEnd === "low" && (targetFace === "edge" || targetFace === "high")) {
+      return [{ lowerId: targetId, upperId: rampId, connection }];
+    }
+    return [];
+  });
+
+const getJointLevelMm = (obj: Connectable, link: LevelLink): number =>
+  obj.kind === "ramp" && obj.id === link.connection.rampId
+    ? getRampEndLevelMm(obj, link.connection.rampEnd)
+    : getSurfaceLevelMm(obj, link.connection.atMm);
+
+/**
+ * After `sourceId` changes elevation or height, raises or lowers every ramp and landing resting on
+ * it (and on those, and so on) so each joint stays level. Only objects above the edited one move;
+ * locked objects stay put and stop the cascade. Returns the same snapshot when nothing moves.
+ */
+export const propagateLevels = (snapshot: Snapshot, sourceId: string): Snapshot => {
+  const links = getLevelLinks(buildConnectionGraph(snapshot.objects).connections);
+  if (links.length === 0) return snapshot;
+
+  let next = snapshot;
+  const visited = new Set([sourceId]);
+  const queue = [sourceId];
+
+  while (queue.length > 0) {
+    const lowerId = queue.shift()!;
+    links
+      .filter((link) => link.lowerId === lowerId && !visited.has(link.upperId))
+      .forEach((link) => {
+        const lower = next.objects.find((obj) => obj.id === link.lowerId);
+        const upper = next.objects.find((obj) => obj.id === link.upperId);
+        if (!isConnectable(lower) || !isConnectable(upper) || upper.locked) return;
+        visited.add(upper.id);
+        queue.push(upper.id);
+
+        const shiftMm = getJointLevelMm(lower, link) - getJointLevelMm(upper, link);
+        if (shiftMm !== 0) {
+          next = updateObject(next, upper.id, { elevationMm: upper.elevationMm + shiftMm });
+        }
+      });
+  }
+
+  return next;
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { SCHEMA_VERSION, migrateProjectData, migrateV1ToV2, migrateV2ToV3 } from "./migrations";
+import { DEFAULT_SNAP_INCREMENT_MM } from "./units";
+
+const NEWER_VERSION_MESSAGE = "This project was saved by a newer version of Occupational Builder. Update the app to open it.";
+
+describe("migrateV1ToV2", () => {
+  it("splits the single snap toggle and adds the default increment", () => {
+    expect(migrateV1ToV2({ snapOn: true, objects: [] })).toEqual({
+      objects: [],
+      snapToGrid: true,
+      snapToObjects: true,
+      snapIncrementMm: DEFAULT_SNAP_INCREMENT_MM,
+    });
+  });
+
+  it("reads a missing toggle as off", () => {
+    expect(migrateV1ToV2({})).toMatchObject({ snapToGrid: false, snapToObjects: false });
+  });
+});
+
+describe("migrateV2ToV3", () => {
+  it("starts with no groups", () => {
+    expect(migrateV2ToV3({ objects: [] })).toEqual({ objects: [], groups: [] });
+  });
+});
+
+describe("migrateProjectData", () => {
+  const v1 = { snapOn: false, objects: [] };
+
+  it("runs every step from the saved version", () => {
+    expect(migrateProjectData(v1, 1)).toEqual({
+      objects: [],
+      snapToGrid: false,
+      snapToObjects: false,
+      snapIncrementMm: DEFAULT_SNAP_INCREMENT_MM,
+      groups: [],
+    });
+  });
+
+  it("leaves the input as it was", () => {
+    migrateProjectData(v1, 1);
+    expect(v1).toEqual({ snapOn: false, objects: [] });
+  });
+
+  it("returns current data unchanged", () => {
+    const data = { objects: [], groups: [] };
+    expect(migrateProjectData(data, SCHEMA_VERSION)).toBe(data);
+  });
+
+  it("reads versions older than the first as v1", () => {
+    expect(migrateProjectData(v1, 0)).toEqual(migrateProjectData(v1, 1));
+    expect(migrateProjectData(v1, -3)).toEqual(migrateProjectData(v1, 1));
+  });
+
+  it("throws when a step is missing", () => {
+    expect(() => migrateProjectData(v1, 1, { 1: migrateV1ToV2 })).toThrow("There is no migration from project format v2.");
+  });
+
+  it("throws for a project from a newer build", () => {
+    expect(() => migrateProjectData({}, SCHEMA_VERSION + 1)).toThrow(NEWER_VERSION_MESSAGE);
+  });
+});
@@ -0,0 +1,62 @@
+import { DEFAULT_SNAP_INCREMENT_MM } from "./units";
+
+/**
+ * The project format this build writes. Changing the saved shape means bumping this and adding the
+ * step from the previous version to `migrations`.
+ */
+export const SCHEMA_VERSION = 3;
+
+/** The oldest format there is; anything that claims to be older is read as this. */
+const FIRST_SCHEMA_VERSION = 1;
+
+/** Saved project data in the shape of some schema version, before it is validated. */
+export type RawProjectData = Record<string, unknown>;
+
+/** v1 had one snap toggle for grid and objects, and a fixed snap increment. */
+export const migrateV1ToV2 = (data: RawProjectData): RawProjectData => {
+  const { snapOn, ...rest } = data;
+  return {
+    ...rest,
+    snapToGrid: Boolean(snapOn),
+    snapToObjects: Boolean(snapOn),
+    snapIncrementMm: DEFAULT_SNAP_INCREMENT_MM,
+  };
+};
+
+/** v2 had no object groups. */
+export const migrateV2ToV3 = (data: RawProjectData): RawProjectData => ({ ...data, groups: [] });
+
+/** Takes data saved as one schema version to the next version up. */
+export type MigrationStep = (data: RawProjectData) => RawProjectData;
+
+/** Each step takes data saved as the keyed version to the next version up. */
+const migrations: Record<number, MigrationStep> = {
+  1: migrateV1ToV2,
+  2: migrateV2ToV3,
+};
+
+/** Throws for a project from a newer build, which this one cannot read without losing what it doesn't know. */
+export const assertSupportedSchemaVersion = (schemaVersion: number) => {
+  if (schemaVersion > SCHEMA_VERSION) {
+    throw new Error("This project was saved by a newer version of Occupational Builder. Update the app to open it.");
+  }
+};
+
+/**
+ * Brings saved project data up to `SCHEMA_VERSION` one step at a time. The input is left as it was,
+ * so the caller can still keep the original. `steps` is only swapped out by tests.
+ */
+export const migrateProjectData = (
+  data: RawProjectData,
+  schemaVersion: number,
+  steps: Record<number, MigrationStep> = migrations,
+): RawProjectData => {
+  assertSupportedSchemaVersion(schemaVersion);
+  let migrated = data;
+  for (let version = Math.max(FIRST_SCHEMA_VERSION, Math.floor(schemaVersion)); version < SCHEMA_VERSION; version += 1) {
+    const step = steps[version];
+    if (!step) throw new Error(`There is no migration from project format v${version}.`);
+    migrated = step(migrated);
+  }
+  return migrated;
+};
@@ -1,4 +1,17 @@
-import { BaseObj, LandingObj, MeasurementKey, MeasurementState, Object2D, RampObj, Snapshot } from "./types";
+import {
+  BaseObj,
+  EdgeFeatureSet,
+  EdgeFeatures,
+  EdgeSide,
+  LandingObj,
+  MeasurementKey,
+  MeasurementState,
+  Object2D,
+  RampObj,
+  Snapshot,
+  StairsObj,
+} from "./types";
+import { normaliseTags } from "./annotations";
 
 export type ObjectPatch = Partial<Object2D> | Partial<BaseObj>;
 
@@ -42,6 +55,26 @@ const normaliseMeasurementOffsets = (value: Record<MeasurementKey, number>): Rec
     {} as Record<MeasurementKey, number>,
   );
 
+const edgeSides: EdgeSide[] = ["left", "right"];
+
+const normaliseEdgeFeatures = (edge: EdgeFeatures): EdgeFeatures => ({
+  ...edge,
+  handrailHeightMm: clampInt(edge.handrailHeightMm, 0),
+  handrailExtensionStartMm: clampInt(edge.handrailExtensionStartMm, 0),
+  handrailExtensionEndMm: clampInt(edge.handrailExtensionEndMm, 0),
+  kerbRailHeightMm: clampInt(edge.kerbRailHeightMm, 0),
+});
+
+const normaliseEdges = (edges: EdgeFeatureSet): EdgeFeatureSet => ({
+  left: normaliseEdgeFeatures(edges.left),
+  right: normaliseEdgeFeatures(edges.right),
+});
+
+const edgeFeaturesEqual = (a: EdgeFeatureSet, b: EdgeFeatureSet): boolean =>
+  edgeSides.every((side) =>
+    (Object.keys(a[side]) as Array<keyof EdgeFeatures>).every((key) => a[side][key] === b[side][key]),
+  );
+
 const normaliseBaseObject = (obj: Object2D): Object2D => ({
   ...obj,
   lengthMm: clampInt(obj.lengthMm, 0),
@@ -52,6 +85,7 @@ const normaliseBaseObject = (obj: Object2D): Object2D => ({
   xMm: roundMm(obj.xMm),
   yMm: roundMm(obj.yMm),
   measurementOffsets: normaliseMeasurementOffsets(obj.measurementOffsets),
+  tags: normaliseTags(obj.tags),
 });
 
 const normaliseRampObject = (obj: RampObj): RampObj => {
@@ -63,10 +97,32 @@ const normaliseRampObject = (obj: RampObj): RampObj => {
     hasRightWing: Boolean(base.hasRightWing),
     leftWingSizeMm: clampInt(base.hasLeftWing ? base.leftWingSizeMm : 0, 0),
     rightWingSizeMm: clampInt(base.hasRightWing ? base.rightWingSizeMm : 0, 0),
+    lockedRatio: base.lockedRatio !== null && Number.isFinite(base.lockedRatio) && base.lockedRatio > 0 ? base.lockedRatio : null,
+    edges: normaliseEdges(base.edges),
   };
 };
 
-const normaliseLandingObject = (obj: LandingObj): LandingObj => normaliseBaseObject(obj) as LandingObj;
+const normaliseLandingObject = (obj: LandingObj): LandingObj => {
+  const base = normaliseBaseObject(obj) as LandingObj;
+  return { ...base, edges: normaliseEdges(base.edges) };
+};
+
+const normaliseStairsObject = (obj: StairsObj): StairsObj => {
+  const base = normaliseBaseObject(obj) as StairsObj;
+  const riserCount = clampInt(base.riserCount, 1);
+  const riserHeightMm = clampInt(base.riserHeightMm, 0);
+  const goingMm = clampInt(base.goingMm, 0);
+  return {
+    ...base,
+    showArrow: Boolean(base.showArrow),
+    riserCount,
+    riserHeightMm,
+    goingMm,
+    nosingMm: clampInt(base.nosingMm, 0, goingMm),
+    lengthMm: riserCount * goingMm,
+    heightMm: riserCount * riserHeightMm,
+  };
+};
 
 const measurementsEqual = (a: MeasurementState, b: MeasurementState): boolean =>
   measurementKeys.every((key) => a[key] === b[key]);
@@ -86,6 +142,11 @@ const objectsEqual = (a: Object2D, b: Object2D): boolean => {
     a.elevationMm === b.elevationMm &&
     a.rotationDeg === b.rotationDeg &&
     a.locked === b.locked &&
+    a.name === b.name &&
+    a.notes === b.notes &&
+    a.tags.length === b.tags.length &&
+    a.tags.every((tag, idx) => tag === b.tags[idx]) &&
+    a.hidden === b.hidden &&
     measurementsEqual(a.measurements, b.measurements) &&
     measurementOffsetsEqual(a.measurementOffsets, b.measurementOffsets);
 
@@ -98,19 +159,57 @@ const objectsEqual = (a: Object2D, b: Object2D): boolean => {
       a.hasLeftWing === b.hasLeftWing &&
       a.leftWingSizeMm === b.leftWingSizeMm &&
       a.hasRightWing === b.hasRightWing &&
-      a.rightWingSizeMm === b.rightWingSizeMm
+      a.rightWingSizeMm === b.rightWingSizeMm &&
+      a.lockedRatio === b.lockedRatio &&
+      edgeFeaturesEqual(a.edges, b.edges)
     );
   }
 
-  return a.kind === "landing" && b.kind === "landing";
+  if (a.kind === "stairs" && b.kind === "stairs") {
+    return (
+      a.showArrow === b.showArrow &&
+      a.riserCount === b.riserCount &&
+      a.riserHeightMm === b.riserHeightMm &&
+      a.goingMm === b.goingMm &&
+      a.nosingMm === b.nosingMm
+    );
+  }
+
+  return a.kind === "landing" && b.kind === "landing" && edgeFeaturesEqual(a.edges, b.edges);
+};
+
+type AnyObjectPatch = Partial<RampObj> & Partial<StairsObj> & Partial<LandingObj>;
+
+// With the ratio locked, a new run (corner resize, Length field) re-derives the height and a new
+// height re-derives the run. Patches that set both, or change the lock itself, are taken as given.
+const holdLockedRatio = (ramp: RampObj, patch: AnyObjectPatch): RampObj => {
+  const ratio = ramp.lockedRatio;
+  if (ratio === null || "lockedRatio" in patch) return ramp;
+  const runChanged = patch.runMm !== undefined || patch.lengthMm !== undefined;
+  const heightChanged = patch.heightMm !== undefined;
+  if (runChanged && !heightChanged) return { ...ramp, heightMm: ramp.runMm / ratio };
+  if (heightChanged && !runChanged) {
+    const runMm = ramp.heightMm * ratio;
+    return { ...ramp, runMm, lengthMm: runMm };
+  }
+  return ramp;
 };
 
 const applyPatchToRamp = (obj: RampObj, patch: ObjectPatch): RampObj => {
-  const { kind: _ignoredKind, measurements, measurementOffsets, ...rest } = patch as Partial<RampObj>;
+  const {
+    kind: _ignoredKind,
+    riserCount: _ignoreRiserCount,
+    riserHeightMm: _ignoreRiserHeight,
+    goingMm: _ignoreGoing,
+    nosingMm: _ignoreNosing,
+    measurements,
+    measurementOffsets,
+    ...rest
+  } = patch as AnyObjectPatch;
   const mergedMeasurements = mergeMeasurements(obj.measurements, measurements);
   const mergedOffsets = mergeMeasurementOffsets(obj.measurementOffsets, measurementOffsets);
   const candidate: RampObj = { ...obj, ...rest, measurements: mergedMeasurements, measurementOffsets: mergedOffsets, kind: "ramp" };
-  return normaliseRampObject(candidate);
+  return normaliseRampObject(holdLockedRatio(candidate, rest));
 };
 
 const applyPatchToLanding = (obj: LandingObj, patch: ObjectPatch): LandingObj => {
@@ -122,10 +221,15 @@ const applyPatchToLanding = (obj: LandingObj, patch: ObjectPatch): LandingObj =>
     leftWingSizeMm: _ignoreLeftWingSize,
     hasRightWing: _ignoreRightWing,
     rightWingSizeMm: _ignoreRightWingSize,
+    lockedRatio: _ignoreLockedRatio,
+    riserCount: _ignoreRiserCount,
+    riserHeightMm: _ignoreRiserHeight,
+    goingMm: _ignoreGoing,
+    nosingMm: _ignoreNosing,
     measurements,
     measurementOffsets,
     ...rest
-  } = patch as Partial<RampObj>;
+  } = patch as AnyObjectPatch;
   const mergedMeasurements = mergeMeasurements(obj.measurements, measurements);
   const mergedOffsets = mergeMeasurementOffsets(obj.measurementOffsets, measurementOffsets);
   const candidate: LandingObj = {
@@ -138,12 +242,58 @@ const applyPatchToLanding = (obj: LandingObj, patch: ObjectPatch): LandingObj =>
   return normaliseLandingObject(candidate);
 };
 
+/** The flight length or height a typed total becomes: a whole millimetre per riser, times the risers. */
+export const roundStairsTotalMm = (totalMm: number, riserCount: number): number => {
+  const count = clampInt(riserCount, 1);
+  return clampInt(totalMm / count, 0) * count;
+};
+
+// Length and height of a flight are derived from its risers, so a plain length/height patch
+// (Inspector base fields, corner resize) is redistributed over the going and riser height.
+const applyPatchToStairs = (obj: StairsObj, patch: ObjectPatch): StairsObj => {
+  const {
+    kind: _ignoredKind,
+    runMm: _ignoreRunMm,
+    hasLeftWing: _ignoreLeftWing,
+    leftWingSizeMm: _ignoreLeftWingSize,
+    hasRightWing: _ignoreRightWing,
+    rightWingSizeMm: _ignoreRightWingSize,
+    lockedRatio: _ignoreLockedRatio,
+    edges: _ignoreEdges,
+    measurements,
+    measurementOffsets,
+    ...rest
+  } = patch as AnyObjectPatch;
+  const mergedMeasurements = mergeMeasurements(obj.measurements, measurements);
+  const mergedOffsets = mergeMeasurementOffsets(obj.measurementOffsets, measurementOffsets);
+  const riserCount = Math.max(1, rest.riserCount ?? obj.riserCount);
+  const goingMm = rest.goingMm ?? (rest.lengthMm !== undefined ? rest.lengthMm / riserCount : obj.goingMm);
+  const riserHeightMm =
+    rest.riserHeightMm ?? (rest.heightMm !== undefined ? rest.heightMm / riserCount : obj.riserHeightMm);
+  const candidate: StairsObj = {
+    ...obj,
+    ...rest,
+    goingMm,
+    riserHeightMm,
+    measurements: mergedMeasurements,
+    measurementOffsets: mergedOffsets,
+    kind: "stairs",
+  };
+  return normaliseStairsObject(candidate);
+};
+
+const applyPatch = (obj: Object2D, patch: ObjectPatch): Object2D => {
+  if (obj.kind === "ramp") return applyPatchToRamp(obj, patch);
+  if (obj.kind === "stairs") return applyPatchToStairs(obj, patch);
+  return applyPatchToLanding(obj, patch);
+};
+
 export const updateObject = (snapshot: Snapshot, id: string, patch: ObjectPatch): Snapshot => {
   const index = snapshot.objects.findIndex((obj) => obj.id === id);
   if (index === -1) return snapshot;
 
   const target = snapshot.objects[index];
-  const updated = target.kind === "ramp" ? applyPatchToRamp(target, patch) : applyPatchToLanding(target, patch);
+  const updated = applyPatch(target, patch);
   if (objectsEqual(target, updated)) return snapshot;
 
   const nextObjects = [...snapshot.objects];
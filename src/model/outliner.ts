@@ -0,0 +1,74 @@
+import { Object2D, ObjectGroup, ObjectKind, Snapshot } from "./types";
+
+export type OutlinerFilter = "all" | ObjectKind;
+
+export type ReorderDirection = "forward" | "backward" | "front" | "back";
+
+/** One line of the outliner: a group heading, or an object (indented when it sits under a group). */
+export type OutlinerRow =
+  | { type: "group"; group: ObjectGroup; members: Object2D[] }
+  | { type: "object"; obj: Object2D; grouped: boolean };
+
+export const OBJECT_KIND_LABELS: Record<ObjectKind, string> = {
+  ramp: "Ramp",
+  landing: "Landing",
+  stairs: "Stairs",
+};
+
+/** "Ramp 2": the object's place among objects of its kind, in draw order. */
+export const getDefaultObjectName = (obj: Object2D, objects: Object2D[]): string => {
+  const index = objects.filter((candidate) => candidate.kind === obj.kind).findIndex((candidate) => candidate.id === obj.id);
+  return `${OBJECT_KIND_LABELS[obj.kind]} ${index + 1}`;
+};
+
+export const getObjectDisplayName = (obj: Object2D, objects: Object2D[]): string =>
+  obj.name.trim() || getDefaultObjectName(obj, objects);
+
+/** The dimensions that identify an object at a glance. */
+export const describeObjectSize = (obj: Object2D): string => {
+  if (obj.kind === "stairs") return `${obj.riserCount} risers × ${obj.riserHeightMm}, ${obj.widthMm} wide`;
+  if (obj.kind === "ramp") return `${obj.lengthMm} × ${obj.widthMm}, rise ${obj.heightMm}`;
+  return `${obj.lengthMm} × ${obj.widthMm}`;
+};
+
+const matchesFilter = (obj: Object2D, filter: OutlinerFilter): boolean => filter === "all" || obj.kind === filter;
+
+/**
+ * Rows front-most first, the way layers panels read. A group is listed where its front-most member
+ * would be, followed by its members unless it is collapsed; groups with no member passing the
+ * filter are left out.
+ */
+export const buildOutlinerRows = (objects: Object2D[], groups: ObjectGroup[], filter: OutlinerFilter): OutlinerRow[] => {
+  const frontFirst = [...objects].reverse();
+  const listedGroupIds = new Set<string>();
+  return frontFirst.flatMap((obj): OutlinerRow[] => {
+    const group = groups.find((candidate) => candidate.memberIds.includes(obj.id));
+    if (!group) return matchesFilter(obj, filter) ? [{ type: "object", obj, grouped: false }] : [];
+    if (listedGroupIds.has(group.id)) return [];
+    listedGroupIds.add(group.id);
+    const members = frontFirst.filter((member) => group.memberIds.includes(member.id) && matchesFilter(member, filter));
+    if (members.length === 0) return [];
+    const memberRows = group.collapsed
+      ? []
+      : members.map((member): OutlinerRow => ({ type: "object", obj: member, grouped: true }));
+    return [{ type: "group", group, members }, ...memberRows];
+  });
+};
+
+/** Moves an object through the draw order; later objects draw on top. */
+export const reorderObject = (snapshot: Snapshot, id: string, direction: ReorderDirection): Snapshot => {
+  const index = snapshot.objects.findIndex((obj) => obj.id === id);
+  if (index === -1) return snapshot;
+  const lastIndex = snapshot.objects.length - 1;
+  const targetIndex =
+    direction === "front"
+      ? lastIndex
+      : direction === "back"
+        ? 0
+        : Math.min(lastIndex, Math.max(0, index + (direction === "forward" ? 1 : -1)));
+  if (targetIndex === index) return snapshot;
+  const nextObjects = [...snapshot.objects];
+  const [moved] = nextObjects.splice(index, 1);
+  nextObjects.splice(targetIndex, 0, moved);
+  return { ...snapshot, objects: nextObjects };
+};
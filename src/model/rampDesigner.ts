@@ -0,0 +1,171 @@
+import { DEFAULT_LANDING_HEIGHT_MM, newLandingAt, newRampAt } from "./defaults";
+import type { PointMm } from "./geometry";
+import { normaliseDeg, roundMm } from "./objectUpdate";
+import { LandingObj, Object2D, RampObj } from "./types";
+
+export type RampLayout = "straight" | "lShaped" | "switchback";
+
+export type TurnDirection = "left" | "right";
+
+export type RampRunSpec = {
+  totalRiseMm: number;
+  /** Target gradient as the x of 1:x. */
+  gradientRatio: number;
+  maxRunMm: number;
+  landingLengthMm: number;
+  widthMm: number;
+  /** Middle of the bottom edge of the first flight. */
+  startMm: PointMm;
+  /** Uphill direction of the first flight, as a plan rotation. */
+  directionDeg: number;
+  layout: RampLayout;
+  turn: TurnDirection;
+  topLanding: boolean;
+};
+
+export type RampFlight = {
+  runMm: number;
+  riseMm: number;
+};
+
+export type RampRunPlan = {
+  flights: RampFlight[];
+  objects: Object2D[];
+};
+
+export const RAMP_LAYOUT_LABELS: Record<RampLayout, string> = {
+  straight: "Straight",
+  lShaped: "L-shaped",
+  switchback: "Switchback (U-turn)",
+};
+
+/**
+ * Splits the rise into the fewest flights that keep every run within `maxRunMm`, sharing the rise
+ * as evenly as whole millimetres allow. Turning layouts always get at least two flights.
+ */
+export const planRampFlights = (spec: RampRunSpec): RampFlight[] => {
+  const totalRunMm = spec.totalRiseMm * spec.gradientRatio;
+  const minFlights = spec.layout === "straight" ? 1 : 2;
+  const count = Math.max(minFlights, Math.ceil(totalRunMm / spec.maxRunMm - 1e-9));
+  const baseRiseMm = Math.floor(spec.totalRiseMm / count);
+  const remainderMm = spec.totalRiseMm - baseRiseMm * count;
+
+  return Array.from({ length: count }, (_, idx) => {
+    const riseMm = baseRiseMm + (idx < remainderMm ? 1 : 0);
+    return { riseMm, runMm: roundMm(riseMm * spec.gradientRatio) };
+  });
+};
+
+/** Which flights end on a turning landing rather than carrying straight on. */
+const isTurnAfter = (layout: RampLayout, flightIdx: number, flightCount: number): boolean => {
+  if (layout === "switchback") return true;
+  if (layout === "lShaped") return flightIdx === Math.ceil(flightCount / 2) - 1;
+  return false;
+};
+
+const direction = (deg: number): PointMm => {
+  const rad = (deg * Math.PI) / 180;
+  return { xMm: Math.cos(rad), yMm: Math.sin(rad) };
+};
+
+const offset = (point: PointMm, dir: PointMm, distanceMm: number): PointMm => ({
+  xMm: point.xMm + dir.xMm * distanceMm,
+  yMm: point.yMm + dir.yMm * distanceMm,
+});
+
+/** A landing whose walking surface is at `levelMm`, keeping the default slab thickness where it fits. */
+const landingAtLevel = (centre: PointMm, levelMm: number): LandingObj => {
+  const thicknessMm = Math.min(DEFAULT_LANDING_HEIGHT_MM, levelMm);
+  return {
+    ...newLandingAt(roundMm(centre.xMm), roundMm(centre.yMm)),
+    heightMm: thicknessMm,
+    elevationMm: levelMm - thicknessMm,
+  };
+};
+
+export const isValidRampRunSpec = (spec: RampRunSpec): boolean =>
+  [spec.totalRiseMm, spec.gradientRatio, spec.maxRunMm, spec.landingLengthMm, spec.widthMm].every(
+    (value) => Number.isFinite(value) && value > 0,
+  ) &&
+  Number.isFinite(spec.startMm.xMm) &&
+  Number.isFinite(spec.startMm.yMm) &&
+  Number.isFinite(spec.directionDeg);
+
+/**
+ * Lays out a complete run from the ground up: flights of ramp with a landing between each pair,
+ * turning 90° once for an L-shape, or 180° at every landing for a switchback that steps one lane
+ * sideways each time. Each piece abuts the next exactly, so the connection graph sees the whole
+ * chain. Returns null for an unusable spec.
+ */
+export const designRampRun = (spec: RampRunSpec): RampRunPlan | null => {
+  if (!isValidRampRunSpec(spec)) return null;
+
+  const flights = planRampFlights(spec);
+  const objects: Object2D[] = [];
+  const turnSign = spec.turn === "left" ? -1 : 1;
+  // Switchback lanes step sideways the same way every time, so flights never stack over each other.
+  const lateral = direction(spec.directionDeg + 90 * turnSign);
+  let headingDeg = spec.directionDeg;
+  let cursor = spec.startMm;
+  let levelMm = 0;
+
+  flights.forEach((flight, idx) => {
+    const forward = direction(headingDeg);
+    const centre = offset(cursor, forward, flight.runMm / 2);
+    const ramp: RampObj = {
+      ...newRampAt(roundMm(centre.xMm), roundMm(centre.yMm)),
+      lengthMm: flight.runMm,
+      runMm: flight.runMm,
+      widthMm: spec.widthMm,
+      heightMm: flight.riseMm,
+      elevationMm: levelMm,
+      rotationDeg: normaliseDeg(headingDeg),
+    };
+    objects.push(ramp);
+    cursor = offset(cursor, forward, flight.runMm);
+    levelMm += flight.riseMm;
+
+    const last = idx === flights.length - 1;
+    if (last && !spec.topLanding) return;
+
+    if (last || !isTurnAfter(spec.layout, idx, flights.length)) {
+      objects.push({
+        ...landingAtLevel(offset(cursor, forward, spec.landingLengthMm / 2), levelMm),
+        lengthMm: spec.landingLengthMm,
+        widthMm: spec.widthMm,
+        rotationDeg: normaliseDeg(headingDeg),
+      });
+      cursor = offset(cursor, forward, spec.landingLengthMm);
+      return;
+    }
+
+    if (spec.layout === "lShaped") {
+      const side = direction(headingDeg + 90 * turnSign);
+      // A square landing big enough to turn on; the next flight leaves from its side edge.
+      const sizeMm = Math.max(spec.landingLengthMm, spec.widthMm);
+      const landingCentre = offset(cursor, forward, sizeMm / 2);
+      objects.push({
+        ...landingAtLevel(landingCentre, levelMm),
+        lengthMm: sizeMm,
+        widthMm: sizeMm,
+        rotationDeg: normaliseDeg(headingDeg),
+      });
+      headingDeg += 90 * turnSign;
+      cursor = offset(landingCentre, side, sizeMm / 2);
+      return;
+    }
+
+    // Switchback: the landing spans both flights, which leave and arrive on the same edge.
+    const landingCentre = offset(offset(cursor, forward, spec.landingLengthMm / 2), lateral, spec.widthMm / 2);
+    objects.push({
+      ...landingAtLevel(landingCentre, levelMm),
+      lengthMm: spec.landingLengthMm,
+      widthMm: spec.widthMm * 2,
+      rotationDeg: normaliseDeg(headingDeg),
+    });
+    headingDeg += 180;
+    cursor = offset(cursor, lateral, spec.widthMm);
+  });
+
+  return { flights, objects };
+};
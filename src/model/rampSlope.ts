@@ -30,3 +30,22 @@ export const computeRampSlope = (lengthMm: number, heightMm: number): RampSlope
     ratioText: `1 : ${formatRatio(ratioN)}`,
   };
 };
+
+/** Which dimension gives way when a target ratio or gradient is typed in. */
+export type SlopeSolveTarget = "length" | "height";
+
+export const ratioFromGradientDeg = (gradientDeg: number): number | null => {
+  if (!Number.isFinite(gradientDeg) || gradientDeg <= 0 || gradientDeg >= 90) return null;
+  return 1 / Math.tan((gradientDeg * Math.PI) / 180);
+};
+
+/** Run and rise that give `ratio` (the x of 1:x), keeping whichever of the two is not being solved for. */
+export const solveRampForRatio = (
+  lengthMm: number,
+  heightMm: number,
+  ratio: number,
+  solveFor: SlopeSolveTarget,
+): { lengthMm: number; heightMm: number } =>
+  solveFor === "length"
+    ? { lengthMm: Math.round(heightMm * ratio), heightMm }
+    : { lengthMm, heightMm: Math.round(lengthMm / ratio) };
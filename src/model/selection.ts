@@ -0,0 +1,108 @@
+import { getObjectBoundingBoxMm, topLeftFromCenterMm } from "./geometry";
+import { pruneGroups } from "./groups";
+import { normaliseDeg, updateObject, type ObjectPatch } from "./objectUpdate";
+import { Object2D, Snapshot } from "./types";
+
+/** Axis-aligned plan rectangle in millimetres. */
+export type RectMm = {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+};
+
+export const getSelectedObjects = (snapshot: Pick<Snapshot, "objects" | "selectedIds">): Object2D[] =>
+  snapshot.objects.filter((obj) => snapshot.selectedIds.includes(obj.id));
+
+/** Adds `id` to the selection, or takes it out again when it is already there. */
+export const toggleSelectedId = (selectedIds: string[], id: string): string[] =>
+  selectedIds.includes(id) ? selectedIds.filter((selected) => selected !== id) : [...selectedIds, id];
+
+export const selectionEquals = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every((id, idx) => id === b[idx]);
+
+export const getObjectRectMm = (obj: Object2D): RectMm => {
+  const size = getObjectBoundingBoxMm(obj);
+  const topLeft = topLeftFromCenterMm({ xMm: obj.xMm, yMm: obj.yMm }, size);
+  return { left: topLeft.xMm, top: topLeft.yMm, right: topLeft.xMm + size.widthMm, bottom: topLeft.yMm + size.heightMm };
+};
+
+/** Bounding box around every object, or null when there are none. */
+export const getGroupRectMm = (objects: Object2D[]): RectMm | null =>
+  objects.reduce<RectMm | null>((acc, obj) => {
+    const rect = getObjectRectMm(obj);
+    if (!acc) return rect;
+    return {
+      left: Math.min(acc.left, rect.left),
+      top: Math.min(acc.top, rect.top),
+      right: Math.max(acc.right, rect.right),
+      bottom: Math.max(acc.bottom, rect.bottom),
+    };
+  }, null);
+
+/**
+ * Objects picked by a marquee. A window (dragged left to right) takes only objects it fully
+ * encloses; a crossing marquee (right to left) also takes anything it touches.
+ */
+export const getObjectsInMarquee = (objects: Object2D[], marquee: RectMm, crossing: boolean): Object2D[] =>
+  objects.filter((obj) => {
+    const rect = getObjectRectMm(obj);
+    if (crossing) {
+      return rect.left <= marquee.right && rect.right >= marquee.left && rect.top <= marquee.bottom && rect.bottom >= marquee.top;
+    }
+    return rect.left >= marquee.left && rect.right <= marquee.right && rect.top >= marquee.top && rect.bottom <= marquee.bottom;
+  });
+
+/** Moves every unlocked object in `ids` by the same offset. */
+export const moveObjects = (snapshot: Snapshot, ids: string[], dxMm: number, dyMm: number): Snapshot => {
+  if (dxMm === 0 && dyMm === 0) return snapshot;
+  return ids.reduce((acc, id) => {
+    const obj = acc.objects.find((candidate) => candidate.id === id);
+    if (!obj || obj.locked) return acc;
+    return updateObject(acc, id, { xMm: obj.xMm + dxMm, yMm: obj.yMm + dyMm });
+  }, snapshot);
+};
+
+/** Turns every unlocked object in `ids` by `deltaDeg` about the centre of their bounding box. */
+export const rotateObjectsAboutCentre = (snapshot: Snapshot, ids: string[], deltaDeg: number): Snapshot => {
+  const movers = snapshot.objects.filter((obj) => ids.includes(obj.id) && !obj.locked);
+  const rect = getGroupRectMm(movers);
+  if (!rect || deltaDeg === 0) return snapshot;
+  const cx = (rect.left + rect.right) / 2;
+  const cy = (rect.top + rect.bottom) / 2;
+  const rad = (deltaDeg * Math.PI) / 180;
+  return movers.reduce((acc, obj) => {
+    const dx = obj.xMm - cx;
+    const dy = obj.yMm - cy;
+    return updateObject(acc, obj.id, {
+      xMm: cx + dx * Math.cos(rad) - dy * Math.sin(rad),
+      yMm: cy + dx * Math.sin(rad) + dy * Math.cos(rad),
+      rotationDeg: normaliseDeg(obj.rotationDeg + deltaDeg),
+    });
+  }, snapshot);
+};
+
+/** Removes objects, taking them out of the selection and their groups too. */
+export const deleteObjects = (snapshot: Snapshot, ids: string[]): Snapshot => {
+  const nextObjects = snapshot.objects.filter((obj) => !ids.includes(obj.id));
+  if (nextObjects.length === snapshot.objects.length) return snapshot;
+  return {
+    ...snapshot,
+    objects: nextObjects,
+    groups: pruneGroups(snapshot.groups, nextObjects),
+    selectedIds: snapshot.selectedIds.filter((id) => !ids.includes(id)),
+  };
+};
+
+/**
+ * Applies one patch across the selection. Locked objects are skipped unless the patch is the
+ * lock itself, and a length change keeps each ramp's run in step as the single Inspector does.
+ */
+export const updateSelectedObjects = (snapshot: Snapshot, patch: ObjectPatch): Snapshot => {
+  const isLockPatch = Object.keys(patch).length === 1 && "locked" in patch;
+  return getSelectedObjects(snapshot).reduce((acc, obj) => {
+    if (obj.locked && !isLockPatch) return acc;
+    const objectPatch = obj.kind === "ramp" && patch.lengthMm !== undefined ? { ...patch, runMm: patch.lengthMm } : patch;
+    return updateObject(acc, obj.id, objectPatch);
+  }, snapshot);
+};
@@ -0,0 +1,74 @@
+import { PointMm, getRampBodyPointsMm, getRampWingPolygonsMm } from "./geometry";
+import { Object2D, RampObj, StairsObj } from "./types";
+
+/**
+ * A vertical prism over a convex footprint in the object's local plan frame. The underside is flat
+ * at `bottomMm`; the top surface is a plane that rises along local +x, so one shape covers flat
+ * landings, sloped ramp bodies and their wings alike.
+ */
+export type SolidMm = {
+  footprint: PointMm[];
+  bottomMm: number;
+  /** Top surface height at local x = `topOriginXMm`. */
+  topMm: number;
+  topOriginXMm: number;
+  /** Rise of the top surface per millimetre of local x. */
+  slope: number;
+};
+
+export const getSolidTopMm = (solid: SolidMm, point: PointMm): number =>
+  solid.topMm + (point.xMm - solid.topOriginXMm) * solid.slope;
+
+const rectangle = (x1: number, x2: number, halfWidth: number): PointMm[] => [
+  { xMm: x1, yMm: -halfWidth },
+  { xMm: x1, yMm: halfWidth },
+  { xMm: x2, yMm: halfWidth },
+  { xMm: x2, yMm: -halfWidth },
+];
+
+// Ramps climb along +x (the arrow direction) from elevationMm at the low end to
+// elevationMm + heightMm at the high end; wings share the same sloped top.
+const getRampSolids = (obj: RampObj): SolidMm[] => {
+  const lowEndXMm = -obj.runMm / 2;
+  const slope = obj.runMm > 0 ? obj.heightMm / obj.runMm : 0;
+  const sloped = (footprint: PointMm[]): SolidMm => ({
+    footprint,
+    bottomMm: obj.elevationMm,
+    topMm: obj.elevationMm,
+    topOriginXMm: lowEndXMm,
+    slope,
+  });
+  return [sloped(getRampBodyPointsMm(obj)), ...getRampWingPolygonsMm(obj).map(sloped)];
+};
+
+// One block per going, each one riser taller than the last; the final block runs to the far end.
+const getStairsSolids = (obj: StairsObj): SolidMm[] => {
+  const halfLength = obj.lengthMm / 2;
+  const steps = Math.max(1, obj.riserCount);
+  const riseMm = obj.heightMm / steps;
+  return Array.from({ length: steps }, (_, idx) => {
+    const startXMm = -halfLength + idx * obj.goingMm;
+    const endXMm = idx === steps - 1 ? halfLength : Math.min(halfLength, startXMm + obj.goingMm);
+    return {
+      footprint: rectangle(startXMm, endXMm, obj.widthMm / 2),
+      bottomMm: obj.elevationMm,
+      topMm: obj.elevationMm + riseMm * (idx + 1),
+      topOriginXMm: 0,
+      slope: 0,
+    };
+  }).filter((solid) => solid.footprint[2].xMm > solid.footprint[0].xMm);
+};
+
+export const getObjectSolidsMm = (obj: Object2D): SolidMm[] => {
+  if (obj.kind === "ramp") return getRampSolids(obj);
+  if (obj.kind === "stairs") return getStairsSolids(obj);
+  return [
+    {
+      footprint: rectangle(-obj.lengthMm / 2, obj.lengthMm / 2, obj.widthMm / 2),
+      bottomMm: obj.elevationMm,
+      topMm: obj.elevationMm + obj.heightMm,
+      topOriginXMm: 0,
+      slope: 0,
+    },
+  ];
+};
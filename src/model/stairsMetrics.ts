@@ -0,0 +1,26 @@
+import { StairsObj } from "./types";
+
+export type StairsMetrics = {
+  totalRiseMm: number;
+  totalGoingMm: number;
+  ratioText: string;
+  slopeRelationshipMm: number;
+};
+
+const formatRatio = (ratio: number): string => {
+  const nearestTenth = Math.round(ratio * 10) / 10;
+  return Number.isInteger(nearestTenth) ? String(nearestTenth) : nearestTenth.toFixed(1);
+};
+
+export const computeStairsMetrics = (obj: Pick<StairsObj, "riserCount" | "riserHeightMm" | "goingMm">): StairsMetrics => {
+  const totalRiseMm = obj.riserCount * obj.riserHeightMm;
+  const totalGoingMm = obj.riserCount * obj.goingMm;
+  const ratioText = obj.riserHeightMm > 0 && obj.goingMm > 0 ? `${formatRatio(obj.goingMm / obj.riserHeightMm)} : 1` : "-";
+
+  return {
+    totalRiseMm,
+    totalGoingMm,
+    ratioText,
+    slopeRelationshipMm: 2 * obj.riserHeightMm + obj.goingMm,
+  };
+};
@@ -1,18 +1,61 @@
 import {
   DEFAULT_LANDING_HEIGHT_MM,
+  DEFAULT_PROJECT_INFO,
   DEFAULT_LANDING_LENGTH_MM,
   DEFAULT_LANDING_WIDTH_MM,
   DEFAULT_RAMP_HEIGHT_MM,
   DEFAULT_RAMP_RUN_MM,
   DEFAULT_RAMP_WIDTH_MM,
+  DEFAULT_STAIRS_GOING_MM,
+  DEFAULT_STAIRS_NOSING_MM,
+  DEFAULT_STAIRS_RISER_COUNT,
+  DEFAULT_STAIRS_RISER_HEIGHT_MM,
+  DEFAULT_STAIRS_WIDTH_MM,
+  DEFAULT_EDGE_FEATURES,
   defaultMeasurementOffsets,
 } from "./defaults";
-import { LandingObj, MeasurementKey, MeasurementState, Object2D, RampObj, SnapIncrementMm, Tool } from "./types";
+import { DEFAULT_COMPLIANCE_SETTINGS, RULE_SETS } from "./compliance";
+import {
+  ComplianceRules,
+  ComplianceSettings,
+  EdgeFeatureSet,
+  EdgeFeatures,
+  GradientBand,
+  LandingObj,
+  MeasurementKey,
+  MeasurementState,
+  Object2D,
+  ObjectGroup,
+  ObjectKind,
+  ProjectInfo,
+  RampObj,
+  RuleSetId,
+  Snapshot,
+  SnapIncrementMm,
+  StairsObj,
+  Tool,
+  Underlay,
+  UnderlayCalibration,
+  UnderlayPlacement,
+  UnderlaySegment,
+} from "./types";
+import { normaliseTags } from "./annotations";
+import type { HistoryStacks } from "./history";
+import { SCHEMA_VERSION, assertSupportedSchemaVersion, migrateProjectData, type RawProjectData } from "./migrations";
+import { clampInt } from "./objectUpdate";
+import { DEFAULT_UNDERLAY_OPACITY, MAX_UNDERLAY_SEGMENTS } from "./underlay";
 import { DEFAULT_SNAP_INCREMENT_MM, SNAP_INCREMENT_OPTIONS } from "./units";
 
+/** The single autosave slot used before the project library; read once to migrate it in. */
 export const STORAGE_KEY = "occupational_builder_v1";
 
-const SCHEMA_VERSION = 2;
+export const PROJECT_FILE_EXTENSION = ".obproj.json";
+
+/**
+ * Most characters of undo and redo steps stored with a project. Past this the oldest undo steps go
+ * first, then the furthest redo steps.
+ */
+const MAX_HISTORY_CHARS = 4_000_000;
 
 export type PersistedProject = {
   mode: "2d" | "3d";
@@ -20,8 +63,14 @@ export type PersistedProject = {
   snapToGrid: boolean;
   snapToObjects: boolean;
   snapIncrementMm: SnapIncrementMm;
+  cascadeLevels: boolean;
+  compliance: ComplianceSettings;
+  projectInfo: ProjectInfo;
+  underlay: Underlay | null;
   objects: Object2D[];
-  selectedId: string | null;
+  groups: ObjectGroup[];
+  selectedIds: string[];
+  showLabels: boolean;
 };
 
 type PersistedEnvelope = {
@@ -30,6 +79,36 @@ type PersistedEnvelope = {
   data: unknown;
 };
 
+/** An object in a project file that could not be read; `index` is its position in the file's list. */
+export type DroppedObject = {
+  index: number;
+  id: string | null;
+  kind: string | null;
+  reason: string;
+};
+
+/** An object that was read, but with `fields` missing, invalid or inconsistent and replaced. */
+export type RepairedObject = {
+  id: string;
+  kind: ObjectKind;
+  fields: string[];
+};
+
+/** What reading a project changed, so an import can say so rather than filter silently. */
+export type ProjectImportReport = {
+  /** Schema version the project was saved with; older ones are migrated. */
+  schemaVersion: number;
+  dropped: DroppedObject[];
+  repaired: RepairedObject[];
+  /** Groups left out because fewer than two of their members survived. */
+  droppedGroups: number;
+};
+
+export type ProjectFileImport = {
+  project: PersistedProject;
+  report: ProjectImportReport;
+};
+
 const hasLocalStorage = () => typeof window !== "undefined" && typeof window.localStorage !== "undefined";
 
 const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
@@ -37,7 +116,7 @@ const isBoolean = (value: unknown): value is boolean => typeof value === "boolea
 const isString = (value: unknown): value is string => typeof value === "string";
 const isMode = (value: unknown): value is "2d" | "3d" => value === "2d" || value === "3d";
 const isTool = (value: unknown): value is Tool =>
-  value === "none" || value === "ramp" || value === "landing" || value === "delete";
+  value === "none" || value === "ramp" || value === "landing" || value === "stairs" || value === "delete";
 
 const isLegacyTool = (value: unknown): value is "platform" => value === "platform";
 
@@ -46,6 +125,94 @@ const measurementKeys: MeasurementKey[] = ["L1", "L2", "W1", "W2", "WL", "WR", "
 const isSnapIncrement = (value: unknown): value is SnapIncrementMm =>
   typeof value === "number" && SNAP_INCREMENT_OPTIONS.includes(value as SnapIncrementMm);
 
+const isRuleSetId = (value: unknown): value is RuleSetId => typeof value === "string" && value in RULE_SETS;
+
+const toGradientBand = (value: any): GradientBand | null =>
+  value && isNumber(value.maxRunMm) && isNumber(value.minGradientRatio)
+    ? { maxRunMm: value.maxRunMm, minGradientRatio: value.minGradientRatio }
+    : null;
+
+const normaliseCompliance = (value: any): ComplianceSettings => {
+  if (!value || typeof value !== "object" || !isRuleSetId(value.ruleSetId)) {
+    return { ...DEFAULT_COMPLIANCE_SETTINGS, overrides: {} };
+  }
+
+  const raw = value.overrides && typeof value.overrides === "object" ? value.overrides : {};
+  const overrides: Partial<ComplianceRules> = {};
+  if (isNumber(raw.maxRiseBetweenLandingsMm)) overrides.maxRiseBetweenLandingsMm = raw.maxRiseBetweenLandingsMm;
+  if (isNumber(raw.minLandingLengthMm)) overrides.minLandingLengthMm = raw.minLandingLengthMm;
+  if (isNumber(raw.minClearWidthMm)) overrides.minClearWidthMm = raw.minClearWidthMm;
+  if (Array.isArray(raw.gradientBands)) {
+    overrides.gradientBands = raw.gradientBands.map(toGradientBand).filter((band: GradientBand | null): band is GradientBand => Boolean(band));
+  }
+
+  return { ruleSetId: value.ruleSetId, overrides };
+};
+
+const normaliseProjectInfo = (value: any): ProjectInfo => {
+  const source = value && typeof value === "object" ? value : {};
+  const text = (key: keyof ProjectInfo) => (isString(source[key]) ? source[key] : DEFAULT_PROJECT_INFO[key]);
+  return {
+    name: text("name"),
+    client: text("client"),
+    address: text("address"),
+    designer: text("designer"),
+    revision: text("revision"),
+  };
+};
+
+const isUnderlaySegment = (value: unknown): value is UnderlaySegment =>
+  Array.isArray(value) && value.length === 4 && value.every(isNumber);
+
+const normaliseCalibration = (value: any): UnderlayCalibration | null =>
+  value && ["ax", "ay", "bx", "by", "distanceMm"].every((key) => isNumber(value[key]))
+    ? { ax: value.ax, ay: value.ay, bx: value.bx, by: value.by, distanceMm: value.distanceMm }
+    : null;
+
+const normaliseUnderlayPlacement = (value: any): UnderlayPlacement => ({
+  originXMm: isNumber(value.originXMm) ? value.originXMm : 0,
+  originYMm: isNumber(value.originYMm) ? value.originYMm : 0,
+  anchorX: isNumber(value.anchorX) ? value.anchorX : 0,
+  anchorY: isNumber(value.anchorY) ? value.anchorY : 0,
+  rotationDeg: isNumber(value.rotationDeg) ? value.rotationDeg : 0,
+  scale: isNumber(value.scale) && value.scale > 0 ? value.scale : 1,
+  visible: isBoolean(value.visible) ? value.visible : true,
+  opacity: isNumber(value.opacity) ? Math.min(1, Math.max(0, value.opacity)) : DEFAULT_UNDERLAY_OPACITY,
+  calibration: normaliseCalibration(value.calibration),
+});
+
+const normaliseUnderlay = (value: any): Underlay | null => {
+  if (!value || typeof value !== "object") return null;
+  const fileName = isString(value.fileName) ? value.fileName : "underlay";
+
+  if (value.kind === "image") {
+    if (!isString(value.dataUrl) || !value.dataUrl.startsWith("data:image/")) return null;
+    if (!isNumber(value.widthPx) || !isNumber(value.heightPx) || value.widthPx <= 0 || value.heightPx <= 0) return null;
+    return {
+      kind: "image",
+      fileName,
+      dataUrl: value.dataUrl,
+      widthPx: value.widthPx,
+      heightPx: value.heightPx,
+      ...normaliseUnderlayPlacement(value),
+    };
+  }
+
+  if (value.kind !== "vector" || !Array.isArray(value.segments)) return null;
+  if (value.format !== "dxf" && value.format !== "svg") return null;
+
+  const segments = value.segments.filter(isUnderlaySegment).slice(0, MAX_UNDERLAY_SEGMENTS);
+  if (segments.length === 0) return null;
+
+  return {
+    kind: "vector",
+    fileName,
+    format: value.format,
+    segments,
+    ...normaliseUnderlayPlacement(value),
+  };
+};
+
 const normaliseMeasurements = (value: any, elevationMm: number): MeasurementState => {
   const fallback = (defaultValue: boolean): boolean => (typeof defaultValue === "boolean" ? defaultValue : false);
 
@@ -95,6 +262,27 @@ const normaliseMeasurementOffsets = (value: any): Record<MeasurementKey, number>
   );
 };
 
+const normaliseEdgeFeatures = (value: any): EdgeFeatures => {
+  const source = value && typeof value === "object" ? value : {};
+  const flag = (key: "handrail" | "kerbRail" | "balustrade") => (isBoolean(source[key]) ? source[key] : DEFAULT_EDGE_FEATURES[key]);
+  const size = (key: "handrailHeightMm" | "handrailExtensionStartMm" | "handrailExtensionEndMm" | "kerbRailHeightMm") =>
+    isNumber(source[key]) ? Math.max(0, source[key]) : DEFAULT_EDGE_FEATURES[key];
+  return {
+    handrail: flag("handrail"),
+    handrailHeightMm: size("handrailHeightMm"),
+    handrailExtensionStartMm: size("handrailExtensionStartMm"),
+    handrailExtensionEndMm: size("handrailExtensionEndMm"),
+    kerbRail: flag("kerbRail"),
+    kerbRailHeightMm: size("kerbRailHeightMm"),
+    balustrade: flag("balustrade"),
+  };
+};
+
+const normaliseEdgeFeatureSet = (value: any): EdgeFeatureSet => ({
+  left: normaliseEdgeFeatures(value?.left),
+  right: normaliseEdgeFeatures(value?.right),
+});
+
 const toRamp = (value: any): RampObj | null => {
   if (!value || value.kind !== "ramp" || !isString(value.id) || !isNumber(value.xMm) || !isNumber(value.yMm)) return null;
 
@@ -113,6 +301,10 @@ const toRamp = (value: any): RampObj | null => {
     elevationMm: isNumber(value.elevationMm) ? value.elevationMm : 0,
     rotationDeg: isNumber(value.rotationDeg) ? value.rotationDeg : 0,
     locked: isBoolean(value.locked) ? value.locked : false,
+    name: isString(value.name) ? value.name : "",
+    notes: isString(value.notes) ? value.notes : "",
+    tags: Array.isArray(value.tags) ? normaliseTags(value.tags.filter(isString)) : [],
+    hidden: isBoolean(value.hidden) ? value.hidden : false,
     measurements: normaliseMeasurements(value.measurements, value.elevationMm ?? 0),
     measurementOffsets: normaliseMeasurementOffsets(value.measurementOffsets),
     runMm: isNumber(value.runMm) ? value.runMm : lengthMm,
@@ -121,6 +313,8 @@ const toRamp = (value: any): RampObj | null => {
     leftWingSizeMm: isNumber(value.leftWingSizeMm) ? value.leftWingSizeMm : 0,
     hasRightWing: isBoolean(value.hasRightWing) ? value.hasRightWing : false,
     rightWingSizeMm: isNumber(value.rightWingSizeMm) ? value.rightWingSizeMm : 0,
+    lockedRatio: isNumber(value.lockedRatio) && value.lockedRatio > 0 ? value.lockedRatio : null,
+    edges: normaliseEdgeFeatureSet(value.edges),
   };
 };
 
@@ -153,13 +347,52 @@ const toLanding = (value: any): LandingObj | null => {
     elevationMm: isNumber(value.elevationMm) ? value.elevationMm : 0,
     rotationDeg: isNumber(value.rotationDeg) ? value.rotationDeg : 0,
     locked: isBoolean(value.locked) ? value.locked : false,
+    name: isString(value.name) ? value.name : "",
+    notes: isString(value.notes) ? value.notes : "",
+    tags: Array.isArray(value.tags) ? normaliseTags(value.tags.filter(isString)) : [],
+    hidden: isBoolean(value.hidden) ? value.hidden : false,
+    measurements: normaliseMeasurements(value.measurements, value.elevationMm ?? 0),
+    measurementOffsets: normaliseMeasurementOffsets(value.measurementOffsets),
+    edges: normaliseEdgeFeatureSet(value.edges),
+  };
+};
+
+const toStairs = (value: any): StairsObj | null => {
+  if (!value || value.kind !== "stairs" || !isString(value.id) || !isNumber(value.xMm) || !isNumber(value.yMm)) return null;
+
+  const riserCount = isNumber(value.riserCount) ? Math.max(1, Math.round(value.riserCount)) : DEFAULT_STAIRS_RISER_COUNT;
+  // The same limits the Inspector applies, so a hand-edited file cannot hold a flight it could not make.
+  const riserHeightMm = isNumber(value.riserHeightMm) ? clampInt(value.riserHeightMm, 0) : DEFAULT_STAIRS_RISER_HEIGHT_MM;
+  const goingMm = isNumber(value.goingMm) ? clampInt(value.goingMm, 0) : DEFAULT_STAIRS_GOING_MM;
+
+  return {
+    id: value.id,
+    kind: "stairs",
+    xMm: value.xMm,
+    yMm: value.yMm,
+    lengthMm: riserCount * goingMm,
+    widthMm: isNumber(value.widthMm) ? value.widthMm : DEFAULT_STAIRS_WIDTH_MM,
+    heightMm: riserCount * riserHeightMm,
+    elevationMm: isNumber(value.elevationMm) ? value.elevationMm : 0,
+    rotationDeg: isNumber(value.rotationDeg) ? value.rotationDeg : 0,
+    locked: isBoolean(value.locked) ? value.locked : false,
+    name: isString(value.name) ? value.name : "",
+    notes: isString(value.notes) ? value.notes : "",
+    tags: Array.isArray(value.tags) ? normaliseTags(value.tags.filter(isString)) : [],
+    hidden: isBoolean(value.hidden) ? value.hidden : false,
     measurements: normaliseMeasurements(value.measurements, value.elevationMm ?? 0),
     measurementOffsets: normaliseMeasurementOffsets(value.measurementOffsets),
+    showArrow: isBoolean(value.showArrow) ? value.showArrow : true,
+    riserCount,
+    riserHeightMm,
+    goingMm,
+    nosingMm: clampInt(isNumber(value.nosingMm) ? value.nosingMm : DEFAULT_STAIRS_NOSING_MM, 0, goingMm),
   };
 };
 
 const toObject2D = (value: any): Object2D | null => {
   if (value?.kind === "ramp") return toRamp(value);
+  if (value?.kind === "stairs") return toStairs(value);
   if (value?.kind === "landing" || value?.kind === "platform") return toLanding(value);
   return null;
 };
@@ -173,13 +406,132 @@ const cloneMeasurementOffsets = (value: Record<MeasurementKey, number>): Record<
     {} as Record<MeasurementKey, number>,
   );
 
-const cloneObject = (obj: Object2D): Object2D =>
-  obj.kind === "ramp"
-    ? { ...obj, measurements: cloneMeasurements(obj.measurements), measurementOffsets: cloneMeasurementOffsets(obj.measurementOffsets) }
-    : { ...obj, measurements: cloneMeasurements(obj.measurements), measurementOffsets: cloneMeasurementOffsets(obj.measurementOffsets) };
+const cloneObject = (obj: Object2D): Object2D => {
+  const clone = {
+    ...obj,
+    tags: [...obj.tags],
+    measurements: cloneMeasurements(obj.measurements),
+    measurementOffsets: cloneMeasurementOffsets(obj.measurementOffsets),
+  };
+  return clone.kind === "stairs" ? clone : { ...clone, edges: { left: { ...clone.edges.left }, right: { ...clone.edges.right } } };
+};
+
+/** Validates and copies one object from untrusted JSON (a saved project or the clipboard). */
+export const normaliseObject = (value: unknown): Object2D | null => {
+  const obj = toObject2D(value);
+  return obj ? cloneObject(obj) : null;
+};
+
+/** Keeps groups with at least two members that exist, each object in the first group that claims it. */
+export const normaliseGroups = (value: unknown, objects: Object2D[]): ObjectGroup[] => {
+  if (!Array.isArray(value)) return [];
+  const claimed = new Set<string>();
+  return value.flatMap((group: any): ObjectGroup[] => {
+    if (!group || !isString(group.id) || !Array.isArray(group.memberIds)) return [];
+    const memberIds = group.memberIds.filter(
+      (id: unknown): id is string => isString(id) && !claimed.has(id) && objects.some((obj) => obj.id === id),
+    );
+    const uniqueIds = memberIds.filter((id: string, idx: number) => memberIds.indexOf(id) === idx);
+    if (uniqueIds.length < 2) return [];
+    uniqueIds.forEach((id: string) => claimed.add(id));
+    return [
+      {
+        id: group.id,
+        name: isString(group.name) && group.name.trim() ? group.name : "Group",
+        memberIds: uniqueIds,
+        collapsed: isBoolean(group.collapsed) ? group.collapsed : false,
+      },
+    ];
+  });
+};
+
+/** Fields that change what is built, so defaulting them counts as a repair rather than a quiet upgrade. */
+const requiredFields: Record<ObjectKind, string[]> = {
+  ramp: ["lengthMm", "widthMm", "heightMm"],
+  landing: ["lengthMm", "widthMm", "heightMm"],
+  stairs: ["widthMm", "riserCount", "riserHeightMm", "goingMm"],
+};
 
-const isPersistedEnvelope = (value: any): value is PersistedEnvelope =>
-  value && isNumber(value.schemaVersion) && isNumber(value.savedAt) && value.data;
+/** Older names a field was saved under; reading one of these is a migration, not a repair. */
+const legacyFieldNames: Record<string, string> = {
+  lengthMm: "runMm",
+  heightMm: "thicknessMm",
+};
+
+const isSameValue = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, idx) => isSameValue(item, b[idx]));
+  }
+  if (!a || !b || typeof a !== "object" || typeof b !== "object") return false;
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  const keys = Object.keys(right);
+  return Object.keys(left).length === keys.length && keys.every((key) => isSameValue(left[key], right[key]));
+};
+
+/**
+ * Fields whose saved value was replaced: anything saved but not kept as is, plus required fields
+ * that were missing. Optional fields added by later versions are filled in without comment, and
+ * legacy shapes (a "platform" kind, `enabled`/`sides` measurements) are migrations rather than repairs.
+ */
+const getRepairedFields = (value: any, obj: Object2D): string[] =>
+  (Object.keys(obj) as (keyof Object2D)[]).filter((key) => {
+    if (key === "kind") return false;
+    if (key === "measurements" && value.measurements?.enabled) return false;
+    if (value[key] !== undefined) return !isSameValue(value[key], obj[key]);
+    return requiredFields[obj.kind].includes(key) && !isNumber(value[legacyFieldNames[key]]);
+  });
+
+const getDropReason = (value: any): string => {
+  if (!value || typeof value !== "object") return "not an object";
+  if (!isString(value.kind)) return "no kind";
+  if (!["ramp", "landing", "platform", "stairs"].includes(value.kind)) return `unknown kind "${value.kind}"`;
+  if (!isString(value.id)) return "no id";
+  return "no position";
+};
+
+type ReadObjects = {
+  objects: Object2D[];
+  dropped: DroppedObject[];
+  repaired: RepairedObject[];
+};
+
+/** Reads each saved object, keeping the first of any that share an id. */
+const readObjects = (values: unknown[]): ReadObjects =>
+  values.reduce<ReadObjects>(
+    (acc, value: any, index) => {
+      const obj = normaliseObject(value);
+      const id = isString(value?.id) ? value.id : null;
+      const kind = isString(value?.kind) ? value.kind : null;
+      if (!obj) return { ...acc, dropped: [...acc.dropped, { index, id, kind, reason: getDropReason(value) }] };
+      if (acc.objects.some((existing) => existing.id === obj.id)) {
+        return { ...acc, dropped: [...acc.dropped, { index, id, kind, reason: "duplicate id" }] };
+      }
+      const fields = getRepairedFields(value, obj);
+      return {
+        objects: [...acc.objects, obj],
+        dropped: acc.dropped,
+        repaired: fields.length > 0 ? [...acc.repaired, { id: obj.id, kind: obj.kind, fields }] : acc.repaired,
+      };
+    },
+    { objects: [], dropped: [], repaired: [] },
+  );
+
+const isPersistedEnvelope = (value: any): value is PersistedEnvelope & { data: RawProjectData } =>
+  value && isNumber(value.schemaVersion) && isNumber(value.savedAt) && value.data && typeof value.data === "object";
+
+const parseEnvelope = (raw: string): (PersistedEnvelope & { data: RawProjectData }) | null => {
+  try {
+    const parsed = JSON.parse(raw);
+    return isPersistedEnvelope(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+/** The schema version a stored payload was saved with, or null when it is not a project at all. */
+export const getPayloadSchemaVersion = (raw: string): number | null => parseEnvelope(raw)?.schemaVersion ?? null;
 
 const normaliseTool = (value: any): Tool | null => {
   if (isTool(value)) return value;
@@ -187,78 +539,259 @@ const normaliseTool = (value: any): Tool | null => {
   return null;
 };
 
-const normaliseProject = (value: any, schemaVersion: number): PersistedProject | null => {
-  if (!value || !isMode(value.mode)) return null;
-  const activeTool = normaliseTool(value.activeTool);
-  if (!activeTool) return null;
-  if (!Array.isArray(value.objects)) return null;
-
-  const snapToGrid =
-    schemaVersion <= 1 ? Boolean(value.snapOn) : isBoolean(value.snapToGrid) ? value.snapToGrid : true;
-  const snapToObjects =
-    schemaVersion <= 1 ? Boolean(value.snapOn) : isBoolean(value.snapToObjects) ? value.snapToObjects : true;
-
-  const snapIncrementMm =
-    schemaVersion <= 1
-      ? DEFAULT_SNAP_INCREMENT_MM
-      : isSnapIncrement(value.snapIncrementMm)
-        ? value.snapIncrementMm
-        : DEFAULT_SNAP_INCREMENT_MM;
-
-  const objects = value.objects
-    .map(toObject2D)
-    .filter((obj): obj is Object2D => Boolean(obj))
-    .map((obj) => cloneObject(obj));
+type ReadSnapshot = {
+  snapshot: Snapshot;
+  report: ProjectImportReport;
+};
 
-  const selectedId = value.selectedId === null || isString(value.selectedId) ? value.selectedId ?? null : null;
+/** Validates snapshot data already migrated to `SCHEMA_VERSION`; `schemaVersion` is what it was saved as. */
+const readSnapshot = (value: any, schemaVersion: number): ReadSnapshot | null => {
+  if (!value || !Array.isArray(value.objects)) return null;
+
+  const snapToGrid = isBoolean(value.snapToGrid) ? value.snapToGrid : true;
+  const snapToObjects = isBoolean(value.snapToObjects) ? value.snapToObjects : true;
+  const snapIncrementMm = isSnapIncrement(value.snapIncrementMm) ? value.snapIncrementMm : DEFAULT_SNAP_INCREMENT_MM;
+  const cascadeLevels = isBoolean(value.cascadeLevels) ? value.cascadeLevels : true;
+  const showLabels = isBoolean(value.showLabels) ? value.showLabels : false;
+
+  const { objects, dropped, repaired } = readObjects(value.objects);
+  const groups = normaliseGroups(value.groups, objects);
+  const savedGroupCount = Array.isArray(value.groups) ? value.groups.length : 0;
+
+  // Projects saved before multi-selection kept a single `selectedId`.
+  const savedSelection: unknown[] = Array.isArray(value.selectedIds)
+    ? value.selectedIds
+    : isString(value.selectedId)
+      ? [value.selectedId]
+      : [];
+  const selectedIds = savedSelection.filter(
+    (id, idx): id is string => isString(id) && savedSelection.indexOf(id) === idx && objects.some((obj) => obj.id === id),
+  );
 
   return {
-    mode: value.mode,
-    activeTool,
-    snapToGrid,
-    snapToObjects,
-    snapIncrementMm,
-    objects,
-    selectedId,
+    snapshot: {
+      snapToGrid,
+      snapToObjects,
+      snapIncrementMm,
+      cascadeLevels,
+      compliance: normaliseCompliance(value.compliance),
+      projectInfo: normaliseProjectInfo(value.projectInfo),
+      underlay: normaliseUnderlay(value.underlay),
+      objects,
+      groups,
+      selectedIds,
+      showLabels,
+    },
+    report: { schemaVersion, dropped, repaired, droppedGroups: savedGroupCount - groups.length },
   };
 };
 
-const cloneProject = (data: PersistedProject): PersistedProject => ({
+/** A snapshot plus the editor mode and tool it was saved in. */
+const readProject = (value: any, schemaVersion: number): ProjectFileImport | null => {
+  if (!value || !isMode(value.mode)) return null;
+  const activeTool = normaliseTool(value.activeTool);
+  if (!activeTool) return null;
+  const read = readSnapshot(value, schemaVersion);
+  return read ? { project: { mode: value.mode, activeTool, ...read.snapshot }, report: read.report } : null;
+};
+
+const cloneProject = <T extends Snapshot>(data: T): T => ({
   ...data,
+  projectInfo: { ...data.projectInfo },
+  groups: data.groups.map((group) => ({ ...group, memberIds: [...group.memberIds] })),
+  selectedIds: [...data.selectedIds],
+  // Segments are never mutated in place, so the array is shared rather than copied.
+  underlay: data.underlay
+    ? { ...data.underlay, calibration: data.underlay.calibration ? { ...data.underlay.calibration } : null }
+    : null,
+  compliance: {
+    ruleSetId: data.compliance.ruleSetId,
+    overrides: {
+      ...data.compliance.overrides,
+      ...(data.compliance.overrides.gradientBands
+        ? { gradientBands: data.compliance.overrides.gradientBands.map((band) => ({ ...band })) }
+        : {}),
+    },
+  },
   objects: data.objects.map((obj) => cloneObject(obj)),
 });
 
-export function saveProject(state: PersistedProject) {
-  if (!hasLocalStorage()) return;
-
-  const payload: PersistedEnvelope = {
-    schemaVersion: SCHEMA_VERSION,
-    savedAt: Date.now(),
-    data: cloneProject(state),
-  };
+const createEnvelope = (state: PersistedProject): PersistedEnvelope => ({
+  schemaVersion: SCHEMA_VERSION,
+  savedAt: Date.now(),
+  data: cloneProject(state),
+});
 
+/** The stored form of a project, as the project library keeps it. */
+export const serialiseProject = (state: PersistedProject): string => JSON.stringify(createEnvelope(state));
+
+/**
+ * Reads a stored project, migrating it if it is older. Returns null when it is damaged, but throws
+ * for one saved by a newer build, so it is reported and left alone rather than replaced.
+ */
+export function deserialiseProject(raw: string): PersistedProject | null {
+  const parsed = parseEnvelope(raw);
+  if (!parsed) return null;
+  assertSupportedSchemaVersion(parsed.schemaVersion);
   try {
-    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(payload));
+    const read = readProject(migrateProjectData(parsed.data, parsed.schemaVersion), parsed.schemaVersion);
+    return read ? cloneProject(read.project) : null;
   } catch (error) {
-    console.warn("Failed to persist project", error);
+    console.warn("Failed to restore project", error);
+    return null;
   }
 }
 
-export function loadProject(): PersistedProject | null {
+/** The heavy part of an underlay: its segments or image. Steps share it by reference until it is replaced. */
+type UnderlayContent = UnderlaySegment[] | string;
+
+const getUnderlayContent = (underlay: Underlay): UnderlayContent =>
+  underlay.kind === "vector" ? underlay.segments : underlay.dataUrl;
+
+const withUnderlayContent = (underlay: Underlay, content: UnderlayContent): Underlay => {
+  if (underlay.kind === "vector") return Array.isArray(content) ? { ...underlay, segments: content } : underlay;
+  return isString(content) ? { ...underlay, dataUrl: content } : underlay;
+};
+
+/**
+ * The undo and redo steps to store with a project, in the envelope projects use. Each distinct
+ * underlay content is written once and referred to by index, since every step usually has the same
+ * one. Steps past `MAX_HISTORY_CHARS` are left out.
+ */
+export const serialiseHistory = ({ past, future }: HistoryStacks): string => {
+  const contents: UnderlayContent[] = [];
+  const contentJson: string[] = [];
+  let remaining = MAX_HISTORY_CHARS;
+
+  const toEntryJson = (snapshot: Snapshot): string | null => {
+    let entry: unknown = snapshot;
+    let newContent: string | null = null;
+    if (snapshot.underlay) {
+      const content = getUnderlayContent(snapshot.underlay);
+      let index = contents.indexOf(content);
+      if (index === -1) {
+        index = contents.length;
+        newContent = JSON.stringify(content);
+      }
+      const { underlay } = snapshot;
+      const reference = underlay.kind === "vector" ? { ...underlay, segments: undefined } : { ...underlay, dataUrl: undefined };
+      entry = { ...snapshot, underlay: { ...reference, content: index } };
+    }
+    const json = JSON.stringify(entry);
+    const size = json.length + (newContent?.length ?? 0);
+    if (size > remaining) return null;
+    remaining -= size;
+    if (newContent !== null && snapshot.underlay) {
+      contents.push(getUnderlayContent(snapshot.underlay));
+      contentJson.push(newContent);
+    }
+    return json;
+  };
+
+  // Nearest steps first, so it is the oldest undo and furthest redo steps that miss out.
+  const pastJson: string[] = [];
+  for (let idx = past.length - 1; idx >= 0; idx -= 1) {
+    const json = toEntryJson(past[idx]);
+    if (json === null) break;
+    pastJson.unshift(json);
+  }
+  const futureJson: string[] = [];
+  for (const snapshot of future) {
+    const json = toEntryJson(snapshot);
+    if (json === null) break;
+    futureJson.push(json);
+  }
+
+  // Put together from the pieces already written, rather than stringifying every step twice.
+  const data = `{"contents":[${contentJson.join(",")}],"past":[${pastJson.join(",")}],"future":[${futureJson.join(",")}]}`;
+  return `{"schemaVersion":${SCHEMA_VERSION},"savedAt":${Date.now()},"data":${data}}`;
+};
+
+/**
+ * Reads stored undo and redo steps, migrating them like a project. A step that can't be read ends
+ * the stack there, since undoing across a gap would skip edits. Returns null when none can be used.
+ */
+export const deserialiseHistory = (raw: string): HistoryStacks | null => {
+  const parsed = parseEnvelope(raw);
+  if (!parsed || parsed.schemaVersion > SCHEMA_VERSION) return null;
+  const { contents, past, future } = parsed.data as { contents?: unknown; past?: unknown; future?: unknown };
+  if (!Array.isArray(contents) || !Array.isArray(past) || !Array.isArray(future)) return null;
+
+  // Steps that shared an underlay share it again, rather than each holding its own copy.
+  const sharedContents = new Map<number, UnderlayContent>();
+  const readEntry = (entry: any): Snapshot | null => {
+    if (!entry || typeof entry !== "object") return null;
+    const contentIndex = isNumber(entry.underlay?.content) ? entry.underlay.content : null;
+    const content = contentIndex === null ? undefined : contents[contentIndex];
+    const value =
+      content === undefined
+        ? entry
+        : { ...entry, underlay: { ...entry.underlay, [entry.underlay.kind === "vector" ? "segments" : "dataUrl"]: content } };
+    let read: ReadSnapshot | null = null;
+    try {
+      read = readSnapshot(migrateProjectData(value, parsed.schemaVersion), parsed.schemaVersion);
+    } catch {
+      return null;
+    }
+    if (!read) return null;
+    const { snapshot } = read;
+    if (snapshot.underlay && contentIndex !== null) {
+      const shared = sharedContents.get(contentIndex);
+      if (shared === undefined) {
+        sharedContents.set(contentIndex, getUnderlayContent(snapshot.underlay));
+      } else {
+        snapshot.underlay = withUnderlayContent(snapshot.underlay, shared);
+      }
+    }
+    return cloneProject(snapshot);
+  };
+
+  const pastSnapshots: Snapshot[] = [];
+  for (let idx = past.length - 1; idx >= 0; idx -= 1) {
+    const snapshot = readEntry(past[idx]);
+    if (!snapshot) break;
+    pastSnapshots.unshift(snapshot);
+  }
+  const futureSnapshots: Snapshot[] = [];
+  for (const entry of future) {
+    const snapshot = readEntry(entry);
+    if (!snapshot) break;
+    futureSnapshots.push(snapshot);
+  }
+  return pastSnapshots.length > 0 || futureSnapshots.length > 0 ? { past: pastSnapshots, future: futureSnapshots } : null;
+};
+
+/** The raw payload in the pre-library autosave slot, if there is one. */
+export function loadLegacyPayload(): string | null {
   if (!hasLocalStorage()) return null;
+  return window.localStorage.getItem(STORAGE_KEY);
+}
+
+export function clearLegacyProject() {
+  if (!hasLocalStorage()) return;
+  window.localStorage.removeItem(STORAGE_KEY);
+}
 
-  const raw = window.localStorage.getItem(STORAGE_KEY);
-  if (!raw) return null;
+/** The project as a standalone `.obproj.json` file: the same envelope autosave writes, indented. */
+export const createProjectFile = (state: PersistedProject): string => `${JSON.stringify(createEnvelope(state), null, 2)}\n`;
 
+/**
+ * Reads a project file through the same migration as autosave. Throws with a message for the
+ * user when the file is not a project at all; objects that cannot be used are reported instead.
+ */
+export const parseProjectFile = (text: string): ProjectFileImport => {
+  let parsed: unknown;
   try {
-    const parsed = JSON.parse(raw);
-    if (!isPersistedEnvelope(parsed)) return null;
-    if (parsed.schemaVersion > SCHEMA_VERSION) return null;
-    const normalised = normaliseProject(parsed.data, parsed.schemaVersion);
-    if (!normalised) return null;
-    return cloneProject(normalised);
-  } catch (error) {
-    console.warn("Failed to restore project", error);
-    return null;
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("This file is not valid JSON.");
   }
-}
+  if (!isPersistedEnvelope(parsed)) {
+    throw new Error("This is not an Occupational Builder project file.");
+  }
+  const read = readProject(migrateProjectData(parsed.data, parsed.schemaVersion), parsed.schemaVersion);
+  if (!read) {
+    throw new Error("The project data is missing or damaged beyond repair.");
+  }
+  return { project: cloneProject(read.project), report: read.report };
+};
@@ -1,4 +1,4 @@
-export type Tool = "none" | "ramp" | "landing" | "delete";
+export type Tool = "none" | "ramp" | "landing" | "stairs" | "delete";
 
 export type ObjectKind = "ramp" | "landing" | "stairs";
 
@@ -17,10 +17,36 @@ export type BaseObj = {
   elevationMm: number;
   rotationDeg: number;
   locked: boolean;
+  /** User-facing label; empty means the outliner shows a numbered default such as "Ramp 2". */
+  name: string;
+  /** Free-text remarks such as "existing concrete, verify level on site". */
+  notes: string;
+  /** Short trimmed keywords, without duplicates. */
+  tags: string[];
+  /** Hidden objects are left off the plan, the 3D preview and exports, but still checked for compliance. */
+  hidden: boolean;
   measurements: MeasurementState;
   measurementOffsets: Record<MeasurementKey, number>;
 };
 
+export type EdgeSide = "left" | "right";
+
+/**
+ * Edge treatments along one long side of a ramp or landing. "left" is the side at local -y, matching
+ * the ramp wings; handrail extensions run past the start (local -x, the low end of a ramp) and end.
+ */
+export type EdgeFeatures = {
+  handrail: boolean;
+  handrailHeightMm: number;
+  handrailExtensionStartMm: number;
+  handrailExtensionEndMm: number;
+  kerbRail: boolean;
+  kerbRailHeightMm: number;
+  balustrade: boolean;
+};
+
+export type EdgeFeatureSet = Record<EdgeSide, EdgeFeatures>;
+
 export type RampObj = BaseObj & {
   kind: "ramp";
   showArrow: boolean;
@@ -29,20 +55,126 @@ export type RampObj = BaseObj & {
   hasRightWing: boolean;
   rightWingSizeMm: number;
   runMm: number;
+  /** Run per unit of rise (the x of 1:x) held while resizing; null when the gradient is free. */
+  lockedRatio: number | null;
+  edges: EdgeFeatureSet;
 };
 
 export type LandingObj = BaseObj & {
   kind: "landing";
+  edges: EdgeFeatureSet;
 };
 
-export type Object2D = RampObj | LandingObj;
+export type StairsObj = BaseObj & {
+  kind: "stairs";
+  showArrow: boolean;
+  riserCount: number;
+  riserHeightMm: number;
+  goingMm: number;
+  nosingMm: number;
+};
+
+export type Object2D = RampObj | LandingObj | StairsObj;
+
+/**
+ * Named assembly of objects (such as a switchback run) that is selected, moved and rotated as one.
+ * Each object belongs to at most one group; a group is locked when all of its members are.
+ */
+export type ObjectGroup = {
+  id: string;
+  name: string;
+  memberIds: string[];
+  /** Members hidden under the group's row in the outliner. */
+  collapsed: boolean;
+};
 
 export type SnapIncrementMm = 1 | 10 | 100 | 1000;
 
+export type GradientBand = {
+  maxRunMm: number;
+  minGradientRatio: number;
+};
+
+export type ComplianceRules = {
+  gradientBands: GradientBand[];
+  maxRiseBetweenLandingsMm: number;
+  minLandingLengthMm: number;
+  minClearWidthMm: number;
+};
+
+export type RuleSetId = "as1428" | "residential";
+
+export type ComplianceSettings = {
+  ruleSetId: RuleSetId;
+  overrides: Partial<ComplianceRules>;
+};
+
+export type ProjectInfo = {
+  name: string;
+  client: string;
+  address: string;
+  designer: string;
+  revision: string;
+};
+
+/** One straight piece of underlay line work in the source file's units: [x1, y1, x2, y2], y growing downwards. */
+export type UnderlaySegment = [number, number, number, number];
+
+/** Two picked source points and the real distance between them, as last used to set the scale. */
+export type UnderlayCalibration = {
+  ax: number;
+  ay: number;
+  bx: number;
+  by: number;
+  distanceMm: number;
+};
+
+/**
+ * Places an underlay in the plan: the source point `anchor` lands on `origin`, then the drawing is
+ * scaled (millimetres per source unit) and rotated about it.
+ */
+export type UnderlayPlacement = {
+  originXMm: number;
+  originYMm: number;
+  anchorX: number;
+  anchorY: number;
+  rotationDeg: number;
+  scale: number;
+  visible: boolean;
+  opacity: number;
+  calibration: UnderlayCalibration | null;
+};
+
+export type VectorUnderlay = UnderlayPlacement & {
+  kind: "vector";
+  fileName: string;
+  format: "dxf" | "svg";
+  segments: UnderlaySegment[];
+};
+
+/** A raster plan or sketch; its source units are image pixels. */
+export type ImageUnderlay = UnderlayPlacement & {
+  kind: "image";
+  fileName: string;
+  dataUrl: string;
+  widthPx: number;
+  heightPx: number;
+};
+
+export type Underlay = VectorUnderlay | ImageUnderlay;
+
 export type Snapshot = {
   snapToGrid: boolean;
   snapToObjects: boolean;
   snapIncrementMm: SnapIncrementMm;
+  /** Elevation or height edits in the Inspector carry through to connected objects above. */
+  cascadeLevels: boolean;
+  compliance: ComplianceSettings;
+  projectInfo: ProjectInfo;
+  underlay: Underlay | null;
   objects: Object2D[];
-  selectedId: string | null;
+  groups: ObjectGroup[];
+  selectedIds: string[];
+  /** Draw each object's name, tags and notes as a callout on the 2D plan. */
+  showLabels: boolean;
 };
@@ -0,0 +1,121 @@
+import { LineSegmentMm, PointMm } from "./geometry";
+import { ImageUnderlay, Underlay, UnderlayPlacement, UnderlaySegment, VectorUnderlay } from "./types";
+import { pxToMm } from "./units";
+
+/** Keeps autosave well inside the localStorage quota; typical site plans come in far below this. */
+export const MAX_UNDERLAY_SEGMENTS = 20000;
+
+export const DEFAULT_UNDERLAY_OPACITY = 0.6;
+
+export type ParsedVectorDrawing = {
+  segments: UnderlaySegment[];
+  /** Millimetres per source unit implied by the file's own unit settings. */
+  unitScaleMm: number;
+};
+
+const getSegmentsCentre = (segments: UnderlaySegment[]) => {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  segments.forEach(([x1, y1, x2, y2]) => {
+    minX = Math.min(minX, x1, x2);
+    minY = Math.min(minY, y1, y2);
+    maxX = Math.max(maxX, x1, x2);
+    maxY = Math.max(maxY, y1, y2);
+  });
+  return segments.length > 0 ? { x: (minX + maxX) / 2, y: (minY + maxY) / 2 } : { x: 0, y: 0 };
+};
+
+/** New underlays arrive centred on the plan origin at the file's native scale. */
+export const createVectorUnderlay = (fileName: string, format: VectorUnderlay["format"], parsed: ParsedVectorDrawing): VectorUnderlay => {
+  const segments = parsed.segments.slice(0, MAX_UNDERLAY_SEGMENTS);
+  const centre = getSegmentsCentre(segments);
+  return {
+    kind: "vector",
+    fileName,
+    format,
+    segments,
+    originXMm: 0,
+    originYMm: 0,
+    anchorX: centre.x,
+    anchorY: centre.y,
+    rotationDeg: 0,
+    scale: parsed.unitScaleMm,
+    visible: true,
+    opacity: DEFAULT_UNDERLAY_OPACITY,
+    calibration: null,
+  };
+};
+
+/** Images start at one image pixel per canvas pixel until calibrated. */
+export const createImageUnderlay = (fileName: string, dataUrl: string, widthPx: number, heightPx: number): ImageUnderlay => ({
+  kind: "image",
+  fileName,
+  dataUrl,
+  widthPx,
+  heightPx,
+  originXMm: 0,
+  originYMm: 0,
+  anchorX: widthPx / 2,
+  anchorY: heightPx / 2,
+  rotationDeg: 0,
+  scale: pxToMm(1),
+  visible: true,
+  opacity: DEFAULT_UNDERLAY_OPACITY,
+  calibration: null,
+});
+
+export const underlayToWorldMm = (placement: UnderlayPlacement, x: number, y: number): PointMm => {
+  const rad = (placement.rotationDeg * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const localX = (x - placement.anchorX) * placement.scale;
+  const localY = (y - placement.anchorY) * placement.scale;
+  return {
+    xMm: placement.originXMm + localX * cos - localY * sin,
+    yMm: placement.originYMm + localX * sin + localY * cos,
+  };
+};
+
+export const worldToUnderlay = (placement: UnderlayPlacement, point: PointMm): { x: number; y: number } => {
+  const rad = (placement.rotationDeg * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const dx = point.xMm - placement.originXMm;
+  const dy = point.yMm - placement.originYMm;
+  return {
+    x: placement.anchorX + (dx * cos + dy * sin) / placement.scale,
+    y: placement.anchorY + (-dx * sin + dy * cos) / placement.scale,
+  };
+};
+
+/**
+ * Rescales an underlay so the two picked plan points end up `distanceMm` apart. The first point
+ * becomes the anchor, so it stays where it was clicked while the rest of the drawing grows or shrinks.
+ */
+export const calibrateUnderlay = <T extends Underlay>(underlay: T, firstMm: PointMm, secondMm: PointMm, distanceMm: number): T | null => {
+  const a = worldToUnderlay(underlay, firstMm);
+  const b = worldToUnderlay(underlay, secondMm);
+  const sourceDistance = Math.hypot(b.x - a.x, b.y - a.y);
+  if (sourceDistance === 0 || !(distanceMm > 0)) return null;
+
+  return {
+    ...underlay,
+    anchorX: a.x,
+    anchorY: a.y,
+    originXMm: firstMm.xMm,
+    originYMm: firstMm.yMm,
+    scale: distanceMm / sourceDistance,
+    calibration: { ax: a.x, ay: a.y, bx: b.x, by: b.y, distanceMm },
+  };
+};
+
+/** Visible underlay line work in plan millimetres, used as snap targets. */
+export const getUnderlaySnapSegmentsMm = (underlay: Underlay | null): LineSegmentMm[] => {
+  if (!underlay || underlay.kind !== "vector" || !underlay.visible) return [];
+  return underlay.segments.map(([x1, y1, x2, y2]) => ({
+    start: underlayToWorldMm(underlay, x1, y1),
+    end: underlayToWorldMm(underlay, x2, y2),
+  }));
+};
@@ -0,0 +1,380 @@
+import { createPlanThumbnail } from "../export/thumbnail";
+import { makeId } from "../model/defaults";
+import type { HistoryStacks } from "../model/history";
+import { SCHEMA_VERSION } from "../model/migrations";
+import {
+  clearLegacyProject,
+  deserialiseHistory,
+  deserialiseProject,
+  getPayloadSchemaVersion,
+  loadLegacyPayload,
+  serialiseHistory,
+  serialiseProject,
+  type PersistedProject,
+} from "../model/storage";
+
+/** What the library lists for each project, kept apart from the project itself so listing stays cheap. */
+export type ProjectSummary = {
+  id: string;
+  name: string;
+  client: string;
+  address: string;
+  createdAt: number;
+  modifiedAt: number;
+  objectCount: number;
+  /** Outline plan as an SVG data URL, or "" for an empty project. */
+  thumbnail: string;
+};
+
+type ProjectRecord = {
+  id: string;
+  /** The same serialised envelope the single-slot autosave used, so it runs through the same migrations. */
+  payload: string;
+  /** Undo and redo steps, stored with the project so they survive a reload. */
+  history?: string;
+};
+
+/** A stored payload as it was before it was first migrated, kept in case a migration loses something. */
+type ProjectBackup = {
+  /** `<projectId>@v<schemaVersion>`: one backup per project per format it was stored in. */
+  key: string;
+  projectId: string;
+  schemaVersion: number;
+  backedUpAt: number;
+  payload: string;
+};
+
+/** A timestamped copy of a project to go back to. Listed without its payload. */
+export type ProjectRevision = {
+  id: string;
+  projectId: string;
+  createdAt: number;
+  /** "auto" revisions are taken while editing and roll over; "manual" ones are kept. */
+  kind: "auto" | "manual";
+  label: string;
+  objectCount: number;
+  thumbnail: string;
+};
+
+type RevisionRecord = ProjectRevision & { payload: string };
+
+const DB_NAME = "occupational_builder";
+// v2 added the backup store, v3 the revision store.
+const DB_VERSION = 3;
+const SUMMARY_STORE = "projectSummaries";
+const PROJECT_STORE = "projects";
+const BACKUP_STORE = "projectBackups";
+const REVISION_STORE = "projectRevisions";
+/** Automatic revisions kept per project; the oldest go first. */
+export const MAX_AUTO_REVISIONS = 20;
+/** How often, at most, an automatic revision is taken while a project is being edited. */
+export const AUTO_REVISION_INTERVAL_MS = 5 * 60 * 1000;
+/** Which project was open last, so a reload comes back to it. */
+const CURRENT_PROJECT_KEY = "occupational_builder_current_project";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("The project library write was aborted."));
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("This browser has no IndexedDB, so projects cannot be stored."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SUMMARY_STORE)) db.createObjectStore(SUMMARY_STORE, { keyPath: "id" });
+        if (!db.objectStoreNames.contains(PROJECT_STORE)) db.createObjectStore(PROJECT_STORE, { keyPath: "id" });
+        if (!db.objectStoreNames.contains(BACKUP_STORE)) {
+          db.createObjectStore(BACKUP_STORE, { keyPath: "key" }).createIndex("projectId", "projectId");
+        }
+        if (!db.objectStoreNames.contains(REVISION_STORE)) {
+          db.createObjectStore(REVISION_STORE, { keyPath: "id" }).createIndex("projectId", "projectId");
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again rather than caching the failure.
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+/** Ids are made up front, so a new project can be worked on before its first save lands. */
+export const newProjectId = (): string => makeId().replace(/^obj-/, "project-");
+
+const summarise = (id: string, project: PersistedProject, createdAt: number, modifiedAt: number): ProjectSummary => ({
+  id,
+  name: project.projectInfo.name,
+  client: project.projectInfo.client,
+  address: project.projectInfo.address,
+  createdAt,
+  modifiedAt,
+  objectCount: project.objects.length,
+  thumbnail: createPlanThumbnail(project.objects),
+});
+
+const putProject = async (summary: ProjectSummary, project: PersistedProject, history?: string): Promise<ProjectSummary> => {
+  const db = await openDatabase();
+  const tx = db.transaction([SUMMARY_STORE, PROJECT_STORE], "readwrite");
+  const record: ProjectRecord = { id: summary.id, payload: serialiseProject(project), history };
+  tx.objectStore(SUMMARY_STORE).put(summary);
+  tx.objectStore(PROJECT_STORE).put(record);
+  await transactionDone(tx);
+  return summary;
+};
+
+const getSummary = async (id: string): Promise<ProjectSummary | null> => {
+  const db = await openDatabase();
+  const summary = await requestToPromise<ProjectSummary | undefined>(
+    db.transaction(SUMMARY_STORE).objectStore(SUMMARY_STORE).get(id),
+  );
+  return summary ?? null;
+};
+
+/** Every project, most recently modified first. */
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const db = await openDatabase();
+  const summaries = await requestToPromise<ProjectSummary[]>(db.transaction(SUMMARY_STORE).objectStore(SUMMARY_STORE).getAll());
+  return summaries.sort((a, b) => b.modifiedAt - a.modifiedAt);
+};
+
+/**
+ * Keeps the raw payload of a project stored in an older format before it is migrated. A payload
+ * only stays in an older format until the project is next saved, so rewriting the backup on each
+ * load until then stores the same thing.
+ */
+const backUpPayload = async (projectId: string, payload: string) => {
+  const schemaVersion = getPayloadSchemaVersion(payload);
+  if (schemaVersion === null || schemaVersion >= SCHEMA_VERSION) return;
+  const db = await openDatabase();
+  const tx = db.transaction(BACKUP_STORE, "readwrite");
+  const backup: ProjectBackup = { key: `${projectId}@v${schemaVersion}`, projectId, schemaVersion, backedUpAt: Date.now(), payload };
+  tx.objectStore(BACKUP_STORE).put(backup);
+  await transactionDone(tx);
+};
+
+const getRecord = async (id: string): Promise<ProjectRecord | null> => {
+  const db = await openDatabase();
+  const record = await requestToPromise<ProjectRecord | undefined>(db.transaction(PROJECT_STORE).objectStore(PROJECT_STORE).get(id));
+  return record ?? null;
+};
+
+/**
+ * Reads a stored project, migrating it if it was stored by an older build. Returns null when it is
+ * missing or damaged, and throws when a newer build stored it.
+ */
+export const loadLibraryProject = async (id: string): Promise<PersistedProject | null> => {
+  const record = await getRecord(id);
+  if (!record) return null;
+  await backUpPayload(id, record.payload);
+  return deserialiseProject(record.payload);
+};
+
+/** The undo and redo steps stored with a project, or null when it has none that can be read. */
+export const loadLibraryHistory = async (id: string): Promise<HistoryStacks | null> => {
+  const record = await getRecord(id);
+  return record?.history ? deserialiseHistory(record.history) : null;
+};
+
+export const createLibraryProject = async (project: PersistedProject, id = newProjectId()): Promise<ProjectSummary> => {
+  const now = Date.now();
+  return putProject(summarise(id, project, now, now), project);
+};
+
+// Most saves only replace the present, leaving the undo and redo arrays as they were, so the last
+// serialised history is kept and reused while both arrays are the same ones.
+let lastSerialisedHistory: (HistoryStacks & { raw: string }) | null = null;
+
+const serialiseHistoryOnce = (history: HistoryStacks): string => {
+  if (lastSerialisedHistory?.past !== history.past || lastSerialisedHistory.future !== history.future) {
+    lastSerialisedHistory = { past: history.past, future: history.future, raw: serialiseHistory(history) };
+  }
+  return lastSerialisedHistory.raw;
+};
+
+/** Writes the project, and its undo and redo steps if given, over its stored copy, keeping its creation date. */
+export const saveLibraryProject = async (id: string, project: PersistedProject, history?: HistoryStacks): Promise<ProjectSummary> => {
+  const existing = await getSummary(id);
+  const now = Date.now();
+  return putProject(summarise(id, project, existing?.createdAt ?? now, now), project, history && serialiseHistoryOnce(history));
+};
+
+/**
+ * Renames a stored project, keeping its undo and redo steps. The name is the title block's project
+ * name, so that changes too.
+ */
+export const renameLibraryProject = async (id: string, name: string): Promise<ProjectSummary | null> => {
+  const record = await getRecord(id);
+  if (!record) return null;
+  await backUpPayload(id, record.payload);
+  const project = deserialiseProject(record.payload);
+  if (!project) return null;
+  const existing = await getSummary(id);
+  const now = Date.now();
+  const renamed = { ...project, projectInfo: { ...project.projectInfo, name } };
+  return putProject(summarise(id, renamed, existing?.createdAt ?? now, now), renamed, record.history);
+};
+
+export const duplicateLibraryProject = async (id: string): Promise<ProjectSummary | null> => {
+  const project = await loadLibraryProject(id);
+  if (!project) return null;
+  return createLibraryProject({ ...project, projectInfo: { ...project.projectInfo, name: `${project.projectInfo.name} (copy)` } });
+};
+
+/** Queues deletes, in `tx`, for every record in `storeName` that belongs to the project. */
+const deleteProjectRecords = (tx: IDBTransaction, storeName: string, projectId: string) => {
+  const store = tx.objectStore(storeName);
+  store.index("projectId").getAllKeys(projectId).onsuccess = (event) => {
+    ((event.target as IDBRequest<IDBValidKey[]>).result ?? []).forEach((key) => store.delete(key));
+  };
+};
+
+/** Deletes a project along with its backups and revisions. */
+export const deleteLibraryProject = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([SUMMARY_STORE, PROJECT_STORE, BACKUP_STORE, REVISION_STORE], "readwrite");
+  tx.objectStore(SUMMARY_STORE).delete(id);
+  tx.objectStore(PROJECT_STORE).delete(id);
+  deleteProjectRecords(tx, BACKUP_STORE, id);
+  deleteProjectRecords(tx, REVISION_STORE, id);
+  await transactionDone(tx);
+};
+
+const toRevision = ({ payload: _payload, ...revision }: RevisionRecord): ProjectRevision => revision;
+
+const getRevisionRecords = async (projectId: string): Promise<RevisionRecord[]> => {
+  const db = await openDatabase();
+  const records = await requestToPromise<RevisionRecord[]>(
+    db.transaction(REVISION_STORE).objectStore(REVISION_STORE).index("projectId").getAll(projectId),
+  );
+  return records.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+/** A project's revisions, newest first. */
+export const listProjectRevisions = async (projectId: string): Promise<ProjectRevision[]> =>
+  (await getRevisionRecords(projectId)).map(toRevision);
+
+/** Reads a revision's project, migrating it if an older build stored it. The stored payload is left as it was. */
+export const loadProjectRevision = async (revisionId: string): Promise<PersistedProject | null> => {
+  const db = await openDatabase();
+  const record = await requestToPromise<RevisionRecord | undefined>(
+    db.transaction(REVISION_STORE).objectStore(REVISION_STORE).get(revisionId),
+  );
+  return record ? deserialiseProject(record.payload) : null;
+};
+
+/** Stores a revision of the project, then drops automatic revisions past the most recent `MAX_AUTO_REVISIONS`. */
+export const saveProjectRevision = async (
+  projectId: string,
+  project: PersistedProject,
+  kind: ProjectRevision["kind"],
+  label = "",
+): Promise<ProjectRevision> => {
+  const record: RevisionRecord = {
+    id: makeId().replace(/^obj-/, "revision-"),
+    projectId,
+    createdAt: Date.now(),
+    kind,
+    label,
+    objectCount: project.objects.length,
+    thumbnail: createPlanThumbnail(project.objects),
+    payload: serialiseProject(project),
+  };
+  const db = await openDatabase();
+  const tx = db.transaction(REVISION_STORE, "readwrite");
+  tx.objectStore(REVISION_STORE).put(record);
+  await transactionDone(tx);
+
+  const expired = (await getRevisionRecords(projectId)).filter((revision) => revision.kind === "auto").slice(MAX_AUTO_REVISIONS);
+  if (expired.length > 0) {
+    const pruneTx = db.transaction(REVISION_STORE, "readwrite");
+    expired.forEach((revision) => pruneTx.objectStore(REVISION_STORE).delete(revision.id));
+    await transactionDone(pruneTx);
+  }
+  return toRevision(record);
+};
+
+export const deleteProjectRevision = async (revisionId: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(REVISION_STORE, "readwrite");
+  tx.objectStore(REVISION_STORE).delete(revisionId);
+  await transactionDone(tx);
+};
+
+/** What moving the old autosave slot into the library did; `error` says why the slot was left where it was. */
+export type LegacyMigrationResult = {
+  summary: ProjectSummary | null;
+  error: string | null;
+};
+
+let legacyMigration: Promise<LegacyMigrationResult> | null = null;
+
+const runLegacyMigration = async (): Promise<LegacyMigrationResult> => {
+  const payload = loadLegacyPayload();
+  if (!payload) return { summary: null, error: null };
+  const existing = await listProjects();
+  if (existing.length > 0) return { summary: null, error: null };
+  let legacy: PersistedProject | null;
+  try {
+    legacy = deserialiseProject(payload);
+  } catch (error) {
+    // A newer build saved it; the slot stays as it is so that build can still read it.
+    return { summary: null, error: error instanceof Error ? error.message : "The saved project could not be read." };
+  }
+  if (!legacy) return { summary: null, error: null };
+  const id = newProjectId();
+  // The slot is cleared below, so its payload is backed up first if it needs migrating.
+  await backUpPayload(id, payload);
+  const summary = await createLibraryProject(legacy, id);
+  clearLegacyProject();
+  return { summary, error: null };
+};
+
+/**
+ * Moves the pre-library single-slot autosave into the library the first time the library is
+ * empty. The old slot is only cleared once the copy is safely written. Runs once per page, however
+ * often it is called, unless the library could not be written.
+ */
+export const migrateLegacyProject = (): Promise<LegacyMigrationResult> => {
+  if (!legacyMigration) {
+    // A failed write is not remembered, so the next call tries again.
+    legacyMigration = runLegacyMigration().catch((error) => {
+      legacyMigration = null;
+      throw error;
+    });
+  }
+  return legacyMigration;
+};
+
+export const getCurrentProjectId = (): string | null =>
+  typeof window !== "undefined" && window.localStorage ? window.localStorage.getItem(CURRENT_PROJECT_KEY) : null;
+
+export const setCurrentProjectId = (id: string) => {
+  if (typeof window === "undefined" || !window.localStorage) return;
+  window.localStorage.setItem(CURRENT_PROJECT_KEY, id);
+};
+
+/** Case-insensitive match on name, client or address. */
+export const matchesProjectSearch = (summary: ProjectSummary, query: string): boolean => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return [summary.name, summary.client, summary.address].some((field) => field.toLowerCase().includes(needle));
+};
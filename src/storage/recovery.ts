@@ -0,0 +1,96 @@
+import { deserialiseProject, serialiseProject, type PersistedProject } from "../model/storage";
+import type { Underlay } from "../model/types";
+
+/**
+ * Edits that were about to be written to the project library. Kept in localStorage, which writes
+ * synchronously, and cleared once the library write lands, so finding one at startup means the last
+ * session ended before its latest changes were stored.
+ */
+export type RecoveredProject = {
+  projectId: string;
+  savedAt: number;
+  project: PersistedProject;
+  /** The underlay was left out because it was the one already stored; take it from the library's copy. */
+  underlayStored: boolean;
+};
+
+type RecoveryRecord = {
+  /** Tells this write apart from a later one, so a slow library write only clears its own. */
+  token: string;
+  projectId: string;
+  savedAt: number;
+  payload: string;
+  underlayStored?: boolean;
+};
+
+const RECOVERY_KEY = "occupational_builder_recovery";
+
+let tokenCount = 0;
+
+const hasLocalStorage = () => typeof window !== "undefined" && typeof window.localStorage !== "undefined";
+
+const readRecord = (): RecoveryRecord | null => {
+  if (!hasLocalStorage()) return null;
+  try {
+    const raw = window.localStorage.getItem(RECOVERY_KEY);
+    const record = raw ? JSON.parse(raw) : null;
+    return record && typeof record.token === "string" && typeof record.projectId === "string" && typeof record.payload === "string"
+      ? record
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Records the project as not yet stored, returning a token for `clearRecovery`. An underlay that is
+ * `storedUnderlay` itself is left out, since it can be the bulk of the copy and the library has it.
+ */
+export const writeRecovery = (projectId: string, project: PersistedProject, storedUnderlay: Underlay | null = null): string | null => {
+  if (!hasLocalStorage()) return null;
+  tokenCount += 1;
+  const savedAt = Date.now();
+  const underlayStored = project.underlay !== null && project.underlay === storedUnderlay;
+  const record: RecoveryRecord = {
+    token: `${savedAt}-${tokenCount}`,
+    projectId,
+    savedAt,
+    payload: serialiseProject(underlayStored ? { ...project, underlay: null } : project),
+    underlayStored,
+  };
+  try {
+    window.localStorage.setItem(RECOVERY_KEY, JSON.stringify(record));
+    return record.token;
+  } catch (error) {
+    // Too big for localStorage (a large underlay, say); the library write still goes ahead. An older
+    // copy would be out of date, so it goes too.
+    console.warn("Failed to write recovery copy", error);
+    window.localStorage.removeItem(RECOVERY_KEY);
+    return null;
+  }
+};
+
+/**
+ * Clears the recovery copy, but only the one `token` names when given, so a newer copy survives. A
+ * null token, from a write that failed, clears whatever is there.
+ */
+export const clearRecovery = (token?: string | null) => {
+  if (!hasLocalStorage()) return;
+  if (token && readRecord()?.token !== token) return;
+  window.localStorage.removeItem(RECOVERY_KEY);
+};
+
+/** The project the last session did not get to store, or null when there is none (or it can't be read). */
+export const readRecovery = (): RecoveredProject | null => {
+  const record = readRecord();
+  if (!record) return null;
+  try {
+    const project = deserialiseProject(record.payload);
+    return project
+      ? { projectId: record.projectId, savedAt: record.savedAt, project, underlayStored: record.underlayStored === true }
+      : null;
+  } catch {
+    // From a newer build; that build can offer it.
+    return null;
+  }
+};
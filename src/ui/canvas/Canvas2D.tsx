@@ -1,12 +1,35 @@
 import { useEffect, useMemo, useRef, useState } from "react";
-import { Circle, Group, Layer, Line, Rect, Stage, Text } from "react-konva";
-import { BaseObj, LandingObj, MeasurementKey, Object2D, RampObj, SnapIncrementMm, Tool } from "../../model/types";
-import { newLandingAt, newRampAt } from "../../model/defaults";
-import { centerFromTopLeftMm, getDefaultBoundingBoxMm, getObjectBoundingBoxMm, topLeftFromCenterMm } from "../../model/geometry";
+import { Circle, Group, Label, Layer, Line, Rect, Stage, Tag, Text } from "react-konva";
+import { getAnnotationTitle, hasAnnotation } from "../../model/annotations";
+import type { ComplianceWarning } from "../../model/compliance";
+import { getConnectionStepMm, type ObjectConnection } from "../../model/connections";
+import {
+  BaseObj,
+  LandingObj,
+  MeasurementKey,
+  Object2D,
+  RampObj,
+  SnapIncrementMm,
+  StairsObj,
+  Tool,
+  Underlay,
+} from "../../model/types";
+import { newLandingAt, newRampAt, newStairsAt } from "../../model/defaults";
+import {
+  LineSegmentMm,
+  centerFromTopLeftMm,
+  getDefaultBoundingBoxMm,
+  getObjectBoundingBoxMm,
+  topLeftFromCenterMm,
+} from "../../model/geometry";
+import { getGroupRectMm, getObjectsInMarquee, type RectMm } from "../../model/selection";
+import { getUnderlaySnapSegmentsMm } from "../../model/underlay";
 import { mmToPx, pxToMm, snapMm } from "../../model/units";
 import Grid2D from "./Grid2D";
 import ShapeLanding2D from "./ShapeLanding2D";
 import ShapeRamp2D from "./ShapeRamp2D";
+import ShapeStairs2D from "./ShapeStairs2D";
+import Underlay2D from "./Underlay2D";
 
 type CanvasSize = {
   width: number;
@@ -19,11 +42,30 @@ type Canvas2DProps = {
   snapToObjects: boolean;
   snapIncrementMm: SnapIncrementMm;
   objects: Object2D[];
-  selectedId: string | null;
-  onSelect: (id: string) => void;
+  /** Every object including hidden ones, so callouts number default names the same way the outliner does. */
+  allObjects: Object2D[];
+  selectedIds: string[];
+  /** Draw a callout with each object's name, tags and notes. */
+  showLabels: boolean;
+  underlay: Underlay | null;
+  /** Points picked so far while calibrating the underlay, or null when not calibrating. */
+  calibrationPointsMm: PointMm[] | null;
+  /** Ramp-end joints found by the connection graph, marked level (green) or stepped (red). */
+  connections: ObjectConnection[];
+  warningsByObject: Record<string, ComplianceWarning[]>;
+  /**
+   * `additive` (Shift/Ctrl/Cmd held) toggles the object instead of replacing the selection;
+   * `ignoreGroup` (Alt held) picks one member out of a group rather than the whole group.
+   */
+  onSelect: (id: string, additive?: boolean, ignoreGroup?: boolean) => void;
+  onSelectMany: (ids: string[], additive?: boolean) => void;
   onClearSelection: () => void;
   onPlaceAt: (tool: Tool, xMm: number, yMm: number) => void;
+  onCalibrationPoint: (pointMm: PointMm) => void;
   onUpdateObject: (id: string, patch: Partial<Object2D> | Partial<BaseObj>, commit?: boolean) => void;
+  onMoveSelection: (dxMm: number, dyMm: number) => void;
+  /** World position under the pointer, or null once it leaves the canvas. */
+  onPointerChange: (pointMm: PointMm | null) => void;
   onDeleteObject: (id: string) => void;
   onSetActiveTool: (tool: Tool) => void;
 };
@@ -63,6 +105,13 @@ type Camera = {
 };
 
 type ScreenPoint = { x: number; y: number };
+
+/** Rubber band dragged out on empty canvas; `additive` adds to the selection instead of replacing it. */
+type MarqueeState = {
+  startMm: PointMm;
+  endMm: PointMm;
+  additive: boolean;
+};
 type HandleCorner = "topLeft" | "topRight" | "bottomLeft" | "bottomRight";
 
 type ResizeSession = {
@@ -85,6 +134,15 @@ const MIN_INCREMENT_MM = 1;
 const MIN_OBJECT_SIZE_MM = 100;
 const HANDLE_SIZE_PX = 12;
 const HANDLE_STROKE_PX = 2;
+const WARNING_BADGE_RADIUS_PX = 9;
+const CONNECTION_MARKER_SIZE_PX = 5;
+const CALLOUT_FONT_PX = 11;
+/** Longer notes are cut short on the plan; the Inspector and exports show them in full. */
+const CALLOUT_NOTE_MAX_CHARS = 60;
+/** Shorter drags on empty canvas are treated as plain clicks rather than a marquee. */
+const MARQUEE_MIN_DRAG_PX = 4;
+/** Underlay edges within this slope (dy/dx) of the axes snap as straight faces. */
+const UNDERLAY_AXIS_TOLERANCE = 1e-3;
 
 const getAabbMm = (obj: Object2D, centerOverride?: PointMm): AabbMm => {
   const size = getObjectBoundingBoxMm(obj);
@@ -106,6 +164,29 @@ const getAabbMm = (obj: Object2D, centerOverride?: PointMm): AabbMm => {
   };
 };
 
+const toAabbMm = (rect: RectMm): AabbMm => ({
+  ...rect,
+  cx: (rect.left + rect.right) / 2,
+  cy: (rect.top + rect.bottom) / 2,
+  w: rect.right - rect.left,
+  h: rect.bottom - rect.top,
+});
+
+/** Bounding box of a group of objects as it would be after moving them all by `offset`. */
+const getGroupAabbMm = (objects: Object2D[], offset: PointMm): AabbMm | null => {
+  const rect = getGroupRectMm(objects.map((obj) => ({ ...obj, xMm: obj.xMm + offset.xMm, yMm: obj.yMm + offset.yMm })));
+  return rect ? toAabbMm(rect) : null;
+};
+
+const getMarqueeRectMm = (marquee: MarqueeState): RectMm => ({
+  left: Math.min(marquee.startMm.xMm, marquee.endMm.xMm),
+  top: Math.min(marquee.startMm.yMm, marquee.endMm.yMm),
+  right: Math.max(marquee.startMm.xMm, marquee.endMm.xMm),
+  bottom: Math.max(marquee.startMm.yMm, marquee.endMm.yMm),
+});
+
+const isAdditiveClick = (evt: any): boolean => Boolean(evt?.evt?.shiftKey || evt?.evt?.ctrlKey || evt?.evt?.metaKey);
+
 const getPoisMm = (aabb: AabbMm) => (
   [
     { name: "topLeft", x: aabb.left, y: aabb.top },
@@ -120,6 +201,20 @@ const getPoisMm = (aabb: AabbMm) => (
   ] satisfies Array<{ name: string; x: number; y: number }>
 );
 
+const closestPointOnSegmentMm = (point: PointMm, segment: LineSegmentMm): PointMm => {
+  const dx = segment.end.xMm - segment.start.xMm;
+  const dy = segment.end.yMm - segment.start.yMm;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : clamp(((point.xMm - segment.start.xMm) * dx + (point.yMm - segment.start.yMm) * dy) / lengthSq, 0, 1);
+  return { xMm: segment.start.xMm + dx * t, yMm: segment.start.yMm + dy * t };
+};
+
+const segmentNearAabb = (segment: LineSegmentMm, aabb: AabbMm, marginMm: number) =>
+  Math.max(segment.start.xMm, segment.end.xMm) >= aabb.left - marginMm &&
+  Math.min(segment.start.xMm, segment.end.xMm) <= aabb.right + marginMm &&
+  Math.max(segment.start.yMm, segment.end.yMm) >= aabb.top - marginMm &&
+  Math.min(segment.start.yMm, segment.end.yMm) <= aabb.bottom + marginMm;
+
 const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
 
 const screenToWorldPx = (point: ScreenPoint, camera: Camera) => ({
@@ -227,11 +322,21 @@ export default function Canvas2D({
   snapToObjects,
   snapIncrementMm,
   objects,
-  selectedId,
+  allObjects,
+  selectedIds,
+  showLabels,
+  underlay,
+  calibrationPointsMm,
+  connections,
+  warningsByObject,
   onSelect,
+  onSelectMany,
   onClearSelection,
   onPlaceAt,
+  onCalibrationPoint,
   onUpdateObject,
+  onMoveSelection,
+  onPointerChange,
   onDeleteObject,
   onSetActiveTool,
 }: Canvas2DProps) {
@@ -246,6 +351,11 @@ export default function Canvas2D({
   const [spacePanning, setSpacePanning] = useState(false);
   const [resizeState, setResizeState] = useState<ResizeSession | null>(null);
   const [draggingId, setDraggingId] = useState<string | null>(null);
+  /** Snapped offset of the selection while one of its objects is being dragged. */
+  const [dragOffsetMm, setDragOffsetMm] = useState<PointMm | null>(null);
+  const [marquee, setMarquee] = useState<MarqueeState | null>(null);
+  const underlaySegmentsMm = useMemo(() => getUnderlaySnapSegmentsMm(underlay), [underlay]);
+  const calibrating = calibrationPointsMm !== null;
   const isPanningRef = useRef(false);
   const lastPanRef = useRef<ScreenPoint | null>(null);
   const resizeCommittedRef = useRef(false);
@@ -348,11 +458,13 @@ export default function Canvas2D({
     };
   }, []);
 
+  const selectionKey = selectedIds.join("|");
+
   useEffect(() => {
     setResizeState(null);
     resizeCommittedRef.current = false;
     setHoverHandle(null);
-  }, [selectedId]);
+  }, [selectionKey]);
 
   const pointerMm: PointMm | null = useMemo(() => {
     if (!pointer || !camera) return null;
@@ -367,6 +479,10 @@ export default function Canvas2D({
     };
   }, [pointerMm]);
 
+  useEffect(() => {
+    onPointerChange(pointerMmClamped);
+  }, [onPointerChange, pointerMmClamped]);
+
   const desiredAnchorMm: PointMm | null = useMemo(() => {
     if (!pointerMmClamped) return null;
     const stepMm = snapToGrid ? snapIncrementMm : MIN_INCREMENT_MM;
@@ -426,6 +542,17 @@ export default function Canvas2D({
     };
   }, [activeTool, desiredAnchorMm]);
 
+  const ghostStairs: StairsObj | null = useMemo(() => {
+    if (!desiredAnchorMm || activeTool !== "stairs") return null;
+    const centre = getPlacementCentreFromAnchor("stairs", desiredAnchorMm);
+    if (!centre) return null;
+    return {
+      ...newStairsAt(centre.xMm, centre.yMm),
+      id: "ghost-stairs",
+      locked: true,
+    };
+  }, [activeTool, desiredAnchorMm]);
+
   const handleStagePointerMove = () => {
     if (!stageRef.current || !camera) return;
     const pos = stageRef.current.getPointerPosition();
@@ -435,6 +562,11 @@ export default function Canvas2D({
       handleResizeDrag(pos);
     }
 
+    if (marquee) {
+      const endMm = screenToWorldMm(pos, camera);
+      setMarquee((current) => (current ? { ...current, endMm } : current));
+    }
+
     if (isPanningRef.current) {
       const last = lastPanRef.current ?? pos;
       const dx = pos.x - last.x;
@@ -458,10 +590,27 @@ export default function Canvas2D({
     }
   };
 
+  const finishMarquee = () => {
+    if (!marquee || !camera) return;
+    const rect = getMarqueeRectMm(marquee);
+    const dragPx = mmToPx(Math.max(rect.right - rect.left, rect.bottom - rect.top)) * camera.scale;
+    // A plain click already cleared the selection on mouse down.
+    if (dragPx >= MARQUEE_MIN_DRAG_PX) {
+      const crossing = marquee.endMm.xMm < marquee.startMm.xMm;
+      onSelectMany(
+        getObjectsInMarquee(objects, rect, crossing).map((obj) => obj.id),
+        marquee.additive,
+      );
+    }
+    setMarquee(null);
+  };
+
   const handleStageMouseUp = () => {
+    finishMarquee();
     setResizeState(null);
     resizeCommittedRef.current = false;
     setDraggingId(null);
+    setDragOffsetMm(null);
     setSnapGuide({ snappedPoint: null });
     if (stageRef.current) {
       stageRef.current.container().style.cursor = "";
@@ -477,6 +626,8 @@ export default function Canvas2D({
     setResizeState(null);
     resizeCommittedRef.current = false;
     setDraggingId(null);
+    setDragOffsetMm(null);
+    setMarquee(null);
     setSnapGuide({ snappedPoint: null });
     if (stageRef.current) {
       stageRef.current.container().style.cursor = "";
@@ -499,7 +650,15 @@ export default function Canvas2D({
 
     const isStageClick = evt.target === stageRef.current || evt.target === stageRef.current.getStage();
 
-    if ((activeTool === "ramp" || activeTool === "landing") && isStageClick) {
+    // Calibration points may land anywhere, including on top of objects.
+    if (calibrating) {
+      if (evt.evt?.button === 0 && calibrationPointsMm.length < 2) {
+        onCalibrationPoint(screenToWorldMm(pos, camera));
+      }
+      return;
+    }
+
+    if ((activeTool === "ramp" || activeTool === "landing" || activeTool === "stairs") && isStageClick) {
       const anchor = screenToWorldMm(pos, camera);
       const clampedAnchor = {
         xMm: clamp(anchor.xMm, -HALF_WORKSPACE_MM, HALF_WORKSPACE_MM),
@@ -512,9 +671,13 @@ export default function Canvas2D({
     }
 
     if (isStageClick) {
-      onClearSelection();
+      const additive = isAdditiveClick(evt);
+      if (!additive) onClearSelection();
       if (activeTool === "delete") {
         onSetActiveTool("none");
+      } else if (evt.evt?.button === 0) {
+        const startMm = screenToWorldMm(pos, camera);
+        setMarquee({ startMm, endMm: startMm, additive });
       }
     }
 
@@ -543,13 +706,20 @@ export default function Canvas2D({
   };
 
   const handleObjectPointerDown = (evt: any, obj: Object2D) => {
-    if (evt?.evt?.button === 2 || spacePanning) {
+    if (evt?.evt?.button === 2 || spacePanning || calibrating) {
       return;
     }
-    onSelect(obj.id);
     if (activeTool === "delete") {
+      onSelect(obj.id);
       onDeleteObject(obj.id);
       onSetActiveTool("none");
+    } else if (isAdditiveClick(evt)) {
+      onSelect(obj.id, true);
+    } else if (evt.evt?.altKey) {
+      onSelect(obj.id, false, true);
+    } else if (!selectedIds.includes(obj.id)) {
+      // Pressing on an object that is already selected keeps the selection, so it drags as a group.
+      onSelect(obj.id);
     }
     evt.cancelBubble = true;
   };
@@ -739,25 +909,27 @@ export default function Canvas2D({
     }, undefined);
   };
 
-  const getObjectSnap = (obj: Object2D, proposedCentre: PointMm) => {
-    const bbox = getObjectBoundingBoxMm(obj);
+  /**
+   * Snaps a move of `movers` by `offset`. Their combined bounding box is aligned to other objects
+   * and underlay line work, then its top-left corner to the grid; returns the adjusted offset.
+   */
+  const getGroupMoveSnap = (movers: Object2D[], offset: PointMm): PointMm => {
+    const activeAabb = getGroupAabbMm(movers, offset);
+    if (!activeAabb) return offset;
     if (!snapToGrid && !snapToObjects) {
       setSnapGuide({ snappedPoint: null });
-      const freeTopLeft = topLeftFromCenterMm(proposedCentre, bbox);
-      const roundedTopLeft = {
-        xMm: snapMm(freeTopLeft.xMm, MIN_INCREMENT_MM),
-        yMm: snapMm(freeTopLeft.yMm, MIN_INCREMENT_MM),
+      return {
+        xMm: offset.xMm + snapMm(activeAabb.left, MIN_INCREMENT_MM) - activeAabb.left,
+        yMm: offset.yMm + snapMm(activeAabb.top, MIN_INCREMENT_MM) - activeAabb.top,
       };
-      return centerFromTopLeftMm(roundedTopLeft, bbox);
     }
 
     const xCandidates: SnapAxisCandidate[] = [];
     const yCandidates: SnapAxisCandidate[] = [];
 
     if (snapToObjects) {
-      const activeAabb = getAabbMm(obj, proposedCentre);
       const activePois = getPoisMm(activeAabb);
-      const otherObjects = objects.filter((o) => o.id !== obj.id);
+      const otherObjects = objects.filter((o) => !movers.some((mover) => mover.id === o.id));
 
       const pushFaceCandidates = (activeCoord: number, targetCoord: number, axis: "x" | "y") => {
         const delta = targetCoord - activeCoord;
@@ -815,6 +987,29 @@ export default function Canvas2D({
           targetPois.forEach((targetPoi) => pushPoiCandidates(activePoi, targetPoi));
         });
       });
+
+      // Underlay line work: straight edges act as faces, endpoints and the nearest point on
+      // sloping edges as POIs.
+      underlaySegmentsMm
+        .filter((segment) => segmentNearAabb(segment, activeAabb, SNAP_THRESHOLD_MM))
+        .forEach((segment) => {
+          const dx = segment.end.xMm - segment.start.xMm;
+          const dy = segment.end.yMm - segment.start.yMm;
+          [segment.start, segment.end].forEach((endpoint) => {
+            activePois.forEach((activePoi) => pushPoiCandidates(activePoi, { name: "underlay", x: endpoint.xMm, y: endpoint.yMm }));
+          });
+          if (Math.abs(dy) <= Math.abs(dx) * UNDERLAY_AXIS_TOLERANCE) {
+            [activeAabb.top, activeAabb.cy, activeAabb.bottom].forEach((faceY) => pushFaceCandidates(faceY, segment.start.yMm, "y"));
+          } else if (Math.abs(dx) <= Math.abs(dy) * UNDERLAY_AXIS_TOLERANCE) {
+            [activeAabb.left, activeAabb.cx, activeAabb.right].forEach((faceX) => pushFaceCandidates(faceX, segment.start.xMm, "x"));
+          } else {
+            activePois.forEach((activePoi) => {
+              const closest = closestPointOnSegmentMm({ xMm: activePoi.x, yMm: activePoi.y }, segment);
+              if (Math.hypot(closest.xMm - activePoi.x, closest.yMm - activePoi.y) > SNAP_THRESHOLD_MM) return;
+              pushPoiCandidates(activePoi, { name: "underlay", x: closest.xMm, y: closest.yMm });
+            });
+          }
+        });
     }
 
     const bestX = pickBestAxisCandidate(xCandidates);
@@ -823,9 +1018,9 @@ export default function Canvas2D({
     const xSnappedToObject = snapToObjects && Boolean(bestX);
     const ySnappedToObject = snapToObjects && Boolean(bestY);
 
-    const snappedAfterObject: PointMm = {
-      xMm: proposedCentre.xMm + (bestX ? bestX.delta : 0),
-      yMm: proposedCentre.yMm + (bestY ? bestY.delta : 0),
+    const snappedTopLeft: PointMm = {
+      xMm: activeAabb.left + (bestX ? bestX.delta : 0),
+      yMm: activeAabb.top + (bestY ? bestY.delta : 0),
     };
 
     const snappedPoint =
@@ -840,17 +1035,25 @@ export default function Canvas2D({
         : { snappedPoint: null },
     );
 
-    const snappedTopLeft = topLeftFromCenterMm(snappedAfterObject, bbox);
     const shouldSnapGridX = snapToGrid && !xSnappedToObject;
     const shouldSnapGridY = snapToGrid && !ySnappedToObject;
     const baseGridStepX = shouldSnapGridX ? snapIncrementMm : MIN_INCREMENT_MM;
     const baseGridStepY = shouldSnapGridY ? snapIncrementMm : MIN_INCREMENT_MM;
-    const gridSnappedTopLeft = {
-      xMm: snapMm(snappedTopLeft.xMm, baseGridStepX),
-      yMm: snapMm(snappedTopLeft.yMm, baseGridStepY),
+    return {
+      xMm: offset.xMm + snapMm(snappedTopLeft.xMm, baseGridStepX) - activeAabb.left,
+      yMm: offset.yMm + snapMm(snappedTopLeft.yMm, baseGridStepY) - activeAabb.top,
     };
+  };
+
+  /** Every unlocked selected object follows the one being dragged. */
+  const getDragMovers = (obj: Object2D) => {
+    const movers = objects.filter((o) => selectedIds.includes(o.id) && !o.locked);
+    return movers.some((o) => o.id === obj.id) ? movers : [obj];
+  };
 
-    return centerFromTopLeftMm(gridSnappedTopLeft, bbox);
+  const getSnappedDragOffset = (obj: Object2D, pos: ScreenPoint, currentCamera: Camera): PointMm => {
+    const proposedCentre = screenToWorldMm(pos, currentCamera);
+    return getGroupMoveSnap(getDragMovers(obj), { xMm: proposedCentre.xMm - obj.xMm, yMm: proposedCentre.yMm - obj.yMm });
   };
 
   const handleObjectDragEnd = (evt: any, obj: Object2D) => {
@@ -858,35 +1061,49 @@ export default function Canvas2D({
       stageRef.current.container().style.cursor = "";
     }
     setDraggingId((current) => (current === obj.id ? null : current));
+    setDragOffsetMm(null);
     if (!camera) return;
-    const absolute = evt.target.getAbsolutePosition();
-    const proposedCentre = screenToWorldMm(absolute, camera);
-    const snappedCentre = getObjectSnap(obj, proposedCentre);
-    const snappedStage = worldToScreen(snappedCentre, camera);
-    evt.target.setAbsolutePosition(snappedStage);
-    onUpdateObject(obj.id, { xMm: snappedCentre.xMm, yMm: snappedCentre.yMm }, true);
+    const offset = getSnappedDragOffset(obj, evt.target.getAbsolutePosition(), camera);
+    evt.target.setAbsolutePosition(worldToScreen({ xMm: obj.xMm + offset.xMm, yMm: obj.yMm + offset.yMm }, camera));
+    onMoveSelection(offset.xMm, offset.yMm);
     setSnapGuide({ snappedPoint: null });
   };
 
   const hudLabel = useMemo(() => {
-    if (!pointer || (activeTool !== "ramp" && activeTool !== "landing")) return null;
-    const label = activeTool === "ramp" ? "Click to place Ramp (Esc to cancel)" : "Click to place Landing (Esc to cancel)";
-    return { text: label, x: pointer.x + 10, y: pointer.y + 12 };
-  }, [activeTool, pointer]);
+    if (pointer && calibrationPointsMm && calibrationPointsMm.length < 2) {
+      const which = calibrationPointsMm.length === 0 ? "first" : "second";
+      return { text: `Click ${which} calibration point (Esc to cancel)`, x: pointer.x + 10, y: pointer.y + 12, width: 270 };
+    }
+    if (!pointer || (activeTool !== "ramp" && activeTool !== "landing" && activeTool !== "stairs")) return null;
+    const label =
+      activeTool === "ramp"
+        ? "Click to place Ramp (Esc to cancel)"
+        : activeTool === "stairs"
+          ? "Click to place Stairs (Esc to cancel)"
+          : "Click to place Landing (Esc to cancel)";
+    return { text: label, x: pointer.x + 10, y: pointer.y + 12, width: 220 };
+  }, [activeTool, calibrationPointsMm, pointer]);
 
   const handleMeasurementOffsetChange = (id: string, key: MeasurementKey, offsetMm: number) => {
     onUpdateObject(id, { measurementOffsets: { [key]: offsetMm } } as Partial<Object2D>, true);
   };
 
-  const objectNodes = objects.map((obj) => {
-    const isSelected = obj.id === selectedId;
+  const movingIds = draggingId ? objects.filter((o) => selectedIds.includes(o.id) && !o.locked).map((o) => o.id) : [];
+
+  const objectNodes = objects.map((placed) => {
+    const isSelected = selectedIds.includes(placed.id);
+    // The rest of the selection is drawn at the drag offset; the dragged node is positioned by Konva.
+    const obj =
+      dragOffsetMm && isSelected && !placed.locked && placed.id !== draggingId
+        ? { ...placed, xMm: placed.xMm + dragOffsetMm.xMm, yMm: placed.yMm + dragOffsetMm.yMm }
+        : placed;
     const isHover = obj.id === hoverId;
-    const draggable = isSelected && !obj.locked && !spacePanning;
+    const draggable = isSelected && !obj.locked && !spacePanning && !calibrating;
     const dragBoundFunc = (pos: any) => {
       if (!camera) return pos;
-      const proposedCentre = screenToWorldMm(pos, camera);
-      const snappedCentre = getObjectSnap(obj, proposedCentre);
-      return worldToScreen(snappedCentre, camera);
+      const offset = getSnappedDragOffset(placed, pos, camera);
+      setDragOffsetMm(offset);
+      return worldToScreen({ xMm: placed.xMm + offset.xMm, yMm: placed.yMm + offset.yMm }, camera);
     };
     const hoverHandlers = {
       onMouseEnter: () => setHoverId(obj.id),
@@ -910,6 +1127,24 @@ export default function Canvas2D({
       };
       return <ShapeRamp2D {...rampProps} />;
     }
+    if (obj.kind === "stairs") {
+      const stairsProps = {
+        key: obj.id,
+        obj,
+        selected: isSelected,
+        hover: isHover,
+        activeTool,
+        snapIncrementMm,
+        draggable,
+        dragBoundFunc,
+        onMeasurementOffsetChange: (key: MeasurementKey, offsetMm: number) => handleMeasurementOffsetChange(obj.id, key, offsetMm),
+        onPointerDown: (evt: any) => handleObjectPointerDown(evt, obj),
+        onDragStart: () => handleObjectDragStart(obj),
+        onDragEnd: (evt: any) => handleObjectDragEnd(evt, obj),
+        ...hoverHandlers,
+      };
+      return <ShapeStairs2D {...stairsProps} />;
+    }
     const landingProps = {
       key: obj.id,
       obj,
@@ -928,8 +1163,8 @@ export default function Canvas2D({
     return <ShapeLanding2D {...landingProps} />;
   });
 
-  const selectedObject = selectedId ? objects.find((obj) => obj.id === selectedId) ?? null : null;
-  const canResize = Boolean(selectedObject && !selectedObject.locked);
+  const selectedObject = selectedIds.length === 1 ? objects.find((obj) => obj.id === selectedIds[0]) ?? null : null;
+  const canResize = Boolean(selectedObject && !selectedObject.locked && !calibrating);
   const activeSelection = canResize && selectedObject ? selectedObject : null;
   const handlePoints = activeSelection ? getHandleCornerPointsMm(activeSelection) : null;
   const handleVisible = Boolean(handlePoints && !draggingId);
@@ -977,6 +1212,88 @@ export default function Canvas2D({
         })
       : null;
 
+  const groupRect =
+    selectedIds.length > 1 && !draggingId ? getGroupRectMm(objects.filter((obj) => selectedIds.includes(obj.id))) : null;
+  const marqueeRect = marquee ? getMarqueeRectMm(marquee) : null;
+  const marqueeCrossing = marquee ? marquee.endMm.xMm < marquee.startMm.xMm : false;
+
+  const warningBadges = objects
+    .filter((obj) => (warningsByObject[obj.id]?.length ?? 0) > 0 && !movingIds.includes(obj.id))
+    .map((obj) => {
+      const aabb = getAabbMm(obj);
+      const count = warningsByObject[obj.id].length;
+      const radius = WARNING_BADGE_RADIUS_PX * handleScale;
+      return (
+        <Group key={`warning-${obj.id}`} x={mmToPx(aabb.right)} y={mmToPx(aabb.top)} listening={false}>
+          <Circle radius={radius} fill="#f59e0b" stroke="#ffffff" strokeWidth={handleStrokeWidth} />
+          <Text
+            text={count > 1 ? String(count) : "!"}
+            x={-radius}
+            y={-radius}
+            width={radius * 2}
+            height={radius * 2}
+            align="center"
+            verticalAlign="middle"
+            fontSize={12 * handleScale}
+            fontStyle="bold"
+            fill="#ffffff"
+          />
+        </Group>
+      );
+    });
+
+  const callouts = showLabels
+    ? objects
+        .filter((obj) => hasAnnotation(obj) && !movingIds.includes(obj.id))
+        .map((obj) => {
+          const aabb = getAabbMm(obj);
+          const note = obj.notes.trim().replace(/\s+/g, " ");
+          const noteLine = note.length > CALLOUT_NOTE_MAX_CHARS ? `${note.slice(0, CALLOUT_NOTE_MAX_CHARS - 1)}…` : note;
+          return (
+            <Label key={`callout-${obj.id}`} x={mmToPx(aabb.cx)} y={mmToPx(aabb.bottom)} listening={false}>
+              <Tag
+                fill="rgba(255,255,255,0.92)"
+                stroke="#64748b"
+                strokeWidth={handleStrokeWidth / 2}
+                cornerRadius={4 * handleScale}
+                pointerDirection="up"
+                pointerWidth={10 * handleScale}
+                pointerHeight={6 * handleScale}
+              />
+              <Text
+                text={noteLine ? `${getAnnotationTitle(obj, allObjects)}\n${noteLine}` : getAnnotationTitle(obj, allObjects)}
+                fontSize={CALLOUT_FONT_PX * handleScale}
+                lineHeight={1.3}
+                padding={4 * handleScale}
+                fill="#1f2937"
+              />
+            </Label>
+          );
+        })
+    : null;
+
+  const connectionMarkers = connections
+    .filter((connection) => !movingIds.includes(connection.rampId) && !movingIds.includes(connection.targetId))
+    .map((connection) => {
+      const size = CONNECTION_MARKER_SIZE_PX * handleScale;
+      return (
+        <Rect
+          key={`connection-${connection.rampId}-${connection.rampEnd}-${connection.targetId}`}
+          x={mmToPx(connection.atMm.xMm)}
+          y={mmToPx(connection.atMm.yMm)}
+          width={size * 2}
+          height={size * 2}
+          offsetX={size}
+          offsetY={size}
+          rotation={45}
+          fill={getConnectionStepMm(connection) === 0 ? "#16a34a" : "#dc2626"}
+          stroke="#ffffff"
+          strokeWidth={handleStrokeWidth}
+          listening={false}
+        />
+      );
+    });
+
   return (
     <div className="ob-canvasHost" ref={containerRef} data-tool={activeTool}>
       {hasSize && camera ? (
@@ -996,7 +1313,9 @@ export default function Canvas2D({
           >
             <Layer listening={false}>
               <Group {...worldGroupProps}>
-                <Grid2D cameraScale={camera.scale} workspaceSizeMm={WORKSPACE_SIZE_MM} gridStepMm={snapIncrementMm} />
+                <Grid2D cameraScale={camera.scale} workspaceSizeMm={WORKSPACE_SIZE_MM} gridStepMm={snapIncrementMm}>
+                  {underlay && <Underlay2D underlay={underlay} />}
+                </Grid2D>
               </Group>
             </Layer>
 
@@ -1004,6 +1323,14 @@ export default function Canvas2D({
               <Group {...worldGroupProps}>{objectNodes}</Group>
             </Layer>
 
+            <Layer listening={false}>
+              <Group {...worldGroupProps}>
+                {callouts}
+                {connectionMarkers}
+                {warningBadges}
+              </Group>
+            </Layer>
+
             <Layer>
               <Group {...worldGroupProps}>{resizeHandles}</Group>
             </Layer>
@@ -1032,6 +1359,29 @@ export default function Canvas2D({
                     fill="rgba(239,68,68,0.5)"
                   />
                 )}
+                {groupRect && (
+                  <Rect
+                    x={mmToPx(groupRect.left)}
+                    y={mmToPx(groupRect.top)}
+                    width={mmToPx(groupRect.right - groupRect.left)}
+                    height={mmToPx(groupRect.bottom - groupRect.top)}
+                    stroke="#2563eb"
+                    dash={[6, 4]}
+                    strokeWidth={snapStrokeWidth}
+                  />
+                )}
+                {marqueeRect && (
+                  <Rect
+                    x={mmToPx(marqueeRect.left)}
+                    y={mmToPx(marqueeRect.top)}
+                    width={mmToPx(marqueeRect.right - marqueeRect.left)}
+                    height={mmToPx(marqueeRect.bottom - marqueeRect.top)}
+                    fill={marqueeCrossing ? "rgba(34,197,94,0.08)" : "rgba(37,99,235,0.08)"}
+                    stroke={marqueeCrossing ? "#16a34a" : "#2563eb"}
+                    dash={marqueeCrossing ? [6, 4] : undefined}
+                    strokeWidth={snapStrokeWidth}
+                  />
+                )}
                 {snapMarkerPx && snapToGrid && (
                   <Circle x={snapMarkerPx.x} y={snapMarkerPx.y} radius={snapPointRadius} fill="#0ea5e9" opacity={0.85} />
                 )}
@@ -1057,6 +1407,40 @@ export default function Canvas2D({
                     ghost
                   />
                 )}
+                {ghostStairs && (
+                  <ShapeStairs2D
+                    obj={ghostStairs}
+                    selected={false}
+                    hover={false}
+                    activeTool={activeTool}
+                    snapIncrementMm={snapIncrementMm}
+                    draggable={false}
+                    ghost
+                  />
+                )}
+                {calibrationPointsMm && calibrationPointsMm.length > 0 && (
+                  <>
+                    <Line
+                      points={[
+                        ...calibrationPointsMm.flatMap((point) => [mmToPx(point.xMm), mmToPx(point.yMm)]),
+                        ...(calibrationPointsMm.length === 1 && pointerMm ? [mmToPx(pointerMm.xMm), mmToPx(pointerMm.yMm)] : []),
+                      ]}
+                      stroke="#d946ef"
+                      dash={[6, 4]}
+                      strokeWidth={snapStrokeWidth * 1.5}
+                    />
+                    {calibrationPointsMm.map((point, index) => (
+                      <Circle
+                        key={index}
+                        x={mmToPx(point.xMm)}
+                        y={mmToPx(point.yMm)}
+                        radius={snapPointRadius * 1.5}
+                        stroke="#d946ef"
+                        strokeWidth={snapStrokeWidth * 1.5}
+                      />
+                    ))}
+                  </>
+                )}
                 {pointerMmClamped && (
                   <>
                     <Line
@@ -1076,7 +1460,7 @@ export default function Canvas2D({
               </Group>
               {hudLabel && (
                 <Group x={hudLabel.x} y={hudLabel.y} listening={false}>
-                  <Rect width={220} height={26} fill="rgba(17,24,39,0.8)" cornerRadius={6} />
+                  <Rect width={hudLabel.width} height={26} fill="rgba(17,24,39,0.8)" cornerRadius={6} />
                   <Text text={hudLabel.text} x={8} y={6} fontSize={12} fill="#e5e7eb" />
                 </Group>
               )}
@@ -0,0 +1,35 @@
+import { Line } from "react-konva";
+import { EdgeFeatureKind, getEdgeFeatureLinesMm } from "../../model/geometry";
+import { LandingObj, RampObj } from "../../model/types";
+import { mmToPx } from "../../model/units";
+
+type Props = {
+  obj: RampObj | LandingObj;
+  stroke: string;
+  opacity: number;
+};
+
+const featureStyle: Record<EdgeFeatureKind, { strokeWidth: number; dash?: number[] }> = {
+  handrail: { strokeWidth: 2 },
+  kerbRail: { strokeWidth: 1 },
+  balustrade: { strokeWidth: 1.5, dash: [8, 4] },
+};
+
+/** Handrails, kerb rails and balustrades drawn in the parent shape's local frame. */
+export default function EdgeFeatures2D({ obj, stroke, opacity }: Props) {
+  return (
+    <>
+      {getEdgeFeatureLinesMm(obj).map((line) => (
+        <Line
+          key={`${line.side}-${line.feature}`}
+          points={[mmToPx(line.start.xMm), mmToPx(line.start.yMm), mmToPx(line.end.xMm), mmToPx(line.end.yMm)]}
+          stroke={stroke}
+          opacity={opacity}
+          lineCap="round"
+          listening={false}
+          {...featureStyle[line.feature]}
+        />
+      ))}
+    </>
+  );
+}
@@ -1,4 +1,4 @@
-import { useMemo } from "react";
+import { useMemo, type ReactNode } from "react";
 import { Group, Line, Rect } from "react-konva";
 import { mmToPx } from "../../model/units";
 
@@ -6,11 +6,13 @@ type Grid2DProps = {
   cameraScale: number;
   workspaceSizeMm: number;
   gridStepMm: number;
+  /** Drawn over the workspace background but under the grid lines, e.g. a traced site plan. */
+  children?: ReactNode;
 };
 
 const toScreenSpacing = (stepMm: number, cameraScale: number) => mmToPx(stepMm) * cameraScale;
 
-export default function Grid2D({ cameraScale, workspaceSizeMm, gridStepMm }: Grid2DProps) {
+export default function Grid2D({ cameraScale, workspaceSizeMm, gridStepMm, children }: Grid2DProps) {
   const halfWorkspacePx = mmToPx(workspaceSizeMm / 2);
 
   const { background, lines } = useMemo(() => {
@@ -90,6 +92,7 @@ export default function Grid2D({ cameraScale, workspaceSizeMm, gridStepMm }: Gri
   return (
     <Group listening={false} clipX={-halfWorkspacePx} clipY={-halfWorkspacePx} clipWidth={halfWorkspacePx * 2} clipHeight={halfWorkspacePx * 2}>
       {background}
+      {children}
       {lines}
     </Group>
   );
@@ -1,7 +1,9 @@
 import { Group, Rect } from "react-konva";
 import { LandingObj, MeasurementKey, SnapIncrementMm, Tool } from "../../model/types";
+import { getDimensionSpecsMm } from "../../model/dimensions";
 import { mmToPx } from "../../model/units";
 import DimensionAnnotation from "./DimensionAnnotation";
+import EdgeFeatures2D from "./EdgeFeatures2D";
 
 type Props = {
   obj: LandingObj;
@@ -50,10 +52,7 @@ export default function ShapeLanding2D({
   const opacity = ghost ? 0.35 : 1;
   const rectX = -widthPx / 2;
   const rectY = -heightPx / 2;
-  const halfLengthMm = obj.lengthMm / 2;
-  const halfWidthMm = obj.widthMm / 2;
   const canDragOffsets = selected && !obj.locked;
-  const label = (value: number) => `${value}mm`;
 
   return (
     <Group
@@ -79,54 +78,20 @@ export default function ShapeLanding2D({
         strokeWidth={selected ? 3 : 2}
         opacity={opacity}
       />
-      {obj.measurements.L1 && (
+      <EdgeFeatures2D obj={obj} stroke={stroke} opacity={opacity} />
+      {getDimensionSpecsMm(obj).map((spec) => (
         <DimensionAnnotation
-          startMm={{ xMm: -halfLengthMm, yMm: -halfWidthMm }}
-          endMm={{ xMm: halfLengthMm, yMm: -halfWidthMm }}
-          normalMm={{ xMm: 0, yMm: -1 }}
-          offsetMm={obj.measurementOffsets.L1}
-          label={label(obj.lengthMm)}
+          key={spec.key}
+          startMm={spec.startMm}
+          endMm={spec.endMm}
+          normalMm={spec.normalMm}
+          offsetMm={spec.offsetMm}
+          label={spec.label}
           rotationDeg={obj.rotationDeg}
           snapIncrementMm={snapIncrementMm}
-          onOffsetChange={canDragOffsets ? (offsetMm) => onMeasurementOffsetChange?.("L1", offsetMm) : undefined}
+          onOffsetChange={canDragOffsets ? (offsetMm) => onMeasurementOffsetChange?.(spec.key, offsetMm) : undefined}
         />
-      )}
-      {obj.measurements.L2 && (
-        <DimensionAnnotation
-          startMm={{ xMm: -halfLengthMm, yMm: halfWidthMm }}
-          endMm={{ xMm: halfLengthMm, yMm: halfWidthMm }}
-          normalMm={{ xMm: 0, yMm: 1 }}
-          offsetMm={obj.measurementOffsets.L2}
-          label={label(obj.lengthMm)}
-          rotationDeg={obj.rotationDeg}
-          snapIncrementMm={snapIncrementMm}
-          onOffsetChange={canDragOffsets ? (offsetMm) => onMeasurementOffsetChange?.("L2", offsetMm) : undefined}
-        />
-      )}
-      {obj.measurements.W1 && (
-        <DimensionAnnotation
-          startMm={{ xMm: -halfLengthMm, yMm: -halfWidthMm }}
-          endMm={{ xMm: -halfLengthMm, yMm: halfWidthMm }}
-          normalMm={{ xMm: -1, yMm: 0 }}
-          offsetMm={obj.measurementOffsets.W1}
-          label={label(obj.widthMm)}
-          rotationDeg={obj.rotationDeg}
-          snapIncrementMm={snapIncrementMm}
-          onOffsetChange={canDragOffsets ? (offsetMm) => onMeasurementOffsetChange?.("W1", offsetMm) : undefined}
-        />
-      )}
-      {obj.measurements.W2 && (
-        <DimensionAnnotation
-          startMm={{ xMm: halfLengthMm, yMm: -halfWidthMm }}
-          endMm={{ xMm: halfLengthMm, yMm: halfWidthMm }}
-          normalMm={{ xMm: 1, yMm: 0 }}
-          offsetMm={obj.measurementOffsets.W2}
-          label={label(obj.widthMm)}
-          rotationDeg={obj.rotationDeg}
-          snapIncrementMm={snapIncrementMm}
-          onOffsetChange={canDragOffsets ? (offsetMm) => onMeasurementOffsetChange?.("W2", offsetMm) : undefined}
-        />
-      )}
+      ))}
     </Group>
   );
 }
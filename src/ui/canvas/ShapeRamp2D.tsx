@@ -1,8 +1,10 @@
 import { Group, Line, Arrow } from "react-konva";
 import { getRampOutlinePointsMm, getRampSeamLinesMm } from "../../model/geometry";
 import { MeasurementKey, RampObj, SnapIncrementMm, Tool } from "../../model/types";
+import { getDimensionSpecsMm } from "../../model/dimensions";
 import { mmToPx } from "../../model/units";
 import DimensionAnnotation from "./DimensionAnnotation";
+import EdgeFeatures2D from "./EdgeFeatures2D";
 
 type Props = {
   obj: RampObj;
@@ -62,10 +64,7 @@ export default function ShapeRamp2D({
   const lengthPx = mmToPx(obj.runMm);
   const arrowStartX = -lengthPx / 2 + lengthPx * 0.1;
   const arrowEndX = lengthPx / 2 - lengthPx * 0.1;
-  const halfLengthMm = obj.runMm / 2;
-  const halfWidthMm = obj.widthMm / 2;
   const canDragOffsets = selected && !obj.locked;
-  const label = (value: number) => `${value}mm`;
 
   return (
     <Group
@@ -93,6 +92,7 @@ export default function ShapeRamp2D({
       {seamLinesPx.map((points, idx) => (
         <Line key={`seam-${idx}`} points={points} stroke={stroke} strokeWidth={strokeWidth} opacity={opacity} lineCap="butt" />
       ))}
+      <EdgeFeatures2D obj={obj} stroke={stroke} opacity={opacity} />
       {obj.showArrow && (
         <Arrow
           points={[arrowStartX, 0, arrowEndX, 0]}
@@ -104,78 +104,19 @@ export default function ShapeRamp2D({
           opacity={opacity}
         />
       )}
-      {obj.measurements.L1 && (
+      {getDimensionSpecsMm(obj).map((spec) => (
         <DimensionAnnotation
-          startMm={{ xMm: -halfLengthMm, yMm: -halfWidthMm }}
-          endMm={{ xMm: halfLengthMm, yMm: -halfWidthMm }}
-          normalMm={{ xMm: 0, yMm: -1 }}
-          offsetMm={obj.measurementOffsets.L1}
-          label={label(obj.runMm)}
+          key={spec.key}
+          startMm={spec.startMm}
+          endMm={spec.endMm}
+          normalMm={spec.normalMm}
+          offsetMm={spec.offsetMm}
+          label={spec.label}
           rotationDeg={obj.rotationDeg}
           snapIncrementMm={snapIncrementMm}
-          onOffsetChange={canDragOffsets ? (offsetMm) => onMeasurementOffsetChange?.("L1", offsetMm) : undefined}
+          onOffsetChange={canDragOffsets ? (offsetMm) => onMeasurementOffsetChange?.(spec.key, offsetMm) : undefined}
         />
-      )}
-      {obj.measurements.L2 && (
-        <DimensionAnnotation
-          startMm={{ xMm: -halfLengthMm, yMm: halfWidthMm }}
-          endMm={{ xMm: halfLengthMm, yMm: halfWidthMm }}
-          normalMm={{ xMm: 0, yMm: 1 }}
-          offsetMm={obj.measurementOffsets.L2}
-          label={label(obj.runMm)}
-          rotationDeg={obj.rotationDeg}
-          snapIncrementMm={snapIncrementMm}
-          onOffsetChange={canDragOffsets ? (offsetMm) => onMeasurementOffsetChange?.("L2", offsetMm) : undefined}
-        />
-      )}
-      {obj.measurements.W1 && (
-        <DimensionAnnotation
-          startMm={{ xMm: -halfLengthMm, yMm: -halfWidthMm }}
-          endMm={{ xMm: -halfLengthMm, yMm: halfWidthMm }}
-          normalMm={{ xMm: -1, yMm: 0 }}
-          offsetMm={obj.measurementOffsets.W1}
-          label={label(obj.widthMm)}
-          rotationDeg={obj.rotationDeg}
-          snapIncrementMm={snapIncrementMm}
-          onOffsetChange={canDragOffsets ? (offsetMm) => onMeasurementOffsetChange?.("W1", offsetMm) : undefined}
-        />
-      )}
-      {obj.measurements.W2 && (
-        <DimensionAnnotation
-          startMm={{ xMm: halfLengthMm, yMm: -halfWidthMm }}
-          endMm={{ xMm: halfLengthMm, yMm: halfWidthMm }}
-          normalMm={{ xMm: 1, yMm: 0 }}
-          offsetMm={obj.measurementOffsets.W2}
-          label={label(obj.widthMm)}
-          rotationDeg={obj.rotationDeg}
-          snapIncrementMm={snapIncrementMm}
-          onOffsetChange={canDragOffsets ? (offsetMm) => onMeasurementOffsetChange?.("W2", offsetMm) : undefined}
-        />
-      )}
-      {obj.hasLeftWing && obj.measurements.WL && obj.leftWingSizeMm > 0 && (
-        <DimensionAnnotation
-          startMm={{ xMm: halfLengthMm, yMm: -halfWidthMm }}
-          endMm={{ xMm: halfLengthMm, yMm: -halfWidthMm - obj.leftWingSizeMm }}
-          normalMm={{ xMm: 1, yMm: 0 }}
-          offsetMm={obj.measurementOffsets.WL}
-          label={label(obj.leftWingSizeMm)}
-          rotationDeg={obj.rotationDeg}
-          snapIncrementMm={snapIncrementMm}
-          onOffsetChange={canDragOffsets ? (offsetMm) => onMeasurementOffsetChange?.("WL", offsetMm) : undefined}
-        />
-      )}
-      {obj.hasRightWing && obj.measurements.WR && obj.rightWingSizeMm > 0 && (
-        <DimensionAnnotation
-          startMm={{ xMm: halfLengthMm, yMm: halfWidthMm }}
-          endMm={{ xMm: halfLengthMm, yMm: halfWidthMm + obj.rightWingSizeMm }}
-          normalMm={{ xMm: 1, yMm: 0 }}
-          offsetMm={obj.measurementOffsets.WR}
-          label={label(obj.rightWingSizeMm)}
-          rotationDeg={obj.rotationDeg}
-          snapIncrementMm={snapIncrementMm}
-          onOffsetChange={canDragOffsets ? (offsetMm) => onMeasurementOffsetChange?.("WR", offsetMm) : undefined}
-        />
-      )}
+      ))}
     </Group>
   );
 }
@@ -0,0 +1,131 @@
+import { Arrow, Group, Line, Rect } from "react-konva";
+import { MeasurementKey, SnapIncrementMm, StairsObj, Tool } from "../../model/types";
+import { getDimensionSpecsMm } from "../../model/dimensions";
+import { LineSegmentMm, getStairsTreadLinesMm } from "../../model/geometry";
+import { mmToPx } from "../../model/units";
+import DimensionAnnotation from "./DimensionAnnotation";
+
+type Props = {
+  obj: StairsObj;
+  selected: boolean;
+  hover: boolean;
+  activeTool: Tool;
+  snapIncrementMm: SnapIncrementMm;
+  draggable: boolean;
+  dragBoundFunc?: (pos: any) => any;
+  ghost?: boolean;
+  onMeasurementOffsetChange?: (key: MeasurementKey, offsetMm: number) => void;
+  onPointerDown?: (evt: any) => void;
+  onMouseEnter?: () => void;
+  onMouseLeave?: () => void;
+  onDragStart?: () => void;
+  onDragEnd?: (evt: any) => void;
+};
+
+export default function ShapeStairs2D({
+  obj,
+  selected,
+  hover,
+  activeTool,
+  snapIncrementMm,
+  draggable,
+  dragBoundFunc,
+  ghost = false,
+  onMeasurementOffsetChange,
+  onPointerDown,
+  onMouseEnter,
+  onMouseLeave,
+  onDragStart,
+  onDragEnd,
+}: Props) {
+  const widthPx = mmToPx(obj.lengthMm);
+  const heightPx = mmToPx(obj.widthMm);
+  const fill = ghost ? "rgba(59,130,246,0.25)" : "#e5e7eb";
+  const stroke =
+    activeTool === "delete" && hover
+      ? "#ef4444"
+      : selected
+        ? "#2563eb"
+        : hover
+          ? "#64748b"
+          : "#0f172a";
+  const opacity = ghost ? 0.35 : 1;
+  const strokeWidth = selected ? 3 : 2;
+  const rectX = -widthPx / 2;
+  const rectY = -heightPx / 2;
+  const canDragOffsets = selected && !obj.locked;
+  const { nosings, risers } = getStairsTreadLinesMm(obj);
+  const toLinePx = (line: LineSegmentMm) => [
+    mmToPx(line.start.xMm),
+    mmToPx(line.start.yMm),
+    mmToPx(line.end.xMm),
+    mmToPx(line.end.yMm),
+  ];
+  const arrowStartX = rectX + widthPx * 0.1;
+  const arrowEndX = -rectX - widthPx * 0.1;
+
+  return (
+    <Group
+      x={mmToPx(obj.xMm)}
+      y={mmToPx(obj.yMm)}
+      draggable={draggable && !ghost}
+      onPointerDown={onPointerDown}
+      onMouseEnter={onMouseEnter}
+      onMouseLeave={onMouseLeave}
+      onDragStart={onDragStart}
+      onDragEnd={onDragEnd}
+      dragBoundFunc={dragBoundFunc}
+      rotation={obj.rotationDeg}
+      listening={!ghost}
+    >
+      <Rect
+        x={rectX}
+        y={rectY}
+        width={widthPx}
+        height={heightPx}
+        fill={fill}
+        stroke={stroke}
+        strokeWidth={strokeWidth}
+        opacity={opacity}
+      />
+      {nosings.map((line, idx) => (
+        <Line key={`nosing-${idx}`} points={toLinePx(line)} stroke={stroke} strokeWidth={1} opacity={opacity} lineCap="butt" />
+      ))}
+      {risers.map((line, idx) => (
+        <Line
+          key={`riser-${idx}`}
+          points={toLinePx(line)}
+          stroke={stroke}
+          strokeWidth={1}
+          dash={[4, 4]}
+          opacity={opacity}
+          lineCap="butt"
+        />
+      ))}
+      {obj.showArrow && (
+        <Arrow
+          points={[arrowStartX, 0, arrowEndX, 0]}
+          pointerLength={14}
+          pointerWidth={14}
+          stroke={stroke}
+          fill={stroke}
+          strokeWidth={strokeWidth}
+          opacity={opacity}
+        />
+      )}
+      {getDimensionSpecsMm(obj).map((spec) => (
+        <DimensionAnnotation
+          key={spec.key}
+          startMm={spec.startMm}
+          endMm={spec.endMm}
+          normalMm={spec.normalMm}
+          offsetMm={spec.offsetMm}
+          label={spec.label}
+          rotationDeg={obj.rotationDeg}
+          snapIncrementMm={snapIncrementMm}
+          onOffsetChange={canDragOffsets ? (offsetMm) => onMeasurementOffsetChange?.(spec.key, offsetMm) : undefined}
+        />
+      ))}
+    </Group>
+  );
+}
@@ -0,0 +1,72 @@
+import { useEffect, useState } from "react";
+import { Group, Image as KonvaImage, Shape } from "react-konva";
+import type { ImageUnderlay, Underlay, VectorUnderlay } from "../../model/types";
+import { mmToPx } from "../../model/units";
+
+type Underlay2DProps = {
+  underlay: Underlay;
+};
+
+/**
+ * All segments go into one Konva shape so large site plans stay cheap to redraw, and the stroke
+ * stays one screen pixel wide whatever the zoom or underlay scale.
+ */
+function VectorLines({ underlay }: { underlay: VectorUnderlay }) {
+  return (
+    <Shape
+      stroke="#475569"
+      strokeWidth={1}
+      strokeScaleEnabled={false}
+      perfectDrawEnabled={false}
+      listening={false}
+      sceneFunc={(context, shape) => {
+        context.beginPath();
+        underlay.segments.forEach(([x1, y1, x2, y2]) => {
+          context.moveTo(x1, y1);
+          context.lineTo(x2, y2);
+        });
+        context.strokeShape(shape);
+      }}
+    />
+  );
+}
+
+function RasterImage({ underlay }: { underlay: ImageUnderlay }) {
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+
+  useEffect(() => {
+    const next = new window.Image();
+    let cancelled = false;
+    next.onload = () => {
+      if (!cancelled) setImage(next);
+    };
+    next.src = underlay.dataUrl;
+    return () => {
+      cancelled = true;
+    };
+  }, [underlay.dataUrl]);
+
+  if (!image) return null;
+  return <KonvaImage image={image} width={underlay.widthPx} height={underlay.heightPx} listening={false} />;
+}
+
+/** Traced background drawing, positioned in source units by the underlay's placement. */
+export default function Underlay2D({ underlay }: Underlay2DProps) {
+  if (!underlay.visible) return null;
+
+  return (
+    <Group
+      x={mmToPx(underlay.originXMm)}
+      y={mmToPx(underlay.originYMm)}
+      offsetX={underlay.anchorX}
+      offsetY={underlay.anchorY}
+      scaleX={mmToPx(underlay.scale)}
+      scaleY={mmToPx(underlay.scale)}
+      rotation={underlay.rotationDeg}
+      opacity={underlay.opacity}
+      listening={false}
+    >
+      {underlay.kind === "vector" ? <VectorLines underlay={underlay} /> : <RasterImage underlay={underlay} />}
+    </Group>
+  );
+}
@@ -0,0 +1,194 @@
+import { useEffect, useMemo, useState } from "react";
+import { getGradientStatus } from "../../model/compliance";
+import { RAMP_LAYOUT_LABELS, designRampRun, type RampLayout, type RampRunSpec, type TurnDirection } from "../../model/rampDesigner";
+import type { ComplianceRules, Object2D } from "../../model/types";
+
+type RampDesignerDialogProps = {
+  complianceRules: ComplianceRules;
+  /** `name` labels the group the run is inserted as. */
+  onInsert: (objects: Object2D[], name: string) => void;
+  onClose: () => void;
+};
+
+type NumericKey =
+  | "totalRiseMm"
+  | "gradientRatio"
+  | "maxRunMm"
+  | "landingLengthMm"
+  | "widthMm"
+  | "startXMm"
+  | "startYMm"
+  | "directionDeg";
+
+const numericConfig: { key: NumericKey; label: string; signed?: boolean }[] = [
+  { key: "totalRiseMm", label: "Total Rise (mm)" },
+  { key: "gradientRatio", label: "Gradient (1:x)" },
+  { key: "maxRunMm", label: "Max Run Between Landings (mm)" },
+  { key: "landingLengthMm", label: "Landing Length (mm)" },
+  { key: "widthMm", label: "Ramp Width (mm)" },
+  { key: "startXMm", label: "Start X (mm)", signed: true },
+  { key: "startYMm", label: "Start Y (mm)", signed: true },
+  { key: "directionDeg", label: "Uphill Direction (°)" },
+];
+
+const layoutOptions = Object.keys(RAMP_LAYOUT_LABELS) as RampLayout[];
+
+const DEFAULT_TOTAL_RISE_MM = 650;
+const DEFAULT_GRADIENT_RATIO = 14;
+const DEFAULT_MAX_RUN_MM = 9000;
+
+const sanitiseNumericInput = (value: string, signed = false): string =>
+  signed ? value.replace(/[^\d-]/g, "").replace(/(?!^)-/g, "") : value.replace(/[^\d]/g, "");
+
+const parseField = (value: string): number => (value === "" || value === "-" ? NaN : parseInt(value, 10));
+
+/** Generates a whole ramp run (flights plus landings) from the rise to climb, inserted in one go. */
+export default function RampDesignerDialog({ complianceRules, onInsert, onClose }: RampDesignerDialogProps) {
+  const [values, setValues] = useState<Record<NumericKey, string>>(() => ({
+    totalRiseMm: String(DEFAULT_TOTAL_RISE_MM),
+    gradientRatio: String(DEFAULT_GRADIENT_RATIO),
+    maxRunMm: String(DEFAULT_MAX_RUN_MM),
+    landingLengthMm: String(complianceRules.minLandingLengthMm),
+    widthMm: String(complianceRules.minClearWidthMm),
+    startXMm: "0",
+    startYMm: "0",
+    directionDeg: "0",
+  }));
+  const [layout, setLayout] = useState<RampLayout>("straight");
+  const [turn, setTurn] = useState<TurnDirection>("left");
+  const [topLanding, setTopLanding] = useState(true);
+
+  useEffect(() => {
+    const handleKey = (event: globalThis.KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [onClose]);
+
+  const plan = useMemo(() => {
+    const spec: RampRunSpec = {
+      totalRiseMm: parseField(values.totalRiseMm),
+      gradientRatio: parseField(values.gradientRatio),
+      maxRunMm: parseField(values.maxRunMm),
+      landingLengthMm: parseField(values.landingLengthMm),
+      widthMm: parseField(values.widthMm),
+      startMm: { xMm: parseField(values.startXMm), yMm: parseField(values.startYMm) },
+      directionDeg: parseField(values.directionDeg),
+      layout,
+      turn,
+      topLanding,
+    };
+    return designRampRun(spec);
+  }, [values, layout, turn, topLanding]);
+
+  const flightNotes = useMemo(() => {
+    if (!plan) return [];
+    return plan.flights.map((flight) => {
+      const issues: string[] = [];
+      if (getGradientStatus(complianceRules, flight.runMm, flight.riseMm) === "fail") issues.push("too steep for its run");
+      if (flight.riseMm > complianceRules.maxRiseBetweenLandingsMm) {
+        issues.push(`rise over ${complianceRules.maxRiseBetweenLandingsMm}mm`);
+      }
+      return issues;
+    });
+  }, [complianceRules, plan]);
+
+  const handleInsert = () => {
+    if (!plan) return;
+    onInsert(plan.objects, `${RAMP_LAYOUT_LABELS[layout]} ramp run`);
+  };
+
+  const totalRunMm = plan ? plan.flights.reduce((sum, flight) => sum + flight.runMm, 0) : 0;
+
+  return (
+    <div className="ob-dialogBackdrop" onMouseDown={onClose}>
+      <div
+        className="ob-dialog"
+        role="dialog"
+        aria-modal="true"
+        aria-label="Ramp Designer"
+        onMouseDown={(evt) => evt.stopPropagation()}
+      >
+        <div className="ob-dialog__header">
+          <span className="ob-dialog__title">Ramp Designer</span>
+          <button type="button" className="mode-button mode-button--ghost" onClick={onClose}>
+            Close
+          </button>
+        </div>
+        <div className="ob-dialog__section">
+          <div className="ob-dialog__sectionTitle">Run</div>
+          {numericConfig.map(({ key, label, signed }) => (
+            <label key={key} className="ob-dialog__field">
+              <span className="ob-dialog__label">{label}</span>
+              <input
+                type="text"
+                inputMode="numeric"
+                className="ob-dialog__input"
+                value={values[key]}
+                onChange={(event) =>
+                  setValues((current) => ({ ...current, [key]: sanitiseNumericInput(event.target.value, signed) }))
+                }
+              />
+            </label>
+          ))}
+          <label className="ob-dialog__field">
+            <span className="ob-dialog__label">Layout</span>
+            <select className="ob-dialog__input" value={layout} onChange={(evt) => setLayout(evt.target.value as RampLayout)}>
+              {layoutOptions.map((option) => (
+                <option key={option} value={option}>
+                  {RAMP_LAYOUT_LABELS[option]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="ob-dialog__field">
+            <span className="ob-dialog__label">Turn</span>
+            <select
+              className="ob-dialog__input"
+              value={turn}
+              disabled={layout === "straight"}
+              onChange={(evt) => setTurn(evt.target.value as TurnDirection)}
+            >
+              <option value="left">Left</option>
+              <option value="right">Right</option>
+            </select>
+          </label>
+          <label className="ob-dialog__field">
+            <span className="ob-dialog__label">Landing at Top</span>
+            <input type="checkbox" checked={topLanding} onChange={(evt) => setTopLanding(evt.target.checked)} />
+          </label>
+        </div>
+        <div className="ob-dialog__section">
+          <div className="ob-dialog__sectionTitle">Result</div>
+          {plan ? (
+            <>
+              <div className="ob-dialog__hint">
+                {plan.flights.length} {plan.flights.length === 1 ? "flight" : "flights"}, {totalRunMm}mm of ramp in total,{" "}
+                {plan.objects.length} objects
+              </div>
+              {plan.flights.map((flight, idx) => (
+                <div
+                  key={idx}
+                  className={`ob-dialog__hint ${flightNotes[idx]?.length ? "ob-dialog__hint--warning" : ""}`}
+                >
+                  Flight {idx + 1}: run {flight.runMm}mm, rise {flight.riseMm}mm
+                  {flightNotes[idx]?.length ? ` (${flightNotes[idx].join(", ")})` : ""}
+                </div>
+              ))}
+            </>
+          ) : (
+            <div className="ob-dialog__hint ob-dialog__hint--warning">
+              Fill in every field; sizes and the gradient must be greater than zero.
+            </div>
+          )}
+          <div className="ob-dialog__actions">
+            <button type="button" className="mode-button mode-button--active" onClick={handleInsert} disabled={!plan}>
+              Insert
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import { useEffect, useMemo, useState, type KeyboardEvent } from "react";
+import { exportPlanDxf } from "../../export/dxfExport";
+import { PAPER_SIZES_MM, exportPlanPdf, getPdfSheetLayout, type PaperSize } from "../../export/pdfExport";
+import { DRAWING_SCALES, type DrawingScale, type SheetLayoutMode } from "../../export/sheetLayout";
+import { exportPlanSvg } from "../../export/svgExport";
+import { getObjectAnnotations } from "../../model/annotations";
+import type { Object2D, ProjectInfo } from "../../model/types";
+
+type ExportDialogProps = {
+  objects: Object2D[];
+  /** Every object including hidden ones, so default names number as they do in the app. */
+  allObjects: Object2D[];
+  projectInfo: ProjectInfo;
+  onUpdateProjectInfo: (patch: Partial<ProjectInfo>) => void;
+  onClose: () => void;
+};
+
+const infoConfig: { key: keyof ProjectInfo; label: string }[] = [
+  { key: "name", label: "Project" },
+  { key: "client", label: "Client" },
+  { key: "address", label: "Address" },
+  { key: "designer", label: "Designer" },
+  { key: "revision", label: "Revision" },
+];
+
+const paperOptions = Object.keys(PAPER_SIZES_MM) as PaperSize[];
+
+const layoutOptions: { value: SheetLayoutMode; label: string }[] = [
+  { value: "fit", label: "Fit to sheet (auto scale)" },
+  { value: "fixed", label: "Fixed scale, one sheet" },
+  { value: "tile", label: "Fixed scale, tiled across sheets" },
+];
+
+export default function ExportDialog({ objects, allObjects, projectInfo, onUpdateProjectInfo, onClose }: ExportDialogProps) {
+  const [infoValues, setInfoValues] = useState<ProjectInfo>(projectInfo);
+  const [paper, setPaper] = useState<PaperSize>("A3");
+  const [scale, setScale] = useState<DrawingScale>(50);
+  const [layoutMode, setLayoutMode] = useState<SheetLayoutMode>("fit");
+  const [includeAnnotations, setIncludeAnnotations] = useState(true);
+  const annotations = useMemo(
+    () => (includeAnnotations ? getObjectAnnotations(objects, allObjects) : []),
+    [allObjects, includeAnnotations, objects],
+  );
+  const sheetLayout = useMemo(
+    () => getPdfSheetLayout(objects, { paper, scale, layout: layoutMode }, annotations),
+    [objects, paper, scale, layoutMode, annotations],
+  );
+  const sheetCount = sheetLayout.tiles.length;
+
+  useEffect(() => {
+    setInfoValues(projectInfo);
+  }, [projectInfo]);
+
+  useEffect(() => {
+    const handleKey = (event: globalThis.KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [onClose]);
+
+  const commitInfo = (key: keyof ProjectInfo) => {
+    if (infoValues[key] !== projectInfo[key]) {
+      onUpdateProjectInfo({ [key]: infoValues[key] });
+    }
+  };
+
+  const handleInfoKeyDown = (key: keyof ProjectInfo) => (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      commitInfo(key);
+      (event.target as HTMLInputElement).blur();
+    }
+  };
+
+  const handleExportPdf = () => {
+    exportPlanPdf(objects, infoValues, { paper, scale, layout: layoutMode }, annotations);
+  };
+
+  const handleExportSvg = () => {
+    exportPlanSvg(objects, infoValues, annotations);
+  };
+
+  const handleExportDxf = () => {
+    exportPlanDxf(objects, infoValues, annotations);
+  };
+
+  return (
+    <div className="ob-dialogBackdrop" onMouseDown={onClose}>
+      <div className="ob-dialog" role="dialog" aria-modal="true" aria-label="Export" onMouseDown={(evt) => evt.stopPropagation()}>
+        <div className="ob-dialog__header">
+          <span className="ob-dialog__title">Export</span>
+          <button type="button" className="mode-button mode-button--ghost" onClick={onClose}>
+            Close
+          </button>
+        </div>
+        <div className="ob-dialog__section">
+          <div className="ob-dialog__sectionTitle">Title Block</div>
+          {infoConfig.map(({ key, label }) => (
+            <label key={key} className="ob-dialog__field">
+              <span className="ob-dialog__label">{label}</span>
+              <input
+                type="text"
+                className="ob-dialog__input"
+                value={infoValues[key]}
+                onChange={(event) => setInfoValues((current) => ({ ...current, [key]: event.target.value }))}
+                onBlur={() => commitInfo(key)}
+                onKeyDown={handleInfoKeyDown(key)}
+              />
+            </label>
+          ))}
+          <label className="ob-dialog__field">
+            <span className="ob-dialog__label">Names, Tags &amp; Notes</span>
+            <input type="checkbox" checked={includeAnnotations} onChange={(evt) => setIncludeAnnotations(evt.target.checked)} />
+          </label>
+          <div className="ob-dialog__hint">
+            {includeAnnotations && annotations.length === 0
+              ? "No object has a name, tags or notes to print."
+              : "Labels each named or tagged object; notes are numbered and listed beside the plan."}
+          </div>
+        </div>
+        <div className="ob-dialog__section">
+          <div className="ob-dialog__sectionTitle">PDF Drawing</div>
+          <label className="ob-dialog__field">
+            <span className="ob-dialog__label">Sheet</span>
+            <select className="ob-dialog__input" value={paper} onChange={(evt) => setPaper(evt.target.value as PaperSize)}>
+              {paperOptions.map((option) => (
+                <option key={option} value={option}>
+                  {option} landscape
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="ob-dialog__field">
+            <span className="ob-dialog__label">Layout</span>
+            <select
+              className="ob-dialog__input"
+              value={layoutMode}
+              onChange={(evt) => setLayoutMode(evt.target.value as SheetLayoutMode)}
+            >
+              {layoutOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="ob-dialog__field">
+            <span className="ob-dialog__label">Scale</span>
+            <select
+              className="ob-dialog__input"
+              value={scale}
+              disabled={layoutMode === "fit"}
+              onChange={(evt) => setScale(Number(evt.target.value) as DrawingScale)}
+            >
+              {DRAWING_SCALES.map((option) => (
+                <option key={option} value={option}>
+                  1:{option}
+                </option>
+              ))}
+            </select>
+          </label>
+          <div className="ob-dialog__hint">
+            1:{sheetLayout.scale} on {sheetCount} {sheetCount === 1 ? "sheet" : `sheets (${sheetLayout.cols} × ${sheetLayout.rows})`}
+          </div>
+          <div className="ob-dialog__actions">
+            <button type="button" className="mode-button mode-button--active" onClick={handleExportPdf}>
+              Download PDF
+            </button>
+          </div>
+        </div>
+        <div className="ob-dialog__section">
+          <div className="ob-dialog__sectionTitle">CAD &amp; Vector</div>
+          <div className="ob-dialog__hint">
+            Real millimetres at 1:1. SVG embeds in reports and Word documents; DXF (R12) opens in AutoCAD and DraftSight with
+            RAMP, LANDING, STAIRS, WINGS, DIMENSIONS, TEXT and NOTES layers.
+          </div>
+          <div className="ob-dialog__actions">
+            <button type="button" className="mode-button" onClick={handleExportSvg}>
+              Download SVG
+            </button>
+            <button type="button" className="mode-button" onClick={handleExportDxf}>
+              Download DXF
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { useEffect, useRef, useState } from "react";
+import { formatTagList, parseTagList } from "../../model/annotations";
+import type { ObjectPatch } from "../../model/objectUpdate";
+import type { Object2D } from "../../model/types";
+
+type AnnotationSectionProps = {
+  obj: Object2D;
+  /** Shown while the name is empty, e.g. "Ramp 2". */
+  defaultName: string;
+  onUpdateObject: (id: string, patch: ObjectPatch, commitChange?: boolean) => void;
+};
+
+/**
+ * A text field that commits on blur (or Enter for single-line fields), so typing a label is one
+ * undo step rather than one per keystroke.
+ */
+function AnnotationInput({
+  label,
+  value,
+  placeholder,
+  multiline = false,
+  onCommit,
+}: {
+  label: string;
+  value: string;
+  placeholder?: string;
+  multiline?: boolean;
+  onCommit: (value: string) => void;
+}) {
+  const [draft, setDraft] = useState(value);
+  // Escape blurs the field before the reset draft has rendered, so the blur is told not to commit.
+  const cancelledRef = useRef(false);
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  const commit = () => {
+    if (cancelledRef.current) {
+      cancelledRef.current = false;
+      return;
+    }
+    if (draft !== value) onCommit(draft);
+  };
+
+  return (
+    <label className="inspector__field inspector__field--stacked inspector__field--text">
+      <span className="inspector__label">{label}</span>
+      {multiline ? (
+        <textarea
+          className="inspector__input inspector__input--text inspector__textarea"
+          rows={3}
+          value={draft}
+          placeholder={placeholder}
+          onChange={(event) => setDraft(event.target.value)}
+          onBlur={commit}
+        />
+      ) : (
+        <input
+          type="text"
+          className="inspector__input inspector__input--text"
+          value={draft}
+          placeholder={placeholder}
+          onChange={(event) => setDraft(event.target.value)}
+          onBlur={commit}
+          onKeyDown={(event) => {
+            if (event.key === "Enter") (event.target as HTMLInputElement).blur();
+            if (event.key === "Escape") {
+              cancelledRef.current = true;
+              setDraft(value);
+              (event.target as HTMLInputElement).blur();
+            }
+          }}
+        />
+      )}
+    </label>
+  );
+}
+
+/** Name, tags and notes. These stay editable on locked objects, since they never move anything. */
+export default function AnnotationSection({ obj, defaultName, onUpdateObject }: AnnotationSectionProps) {
+  return (
+    <div className="inspector__section inspector__section--annotations">
+      <div className="inspector__sectionHeader">
+        <span className="inspector__label">Label</span>
+      </div>
+      <AnnotationInput
+        label="Name"
+        value={obj.name}
+        placeholder={defaultName}
+        onCommit={(name) => onUpdateObject(obj.id, { name: name.trim() }, true)}
+      />
+      <AnnotationInput
+        label="Tags"
+        value={formatTagList(obj.tags)}
+        placeholder="e.g. existing, phase 2"
+        onCommit={(text) => onUpdateObject(obj.id, { tags: parseTagList(text) }, true)}
+      />
+      <AnnotationInput
+        label="Notes"
+        value={obj.notes}
+        placeholder="e.g. existing concrete, verify level on site"
+        multiline
+        onCommit={(notes) => onUpdateObject(obj.id, { notes }, true)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { useEffect, useState, type KeyboardEvent } from "react";
+import type { ObjectPatch } from "../../model/objectUpdate";
+import type { EdgeFeatures, EdgeSide, LandingObj, RampObj } from "../../model/types";
+
+type EdgeFeaturesSectionProps = {
+  obj: RampObj | LandingObj;
+  onUpdateObject: (id: string, patch: ObjectPatch, commitChange?: boolean) => void;
+};
+
+type EdgeToggleKey = "handrail" | "kerbRail" | "balustrade";
+type EdgeSizeKey = "handrailHeightMm" | "handrailExtensionStartMm" | "handrailExtensionEndMm" | "kerbRailHeightMm";
+
+const sides: { side: EdgeSide; label: string }[] = [
+  { side: "left", label: "Left Side" },
+  { side: "right", label: "Right Side" },
+];
+
+const sanitiseNumericInput = (value: string): string => value.replace(/[^\d]/g, "");
+
+type EdgeSizeInputProps = {
+  label: string;
+  value: number;
+  disabled: boolean;
+  onCommit: (value: number) => void;
+};
+
+function EdgeSizeInput({ label, value, disabled, onCommit }: EdgeSizeInputProps) {
+  const [draft, setDraft] = useState(String(value));
+
+  useEffect(() => {
+    setDraft(String(value));
+  }, [value]);
+
+  const commit = () => {
+    const parsed = draft === "" ? NaN : parseInt(draft, 10);
+    if (Number.isNaN(parsed)) {
+      setDraft(String(value));
+      return;
+    }
+    if (parsed !== value) onCommit(parsed);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      commit();
+      (event.target as HTMLInputElement).blur();
+    }
+  };
+
+  return (
+    <label className="inspector__field">
+      <span className="inspector__label">{label}</span>
+      <input
+        type="text"
+        inputMode="numeric"
+        className="inspector__input"
+        value={draft}
+        onChange={(event) => setDraft(sanitiseNumericInput(event.target.value))}
+        onBlur={commit}
+        onKeyDown={handleKeyDown}
+        disabled={disabled}
+      />
+    </label>
+  );
+}
+
+function EdgeToggle({ label, on, disabled, onToggle }: { label: string; on: boolean; disabled: boolean; onToggle: () => void }) {
+  return (
+    <label className="inspector__field">
+      <span className="inspector__label">{label}</span>
+      <button
+        type="button"
+        className={`inspector__toggle ${on ? "is-on" : "is-off"}`}
+        onClick={onToggle}
+        aria-pressed={on}
+        disabled={disabled}
+      >
+        <span className="inspector__toggleTrack">
+          <span className="inspector__toggleThumb" />
+        </span>
+        <span className="inspector__toggleText">{on ? "on" : "off"}</span>
+      </button>
+    </label>
+  );
+}
+
+/** Per-side handrail, kerb rail and balustrade settings for ramps and landings. */
+export default function EdgeFeaturesSection({ obj, onUpdateObject }: EdgeFeaturesSectionProps) {
+  const locked = obj.locked;
+  const startLabel = obj.kind === "ramp" ? "bottom" : "start";
+  const endLabel = obj.kind === "ramp" ? "top" : "end";
+
+  const updateSide = (side: EdgeSide, patch: Partial<EdgeFeatures>) => {
+    if (locked) return;
+    onUpdateObject(obj.id, { edges: { ...obj.edges, [side]: { ...obj.edges[side], ...patch } } }, true);
+  };
+
+  const toggle = (side: EdgeSide, key: EdgeToggleKey) => () => updateSide(side, { [key]: !obj.edges[side][key] });
+  const setSize = (side: EdgeSide, key: EdgeSizeKey) => (value: number) => updateSide(side, { [key]: value });
+
+  return (
+    <div className="inspector__section inspector__section--edges">
+      <div className="inspector__sectionHeader">
+        <span className="inspector__label">Edges</span>
+      </div>
+      <div className="inspector__helperText">
+        Left is the side on your left looking along the {obj.kind === "ramp" ? "arrow (uphill)" : "length"}.
+      </div>
+      {sides.map(({ side, label }) => {
+        const edge = obj.edges[side];
+        return (
+          <div key={side} className="inspector__edgeSide">
+            <div className="inspector__edgeSideTitle">{label}</div>
+            <EdgeToggle label="Handrail" on={edge.handrail} disabled={locked} onToggle={toggle(side, "handrail")} />
+            {edge.handrail && (
+              <>
+                <EdgeSizeInput
+                  label="Handrail Height (mm)"
+                  value={edge.handrailHeightMm}
+                  disabled={locked}
+                  onCommit={setSize(side, "handrailHeightMm")}
+                />
+                <EdgeSizeInput
+                  label={`Extension at ${startLabel} (mm)`}
+                  value={edge.handrailExtensionStartMm}
+                  disabled={locked}
+                  onCommit={setSize(side, "handrailExtensionStartMm")}
+                />
+                <EdgeSizeInput
+                  label={`Extension at ${endLabel} (mm)`}
+                  value={edge.handrailExtensionEndMm}
+                  disabled={locked}
+                  onCommit={setSize(side, "handrailExtensionEndMm")}
+                />
+              </>
+            )}
+            <EdgeToggle label="Kerb Rail" on={edge.kerbRail} disabled={locked} onToggle={toggle(side, "kerbRail")} />
+            {edge.kerbRail && (
+              <EdgeSizeInput
+                label="Kerb Rail Height (mm)"
+                value={edge.kerbRailHeightMm}
+                disabled={locked}
+                onCommit={setSize(side, "kerbRailHeightMm")}
+              />
+            )}
+            <EdgeToggle label="Balustrade" on={edge.balustrade} disabled={locked} onToggle={toggle(side, "balustrade")} />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,11 +1,21 @@
 import { useEffect, useMemo, useState, type ChangeEvent, type KeyboardEvent } from "react";
-import type { ObjectPatch } from "../../model/objectUpdate";
-import type { MeasurementKey, Object2D, RampObj } from "../../model/types";
-import { computeRampSlope } from "../../model/rampSlope";
+import { roundStairsTotalMm, type ObjectPatch } from "../../model/objectUpdate";
+import type { ComplianceRules, MeasurementKey, Object2D, RampObj } from "../../model/types";
+import { getGradientStatus } from "../../model/compliance";
+import { getDefaultObjectName } from "../../model/outliner";
+import { computeStairsMetrics } from "../../model/stairsMetrics";
+import AnnotationSection from "./AnnotationSection";
+import EdgeFeaturesSection from "./EdgeFeaturesSection";
+import RampSlopeFields from "./RampSlopeFields";
 
 type InspectorProps = {
   selected: Object2D | null;
+  /** Every object in the project, used to number the default name. */
+  objects: Object2D[];
+  complianceRules: ComplianceRules;
+  cascadeLevels: boolean;
   onUpdateObject: (id: string, patch: ObjectPatch, commitChange?: boolean) => void;
+  onToggleCascadeLevels: () => void;
   onRotateSelected: (delta: number) => void;
 };
 
@@ -19,6 +29,17 @@ const fieldConfig: { key: FieldKey; label: string }[] = [
   { key: "rotationDeg", label: "Rotate (degrees)" },
 ];
 
+type StairsFieldKey = "riserCount" | "riserHeightMm" | "goingMm" | "nosingMm";
+
+const stairsFieldConfig: { key: StairsFieldKey; label: string }[] = [
+  { key: "riserCount", label: "Risers" },
+  { key: "riserHeightMm", label: "Riser Height (mm)" },
+  { key: "goingMm", label: "Going (mm)" },
+  { key: "nosingMm", label: "Nosing (mm)" },
+];
+
+const emptyStairsValues: Record<StairsFieldKey, string> = { riserCount: "", riserHeightMm: "", goingMm: "", nosingMm: "" };
+
 const measurementConfig: { key: MeasurementKey; label: string; description: string }[] = [
   { key: "L1", label: "L1", description: "Length (Side 1)" },
   { key: "L2", label: "L2", description: "Length (Side 2)" },
@@ -34,7 +55,15 @@ const sanitiseNumericInput = (value: string): string => value.replace(/[^\d-]/g,
 
 const toDisplayValue = (value: number | undefined): string => (Number.isFinite(value) ? String(value) : "");
 
-export default function Inspector({ selected, onUpdateObject, onRotateSelected }: InspectorProps) {
+export default function Inspector({
+  selected,
+  objects,
+  complianceRules,
+  cascadeLevels,
+  onUpdateObject,
+  onToggleCascadeLevels,
+  onRotateSelected,
+}: InspectorProps) {
   const [fieldValues, setFieldValues] = useState<Record<FieldKey, string>>({
     lengthMm: "",
     widthMm: "",
@@ -44,12 +73,14 @@ export default function Inspector({ selected, onUpdateObject, onRotateSelected }
   });
   const [leftWingSize, setLeftWingSize] = useState<string>("");
   const [rightWingSize, setRightWingSize] = useState<string>("");
+  const [stairsValues, setStairsValues] = useState<Record<StairsFieldKey, string>>(emptyStairsValues);
 
   useEffect(() => {
     if (!selected) {
       setFieldValues({ lengthMm: "", widthMm: "", heightMm: "", elevationMm: "", rotationDeg: "" });
       setLeftWingSize("");
       setRightWingSize("");
+      setStairsValues(emptyStairsValues);
       return;
     }
     setFieldValues({
@@ -66,6 +97,16 @@ export default function Inspector({ selected, onUpdateObject, onRotateSelected }
       setLeftWingSize("");
       setRightWingSize("");
     }
+    if (selected.kind === "stairs") {
+      setStairsValues({
+        riserCount: toDisplayValue(selected.riserCount),
+        riserHeightMm: toDisplayValue(selected.riserHeightMm),
+        goingMm: toDisplayValue(selected.goingMm),
+        nosingMm: toDisplayValue(selected.nosingMm),
+      });
+    } else {
+      setStairsValues(emptyStairsValues);
+    }
   }, [
     selected?.id,
     selected?.lengthMm,
@@ -75,6 +116,10 @@ export default function Inspector({ selected, onUpdateObject, onRotateSelected }
     selected?.rotationDeg,
     selected && selected.kind === "ramp" ? selected.leftWingSizeMm : null,
     selected && selected.kind === "ramp" ? selected.rightWingSizeMm : null,
+    selected && selected.kind === "stairs" ? selected.riserCount : null,
+    selected && selected.kind === "stairs" ? selected.riserHeightMm : null,
+    selected && selected.kind === "stairs" ? selected.goingMm : null,
+    selected && selected.kind === "stairs" ? selected.nosingMm : null,
   ]);
 
   const handleChange = (key: FieldKey) => (event: ChangeEvent<HTMLInputElement>) => {
@@ -95,6 +140,11 @@ export default function Inspector({ selected, onUpdateObject, onRotateSelected }
         ? { lengthMm: parsed, runMm: parsed }
         : ({ [key]: parsed } as ObjectPatch);
     onUpdateObject(selected.id, patch, true);
+    if (selected.kind === "stairs" && (key === "lengthMm" || key === "heightMm")) {
+      // The total is spread over whole risers, so show what was stored rather than what was typed.
+      const storedMm = roundStairsTotalMm(parsed, selected.riserCount);
+      setFieldValues((current) => ({ ...current, [key]: toDisplayValue(storedMm) }));
+    }
   };
 
   const handleBlur = (key: FieldKey) => () => commitValue(key);
@@ -124,7 +174,7 @@ export default function Inspector({ selected, onUpdateObject, onRotateSelected }
   };
 
   const handleToggleArrow = () => {
-    if (!selected || selected.kind !== "ramp" || selected.locked) return;
+    if (!selected || (selected.kind !== "ramp" && selected.kind !== "stairs") || selected.locked) return;
     onUpdateObject(selected.id, { showArrow: !selected.showArrow }, true);
   };
 
@@ -170,19 +220,56 @@ export default function Inspector({ selected, onUpdateObject, onRotateSelected }
     }
   };
 
+  const handleStairsChange = (key: StairsFieldKey) => (event: ChangeEvent<HTMLInputElement>) => {
+    const nextValue = sanitiseNumericInput(event.target.value);
+    setStairsValues((current) => ({ ...current, [key]: nextValue }));
+  };
+
+  const commitStairsValue = (key: StairsFieldKey) => {
+    if (!selected || selected.kind !== "stairs") return;
+    const raw = stairsValues[key];
+    const parsed = raw === "" ? NaN : parseInt(raw, 10);
+    if (Number.isNaN(parsed)) {
+      setStairsValues((current) => ({ ...current, [key]: toDisplayValue(selected[key]) }));
+      return;
+    }
+    onUpdateObject(selected.id, { [key]: parsed } as ObjectPatch, true);
+  };
+
+  const handleStairsKeyDown = (key: StairsFieldKey) => (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      commitStairsValue(key);
+      (event.target as HTMLInputElement).blur();
+    }
+  };
+
   const kindLabel = useMemo(() => {
     if (!selected) return "";
-    return selected.kind === "ramp" ? "Ramp" : "Box / Landing";
+    if (selected.kind === "ramp") return "Ramp";
+    if (selected.kind === "stairs") return "Stairs";
+    return "Box / Landing";
   }, [selected]);
 
-  const rampSlope = useMemo(() => {
-    if (!selected || selected.kind !== "ramp") return null;
-    return computeRampSlope(selected.lengthMm, selected.heightMm);
-  }, [selected?.kind, selected?.lengthMm, selected?.heightMm]);
+  const gradientStatusClass = useMemo(() => {
+    if (!selected || selected.kind !== "ramp") return "";
+    const status = getGradientStatus(complianceRules, selected.lengthMm, selected.heightMm);
+    return status === "none" ? "" : `inspector__value--${status}`;
+  }, [complianceRules, selected?.kind, selected?.lengthMm, selected?.heightMm]);
+
+  const stairsMetrics = useMemo(() => {
+    if (!selected || selected.kind !== "stairs") return null;
+    return computeStairsMetrics(selected);
+  }, [
+    selected?.kind,
+    selected && selected.kind === "stairs" ? selected.riserCount : null,
+    selected && selected.kind === "stairs" ? selected.riserHeightMm : null,
+    selected && selected.kind === "stairs" ? selected.goingMm : null,
+  ]);
 
   const visibleMeasurementConfig = useMemo(() => {
     if (!selected) return measurementConfig;
-    if (selected.kind === "landing") {
+    if (selected.kind !== "ramp") {
       return measurementConfig.filter((option) => option.key !== "WL" && option.key !== "WR");
     }
     return measurementConfig;
@@ -245,7 +332,35 @@ export default function Inspector({ selected, onUpdateObject, onRotateSelected }
             <span className="inspector__toggleText">{locked ? "on" : "off"}</span>
           </button>
         </label>
-        {selected.kind === "ramp" && rampSlope && (
+        {selected.kind === "stairs" && (
+          <div className="inspector__helperText">
+            Length and height round to a whole millimetre per riser ({selected.riserCount} risers).
+          </div>
+        )}
+        {selected.kind !== "stairs" && (
+          <>
+            <label className="inspector__field">
+              <span className="inspector__label">Cascade Levels</span>
+              <button
+                type="button"
+                className={`inspector__toggle ${cascadeLevels ? "is-on" : "is-off"}`}
+                onClick={onToggleCascadeLevels}
+                aria-pressed={cascadeLevels}
+              >
+                <span className="inspector__toggleTrack">
+                  <span className="inspector__toggleThumb" />
+                </span>
+                <span className="inspector__toggleText">{cascadeLevels ? "on" : "off"}</span>
+              </button>
+            </label>
+            {cascadeLevels && (
+              <div className="inspector__helperText">
+                Elevation and height edits also raise or lower the connected ramps and landings above this one.
+              </div>
+            )}
+          </>
+        )}
+        {selected.kind === "ramp" && (
           <div className="inspector__section inspector__section--rampMeta">
             <label className="inspector__field">
               <span className="inspector__label">Arrow</span>
@@ -262,14 +377,7 @@ export default function Inspector({ selected, onUpdateObject, onRotateSelected }
                 <span className="inspector__toggleText">{selected.showArrow ? "on" : "off"}</span>
               </button>
             </label>
-            <div className="inspector__field">
-              <span className="inspector__label">Gradient</span>
-              <span className="inspector__value inspector__value--disabled">{rampSlope.gradientText}</span>
-            </div>
-            <div className="inspector__field">
-              <span className="inspector__label">Ratio</span>
-              <span className="inspector__value inspector__value--disabled">{rampSlope.ratioText}</span>
-            </div>
+            <RampSlopeFields obj={selected} statusClass={gradientStatusClass} onUpdateObject={onUpdateObject} />
           </div>
         )}
       </div>
@@ -371,6 +479,65 @@ export default function Inspector({ selected, onUpdateObject, onRotateSelected }
           )}
         </div>
       )}
+      {selected.kind !== "stairs" && <EdgeFeaturesSection obj={selected} onUpdateObject={onUpdateObject} />}
+      {selected.kind === "stairs" && stairsMetrics && (
+        <div className="inspector__section inspector__section--stairs">
+          <div className="inspector__sectionHeader">
+            <span className="inspector__label">Stairs</span>
+          </div>
+          {stairsFieldConfig.map(({ key, label }) => (
+            <label key={key} className="inspector__field">
+              <span className="inspector__label">{label}</span>
+              <input
+                type="text"
+                inputMode="numeric"
+                className="inspector__input"
+                value={stairsValues[key]}
+                onChange={handleStairsChange(key)}
+                onBlur={() => commitStairsValue(key)}
+                onKeyDown={handleStairsKeyDown(key)}
+                disabled={locked}
+              />
+            </label>
+          ))}
+          <label className="inspector__field">
+            <span className="inspector__label">Arrow</span>
+            <button
+              type="button"
+              className={`inspector__toggle ${selected.showArrow ? "is-on" : "is-off"}`}
+              onClick={handleToggleArrow}
+              aria-pressed={selected.showArrow}
+              disabled={locked}
+            >
+              <span className="inspector__toggleTrack">
+                <span className="inspector__toggleThumb" />
+              </span>
+              <span className="inspector__toggleText">{selected.showArrow ? "on" : "off"}</span>
+            </button>
+          </label>
+          <div className="inspector__field">
+            <span className="inspector__label">Total Rise</span>
+            <span className="inspector__value inspector__value--disabled">{stairsMetrics.totalRiseMm}mm</span>
+          </div>
+          <div className="inspector__field">
+            <span className="inspector__label">Total Going</span>
+            <span className="inspector__value inspector__value--disabled">{stairsMetrics.totalGoingMm}mm</span>
+          </div>
+          <div className="inspector__field">
+            <span className="inspector__label">Going : Riser</span>
+            <span className="inspector__value inspector__value--disabled">{stairsMetrics.ratioText}</span>
+          </div>
+          <div className="inspector__field">
+            <span className="inspector__label">2R + G</span>
+            <span className="inspector__value inspector__value--disabled">{stairsMetrics.slopeRelationshipMm}mm</span>
+          </div>
+        </div>
+      )}
+      <AnnotationSection
+        obj={selected}
+        defaultName={getDefaultObjectName(selected, objects)}
+        onUpdateObject={onUpdateObject}
+      />
     </div>
   );
 }
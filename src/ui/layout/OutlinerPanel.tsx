@@ -0,0 +1,228 @@
+import { useEffect, useMemo, useRef, useState, type MouseEvent } from "react";
+import {
+  OBJECT_KIND_LABELS,
+  buildOutlinerRows,
+  describeObjectSize,
+  getDefaultObjectName,
+  type OutlinerFilter,
+  type ReorderDirection,
+} from "../../model/outliner";
+import type { BaseObj, Object2D, ObjectGroup } from "../../model/types";
+
+type OutlinerPanelProps = {
+  objects: Object2D[];
+  groups: ObjectGroup[];
+  selectedIds: string[];
+  onSelect: (id: string, additive?: boolean, ignoreGroup?: boolean) => void;
+  onSelectGroup: (groupId: string, additive?: boolean) => void;
+  onUpdateObjects: (ids: string[], patch: Partial<Pick<BaseObj, "name" | "locked" | "hidden">>) => void;
+  onRenameGroup: (groupId: string, name: string) => void;
+  onToggleGroupCollapsed: (groupId: string) => void;
+  onReorder: (id: string, direction: ReorderDirection) => void;
+};
+
+const filterOptions: { value: OutlinerFilter; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "ramp", label: "Ramps" },
+  { value: "landing", label: "Landings" },
+  { value: "stairs", label: "Stairs" },
+];
+
+const isAdditiveClick = (event: MouseEvent) => event.shiftKey || event.ctrlKey || event.metaKey;
+
+/** Double-click to rename; Enter or leaving the field saves, Escape cancels. An empty name clears it. */
+function RowName({ name, placeholder, onRename }: { name: string; placeholder: string; onRename: (name: string) => void }) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  if (draft === null) {
+    return (
+      <span className="outliner__name" title="Double-click to rename" onDoubleClick={() => setDraft(name)}>
+        {name || placeholder}
+      </span>
+    );
+  }
+
+  const commit = () => {
+    if (draft.trim() !== name) onRename(draft.trim());
+    setDraft(null);
+  };
+
+  return (
+    <input
+      type="text"
+      className="outliner__renameInput"
+      value={draft}
+      placeholder={placeholder}
+      autoFocus
+      onClick={(event) => event.stopPropagation()}
+      onChange={(event) => setDraft(event.target.value)}
+      onBlur={commit}
+      onKeyDown={(event) => {
+        if (event.key === "Enter") commit();
+        if (event.key === "Escape") setDraft(null);
+      }}
+    />
+  );
+}
+
+/** Every object in the project, front-most first, kept in step with the canvas selection. */
+export default function OutlinerPanel({
+  objects,
+  groups,
+  selectedIds,
+  onSelect,
+  onSelectGroup,
+  onUpdateObjects,
+  onRenameGroup,
+  onToggleGroupCollapsed,
+  onReorder,
+}: OutlinerPanelProps) {
+  const [filter, setFilter] = useState<OutlinerFilter>("all");
+  const listRef = useRef<HTMLUListElement | null>(null);
+  const rows = useMemo(() => buildOutlinerRows(objects, groups, filter), [filter, groups, objects]);
+
+  // Bring the selection into view when it changes from the canvas.
+  const selectionKey = selectedIds.join("|");
+  useEffect(() => {
+    const firstId = selectionKey.split("|")[0];
+    if (!firstId || !listRef.current) return;
+    const row = listRef.current.querySelector(`[data-object-id="${firstId}"]`);
+    row?.scrollIntoView({ block: "nearest" });
+  }, [selectionKey]);
+
+  return (
+    <div className="outliner">
+      <div className="outliner__header">
+        <span>Objects</span>
+        <span className="outliner__count">{objects.length}</span>
+      </div>
+      <div className="outliner__filters">
+        {filterOptions.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            className={`outliner__filter ${filter === option.value ? "isActive" : ""}`}
+            onClick={() => setFilter(option.value)}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      {rows.length === 0 ? (
+        <div className="outliner__empty">{objects.length === 0 ? "No objects yet." : "No objects of this kind."}</div>
+      ) : (
+        <ul className="outliner__list" ref={listRef}>
+          {rows.map((row) => {
+            if (row.type === "group") {
+              const { group, members } = row;
+              const memberIds = group.memberIds;
+              const isActive = memberIds.every((id) => selectedIds.includes(id));
+              const locked = members.every((obj) => obj.locked);
+              const hidden = members.every((obj) => obj.hidden);
+              return (
+                <li
+                  key={group.id}
+                  className={`outliner__row outliner__row--group ${isActive ? "isActive" : ""} ${hidden ? "is-hidden" : ""}`}
+                  onClick={(event) => onSelectGroup(group.id, isAdditiveClick(event))}
+                >
+                  <button
+                    type="button"
+                    className="outliner__caret"
+                    aria-label={group.collapsed ? "Expand group" : "Collapse group"}
+                    aria-expanded={!group.collapsed}
+                    onClick={(event) => {
+                      event.stopPropagation();
+                      onToggleGroupCollapsed(group.id);
+                    }}
+                  >
+                    {group.collapsed ? "▸" : "▾"}
+                  </button>
+                  <div className="outliner__main">
+                    <RowName name={group.name} placeholder="Group" onRename={(name) => onRenameGroup(group.id, name)} />
+                    <span className="outliner__meta">Group of {memberIds.length}</span>
+                  </div>
+                  <div className="outliner__actions" onClick={(event) => event.stopPropagation()}>
+                    <button
+                      type="button"
+                      className={`outliner__action ${hidden ? "is-on" : ""}`}
+                      onClick={() => onUpdateObjects(memberIds, { hidden: !hidden })}
+                    >
+                      {hidden ? "Show" : "Hide"}
+                    </button>
+                    <button
+                      type="button"
+                      className={`outliner__action ${locked ? "is-on" : ""}`}
+                      onClick={() => onUpdateObjects(memberIds, { locked: !locked })}
+                    >
+                      {locked ? "Unlock" : "Lock"}
+                    </button>
+                  </div>
+                </li>
+              );
+            }
+
+            const { obj, grouped } = row;
+            const isActive = selectedIds.includes(obj.id);
+            return (
+              <li
+                key={obj.id}
+                data-object-id={obj.id}
+                className={`outliner__row ${grouped ? "outliner__row--member" : ""} ${isActive ? "isActive" : ""} ${
+                  obj.hidden ? "is-hidden" : ""
+                }`}
+                onClick={(event) => onSelect(obj.id, isAdditiveClick(event), true)}
+              >
+                <span className="outliner__kind">{OBJECT_KIND_LABELS[obj.kind]}</span>
+                <div className="outliner__main">
+                  <RowName
+                    name={obj.name}
+                    placeholder={getDefaultObjectName(obj, objects)}
+                    onRename={(name) => onUpdateObjects([obj.id], { name })}
+                  />
+                  <span className="outliner__meta">
+                    {describeObjectSize(obj)} · EL {obj.elevationMm}
+                  </span>
+                </div>
+                <div className="outliner__actions" onClick={(event) => event.stopPropagation()}>
+                  <button
+                    type="button"
+                    className={`outliner__action ${obj.hidden ? "is-on" : ""}`}
+                    onClick={() => onUpdateObjects([obj.id], { hidden: !obj.hidden })}
+                  >
+                    {obj.hidden ? "Show" : "Hide"}
+                  </button>
+                  <button
+                    type="button"
+                    className={`outliner__action ${obj.locked ? "is-on" : ""}`}
+                    onClick={() => onUpdateObjects([obj.id], { locked: !obj.locked })}
+                  >
+                    {obj.locked ? "Unlock" : "Lock"}
+                  </button>
+                  <button
+                    type="button"
+                    className="outliner__action"
+                    aria-label="Bring forward"
+                    title="Bring forward (Shift-click: to front)"
+                    onClick={(event) => onReorder(obj.id, event.shiftKey ? "front" : "forward")}
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    className="outliner__action"
+                    aria-label="Send backward"
+                    title="Send backward (Shift-click: to back)"
+                    onClick={(event) => onReorder(obj.id, event.shiftKey ? "back" : "backward")}
+                  >
+                    ↓
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      <div className="outliner__hint">Top of the list draws on top. Double-click a name to rename.</div>
+    </div>
+  );
+}
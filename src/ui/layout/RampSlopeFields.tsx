@@ -0,0 +1,157 @@
+import { useEffect, useState, type KeyboardEvent } from "react";
+import type { ObjectPatch } from "../../model/objectUpdate";
+import {
+  computeRampSlope,
+  ratioFromGradientDeg,
+  solveRampForRatio,
+  type SlopeSolveTarget,
+} from "../../model/rampSlope";
+import type { RampObj } from "../../model/types";
+
+type RampSlopeFieldsProps = {
+  obj: RampObj;
+  statusClass: string;
+  onUpdateObject: (id: string, patch: ObjectPatch, commitChange?: boolean) => void;
+};
+
+type SlopeField = "gradient" | "ratio";
+
+const sanitiseDecimalInput = (value: string): string => value.replace(/[^\d.]/g, "").replace(/(\..*)\./g, "$1");
+
+const toRatioDraft = (lengthMm: number, heightMm: number): string =>
+  heightMm > 0 && lengthMm > 0 ? String(Number((lengthMm / heightMm).toFixed(2))) : "";
+
+const toGradientDraft = (lengthMm: number, heightMm: number): string =>
+  heightMm > 0 && lengthMm > 0 ? computeRampSlope(lengthMm, heightMm).gradientDeg.toFixed(2) : "";
+
+const toDrafts = (obj: RampObj): Record<SlopeField, string> => ({
+  gradient: toGradientDraft(obj.lengthMm, obj.heightMm),
+  ratio: toRatioDraft(obj.lengthMm, obj.heightMm),
+});
+
+/**
+ * Gradient and ratio as editable targets: typing one solves for the chosen dimension, and the
+ * ratio lock keeps the gradient fixed while the ramp is resized.
+ */
+export default function RampSlopeFields({ obj, statusClass, onUpdateObject }: RampSlopeFieldsProps) {
+  const [solveFor, setSolveFor] = useState<SlopeSolveTarget>("length");
+  const [drafts, setDrafts] = useState(() => toDrafts(obj));
+  const locked = obj.locked;
+  const ratioLocked = obj.lockedRatio !== null;
+
+  useEffect(() => {
+    setDrafts(toDrafts(obj));
+  }, [obj.lengthMm, obj.heightMm]);
+
+  const resetDrafts = () => setDrafts(toDrafts(obj));
+
+  const commit = (field: SlopeField) => {
+    if (locked) return;
+    const parsed = drafts[field] === "" ? NaN : parseFloat(drafts[field]);
+    const ratio = field === "ratio" ? (parsed > 0 ? parsed : null) : ratioFromGradientDeg(parsed);
+    if (ratio === null || !Number.isFinite(ratio)) {
+      resetDrafts();
+      return;
+    }
+    const solved = solveRampForRatio(obj.lengthMm, obj.heightMm, ratio, solveFor);
+    if (solved.lengthMm <= 0 || solved.heightMm <= 0) {
+      resetDrafts();
+      return;
+    }
+    if (solved.lengthMm === obj.lengthMm && solved.heightMm === obj.heightMm && !ratioLocked) {
+      resetDrafts();
+      return;
+    }
+    onUpdateObject(
+      obj.id,
+      {
+        lengthMm: solved.lengthMm,
+        runMm: solved.lengthMm,
+        heightMm: solved.heightMm,
+        ...(ratioLocked ? { lockedRatio: ratio } : {}),
+      },
+      true,
+    );
+  };
+
+  const handleKeyDown = (field: SlopeField) => (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      commit(field);
+      (event.target as HTMLInputElement).blur();
+    }
+  };
+
+  const handleToggleRatioLock = () => {
+    if (locked) return;
+    if (ratioLocked) {
+      onUpdateObject(obj.id, { lockedRatio: null }, true);
+      return;
+    }
+    if (obj.heightMm <= 0 || obj.lengthMm <= 0) return;
+    onUpdateObject(obj.id, { lockedRatio: obj.lengthMm / obj.heightMm }, true);
+  };
+
+  return (
+    <>
+      <label className="inspector__field">
+        <span className="inspector__label">Gradient (°)</span>
+        <input
+          type="text"
+          inputMode="decimal"
+          className={`inspector__input ${statusClass}`}
+          value={drafts.gradient}
+          onChange={(event) => setDrafts((current) => ({ ...current, gradient: sanitiseDecimalInput(event.target.value) }))}
+          onBlur={() => commit("gradient")}
+          onKeyDown={handleKeyDown("gradient")}
+          disabled={locked}
+        />
+      </label>
+      <label className="inspector__field">
+        <span className="inspector__label">Ratio (1 : x)</span>
+        <input
+          type="text"
+          inputMode="decimal"
+          className={`inspector__input ${statusClass}`}
+          value={drafts.ratio}
+          onChange={(event) => setDrafts((current) => ({ ...current, ratio: sanitiseDecimalInput(event.target.value) }))}
+          onBlur={() => commit("ratio")}
+          onKeyDown={handleKeyDown("ratio")}
+          disabled={locked}
+        />
+      </label>
+      <label className="inspector__field">
+        <span className="inspector__label">Solve For</span>
+        <select
+          className="inspector__input"
+          value={solveFor}
+          onChange={(event) => setSolveFor(event.target.value as SlopeSolveTarget)}
+          disabled={locked}
+        >
+          <option value="length">Length</option>
+          <option value="height">Height</option>
+        </select>
+      </label>
+      <label className="inspector__field">
+        <span className="inspector__label">Lock Ratio</span>
+        <button
+          type="button"
+          className={`inspector__toggle ${ratioLocked ? "is-on" : "is-off"}`}
+          onClick={handleToggleRatioLock}
+          aria-pressed={ratioLocked}
+          disabled={locked || (!ratioLocked && obj.heightMm <= 0)}
+        >
+          <span className="inspector__toggleTrack">
+            <span className="inspector__toggleThumb" />
+          </span>
+          <span className="inspector__toggleText">{ratioLocked ? "on" : "off"}</span>
+        </button>
+      </label>
+      {ratioLocked && (
+        <div className="inspector__helperText">
+          Resizing keeps 1 : {Number(obj.lockedRatio!.toFixed(2))} by adjusting height; a new height adjusts the length.
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,135 @@
+import { useEffect, useState, type KeyboardEvent } from "react";
+import { RULE_SETS, RULE_SET_IDS, resolveComplianceRules } from "../../model/compliance";
+import type { ComplianceRules, ComplianceSettings, GradientBand, RuleSetId } from "../../model/types";
+
+type RuleSetPanelProps = {
+  settings: ComplianceSettings;
+  onSetRuleSet: (ruleSetId: RuleSetId) => void;
+  onSetOverrides: (overrides: Partial<ComplianceRules>) => void;
+  onResetOverrides: () => void;
+};
+
+type ScalarRuleKey = "maxRiseBetweenLandingsMm" | "minLandingLengthMm" | "minClearWidthMm";
+
+const scalarConfig: { key: ScalarRuleKey; label: string }[] = [
+  { key: "maxRiseBetweenLandingsMm", label: "Max rise between landings (mm)" },
+  { key: "minLandingLengthMm", label: "Min landing length (mm)" },
+  { key: "minClearWidthMm", label: "Min clear width (mm)" },
+];
+
+const sanitiseNumericInput = (value: string): string => value.replace(/[^\d]/g, "");
+
+type ThresholdInputProps = {
+  value: number;
+  overridden: boolean;
+  ariaLabel: string;
+  onCommit: (value: number) => void;
+};
+
+function ThresholdInput({ value, overridden, ariaLabel, onCommit }: ThresholdInputProps) {
+  const [draft, setDraft] = useState(String(value));
+
+  useEffect(() => {
+    setDraft(String(value));
+  }, [value]);
+
+  const commit = () => {
+    const parsed = draft === "" ? NaN : parseInt(draft, 10);
+    if (Number.isNaN(parsed) || parsed <= 0) {
+      setDraft(String(value));
+      return;
+    }
+    if (parsed !== value) onCommit(parsed);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      commit();
+      (event.target as HTMLInputElement).blur();
+    }
+  };
+
+  return (
+    <input
+      type="text"
+      inputMode="numeric"
+      aria-label={ariaLabel}
+      className={`ruleSet__input ${overridden ? "is-overridden" : ""}`}
+      value={draft}
+      onChange={(event) => setDraft(sanitiseNumericInput(event.target.value))}
+      onBlur={commit}
+      onKeyDown={handleKeyDown}
+    />
+  );
+}
+
+export default function RuleSetPanel({ settings, onSetRuleSet, onSetOverrides, onResetOverrides }: RuleSetPanelProps) {
+  const rules = resolveComplianceRules(settings);
+  const ruleSet = RULE_SETS[settings.ruleSetId];
+  const hasOverrides = Object.keys(settings.overrides).length > 0;
+  const bandsOverridden = settings.overrides.gradientBands !== undefined;
+
+  const handleBandCommit = (index: number, patch: Partial<GradientBand>) => {
+    const nextBands = rules.gradientBands.map((band, idx) => (idx === index ? { ...band, ...patch } : band));
+    onSetOverrides({ gradientBands: nextBands });
+  };
+
+  return (
+    <div className="ruleSet">
+      <div className="ruleSet__header">
+        <span>Rule Set</span>
+        {hasOverrides && (
+          <button type="button" className="ruleSet__reset" onClick={onResetOverrides}>
+            Reset
+          </button>
+        )}
+      </div>
+      <select
+        className="ruleSet__select"
+        value={settings.ruleSetId}
+        onChange={(evt) => onSetRuleSet(evt.target.value as RuleSetId)}
+      >
+        {RULE_SET_IDS.map((id) => (
+          <option key={id} value={id}>
+            {RULE_SETS[id].name}
+          </option>
+        ))}
+      </select>
+      <div className="ruleSet__hint">
+        {ruleSet.description}
+        {hasOverrides ? " Highlighted values are overridden for this project." : ""}
+      </div>
+      {scalarConfig.map(({ key, label }) => (
+        <label key={key} className="ruleSet__row">
+          <span className="ruleSet__label">{label}</span>
+          <ThresholdInput
+            value={rules[key]}
+            overridden={settings.overrides[key] !== undefined}
+            ariaLabel={label}
+            onCommit={(value) => onSetOverrides({ [key]: value })}
+          />
+        </label>
+      ))}
+      <div className="ruleSet__label">Max gradient per run length</div>
+      {rules.gradientBands.map((band, index) => (
+        <div key={index} className="ruleSet__row">
+          <span className="ruleSet__bandText">Run up to</span>
+          <ThresholdInput
+            value={band.maxRunMm}
+            overridden={bandsOverridden}
+            ariaLabel={`Band ${index + 1} maximum run (mm)`}
+            onCommit={(value) => handleBandCommit(index, { maxRunMm: value })}
+          />
+          <span className="ruleSet__bandText">mm at 1 :</span>
+          <ThresholdInput
+            value={band.minGradientRatio}
+            overridden={bandsOverridden}
+            ariaLabel={`Band ${index + 1} gradient ratio`}
+            onCommit={(value) => handleBandCommit(index, { minGradientRatio: value })}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
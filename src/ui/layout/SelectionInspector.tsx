@@ -0,0 +1,215 @@
+import { useEffect, useState, type KeyboardEvent } from "react";
+import type { ObjectPatch } from "../../model/objectUpdate";
+import type { Object2D, ObjectGroup, ObjectKind } from "../../model/types";
+
+type SelectionInspectorProps = {
+  objects: Object2D[];
+  /** Set when the selection is exactly one whole group. */
+  group: ObjectGroup | null;
+  /** Whether any whole group is selected, so there is something to ungroup. */
+  hasGroups: boolean;
+  onUpdateSelection: (patch: ObjectPatch) => void;
+  onRotateSelected: (delta: number) => void;
+  onGroup: () => void;
+  onUngroup: () => void;
+  onRenameGroup: (groupId: string, name: string) => void;
+};
+
+type SharedFieldKey = "lengthMm" | "widthMm" | "heightMm" | "elevationMm" | "rotationDeg";
+
+const sharedFieldConfig: { key: SharedFieldKey; label: string }[] = [
+  { key: "lengthMm", label: "Length (mm)" },
+  { key: "widthMm", label: "Width (mm)" },
+  { key: "heightMm", label: "Height (mm)" },
+  { key: "elevationMm", label: "Elevation (mm)" },
+  { key: "rotationDeg", label: "Rotate (degrees)" },
+];
+
+const kindNames: Record<ObjectKind, [string, string]> = {
+  ramp: ["ramp", "ramps"],
+  landing: ["landing", "landings"],
+  stairs: ["stairs", "stairs"],
+};
+
+const sanitiseNumericInput = (value: string): string => value.replace(/[^\d-]/g, "");
+
+/** The value every object shares, or null when the selection is mixed. */
+const getSharedValue = (objects: Object2D[], key: SharedFieldKey): number | null =>
+  objects.every((obj) => obj[key] === objects[0][key]) ? objects[0][key] : null;
+
+const describeSelection = (objects: Object2D[]): string =>
+  (Object.keys(kindNames) as ObjectKind[])
+    .map((kind) => {
+      const count = objects.filter((obj) => obj.kind === kind).length;
+      if (count === 0) return null;
+      return `${count} ${kindNames[kind][count === 1 ? 0 : 1]}`;
+    })
+    .filter(Boolean)
+    .join(", ");
+
+function SharedNumberInput({
+  label,
+  value,
+  disabled,
+  onCommit,
+}: {
+  label: string;
+  value: number | null;
+  disabled: boolean;
+  onCommit: (value: number) => void;
+}) {
+  const [draft, setDraft] = useState(value === null ? "" : String(value));
+
+  useEffect(() => {
+    setDraft(value === null ? "" : String(value));
+  }, [value]);
+
+  const commit = () => {
+    const parsed = draft === "" ? NaN : parseInt(draft, 10);
+    if (Number.isNaN(parsed)) {
+      setDraft(value === null ? "" : String(value));
+      return;
+    }
+    if (parsed !== value) onCommit(parsed);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      commit();
+      (event.target as HTMLInputElement).blur();
+    }
+  };
+
+  return (
+    <label className="inspector__field">
+      <span className="inspector__label">{label}</span>
+      <input
+        type="text"
+        inputMode="numeric"
+        className="inspector__input"
+        value={draft}
+        placeholder={value === null ? "Mixed" : undefined}
+        onChange={(event) => setDraft(sanitiseNumericInput(event.target.value))}
+        onBlur={commit}
+        onKeyDown={handleKeyDown}
+        disabled={disabled}
+      />
+    </label>
+  );
+}
+
+function GroupNameInput({ group, onRename }: { group: ObjectGroup; onRename: (groupId: string, name: string) => void }) {
+  const [draft, setDraft] = useState(group.name);
+
+  useEffect(() => {
+    setDraft(group.name);
+  }, [group.name]);
+
+  const commit = () => {
+    if (draft.trim() === "") {
+      setDraft(group.name);
+      return;
+    }
+    if (draft !== group.name) onRename(group.id, draft);
+  };
+
+  return (
+    <label className="inspector__field">
+      <span className="inspector__label">Group Name</span>
+      <input
+        type="text"
+        className="inspector__input"
+        value={draft}
+        onChange={(event) => setDraft(event.target.value)}
+        onBlur={commit}
+        onKeyDown={(event) => {
+          if (event.key === "Enter") (event.target as HTMLInputElement).blur();
+        }}
+      />
+    </label>
+  );
+}
+
+/** Inspector for a multi-selection: fields every object has, applied to all unlocked objects at once. */
+export default function SelectionInspector({
+  objects,
+  group,
+  hasGroups,
+  onUpdateSelection,
+  onRotateSelected,
+  onGroup,
+  onUngroup,
+  onRenameGroup,
+}: SelectionInspectorProps) {
+  const allLocked = objects.every((obj) => obj.locked);
+  const lockedCount = objects.filter((obj) => obj.locked).length;
+
+  return (
+    <div className="inspector">
+      <div className="inspector__title">Inspector</div>
+      <div className="inspector__objectTitle">{group ? group.name : `${objects.length} objects selected`}</div>
+      <div className="inspector__helperText">{describeSelection(objects)}</div>
+      <div className="inspector__divider" />
+      <div className="inspector__fields">
+        {group && <GroupNameInput group={group} onRename={onRenameGroup} />}
+        <div className="inspector__field inspector__field--stacked">
+          <span className="inspector__label">Group</span>
+          <div className="inspector__quickRotate">
+            <button type="button" className="inspector__button" onClick={onGroup} disabled={Boolean(group)}>
+              Group
+            </button>
+            <button type="button" className="inspector__button" onClick={onUngroup} disabled={!hasGroups}>
+              Ungroup
+            </button>
+          </div>
+        </div>
+        <div className="inspector__helperText">
+          Grouped objects select, move and rotate together. Alt-click picks out one member.
+        </div>
+      </div>
+      <div className="inspector__divider" />
+      <div className="inspector__fields">
+        {sharedFieldConfig.map(({ key, label }) => (
+          <SharedNumberInput
+            key={key}
+            label={label}
+            value={getSharedValue(objects, key)}
+            disabled={allLocked}
+            onCommit={(value) => onUpdateSelection({ [key]: value })}
+          />
+        ))}
+        <div className="inspector__field inspector__field--stacked">
+          <span className="inspector__label">Quick Rotate</span>
+          <div className="inspector__quickRotate">
+            <button type="button" className="inspector__button" onClick={() => onRotateSelected(90)} disabled={allLocked}>
+              +90°
+            </button>
+            <button type="button" className="inspector__button" onClick={() => onRotateSelected(-90)} disabled={allLocked}>
+              -90°
+            </button>
+          </div>
+        </div>
+        <label className="inspector__field">
+          <span className="inspector__label">Lock</span>
+          <button
+            type="button"
+            className={`inspector__toggle ${allLocked ? "is-on" : "is-off"}`}
+            onClick={() => onUpdateSelection({ locked: !allLocked })}
+            aria-pressed={allLocked}
+          >
+            <span className="inspector__toggleTrack">
+              <span className="inspector__toggleThumb" />
+            </span>
+            <span className="inspector__toggleText">{allLocked ? "on" : lockedCount > 0 ? "some" : "off"}</span>
+          </button>
+        </label>
+        {lockedCount > 0 && !allLocked && (
+          <div className="inspector__helperText">
+            {lockedCount} locked {lockedCount === 1 ? "object is" : "objects are"} left unchanged by edits.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -7,6 +7,8 @@ type ToolboxProps = {
   snapIncrementMm: SnapIncrementMm;
   onToggleSnapToGrid: () => void;
   onToggleSnapToObjects: () => void;
+  showLabels: boolean;
+  onToggleShowLabels: () => void;
   onSetSnapIncrement: (stepMm: SnapIncrementMm) => void;
   onSetActiveTool: (tool: Tool) => void;
 };
@@ -18,6 +20,8 @@ export default function Toolbox({
   snapIncrementMm,
   onToggleSnapToGrid,
   onToggleSnapToObjects,
+  showLabels,
+  onToggleShowLabels,
   onSetSnapIncrement,
   onSetActiveTool,
 }: ToolboxProps) {
@@ -39,6 +43,7 @@ export default function Toolbox({
         <div className="toolbox__row">
           {renderButton("ramp", "Ramp")}
           {renderButton("landing", "Landing (Platform)")}
+          {renderButton("stairs", "Stairs")}
           {renderButton("delete", "Delete")}
         </div>
         <div className="toolbox__stackedControls">
@@ -50,6 +55,10 @@ export default function Toolbox({
             <input type="checkbox" checked={snapToObjects} onChange={onToggleSnapToObjects} />
             Snap to Objects
           </label>
+          <label className="snap-toggle">
+            <input type="checkbox" checked={showLabels} onChange={onToggleShowLabels} />
+            Show Labels &amp; Notes
+          </label>
           <label className="snap-toggle">
             <span style={{ marginRight: 8 }}>Snap Increment</span>
             <select value={snapIncrementMm} onChange={(evt) => onSetSnapIncrement(Number(evt.target.value) as SnapIncrementMm)}>
@@ -60,7 +69,7 @@ export default function Toolbox({
             </select>
           </label>
         </div>
-        <div className="toolbox__hint">Tip: Click to select. Shortcuts: R, P (Landing), D, Esc, Backspace, arrows.</div>
+        <div className="toolbox__hint">Tip: Click to select. Shortcuts: R, P (Landing), S (Stairs), D, Esc, Backspace, arrows.</div>
       </div>
     </div>
   );
@@ -1,5 +1,7 @@
+import { useRef, type ChangeEvent } from "react";
 import { APP_VERSION } from "../../app/version";
 import { EditMode } from "../../app/AppShell";
+import { PROJECT_FILE_ACCEPT } from "../../import/projectImport";
 
 type TopBarProps = {
   mode: EditMode;
@@ -10,6 +12,12 @@ type TopBarProps = {
   canRedo: boolean;
   onUndo: () => void;
   onRedo: () => void;
+  onOpenExport: () => void;
+  onOpenRampDesigner: () => void;
+  onSaveProjectFile: () => void;
+  onOpenProjectFile: (file: File) => void;
+  onOpenProjects: () => void;
+  onOpenRevisions: () => void;
 };
 
 export default function TopBar({
@@ -21,7 +29,22 @@ export default function TopBar({
   canRedo,
   onUndo,
   onRedo,
+  onOpenExport,
+  onOpenRampDesigner,
+  onSaveProjectFile,
+  onOpenProjectFile,
+  onOpenProjects,
+  onOpenRevisions,
 }: TopBarProps) {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Cleared so choosing the same file again still fires a change.
+    event.target.value = "";
+    if (file) onOpenProjectFile(file);
+  };
+
   return (
     <header className="top-bar">
       <div className="top-bar__left">
@@ -39,6 +62,31 @@ export default function TopBar({
         <div className={`top-bar__snap ${snapActive ? "top-bar__snap--on" : "top-bar__snap--off"}`} aria-live="polite">
           Snap: {snapLabel}
         </div>
+        <button type="button" className="mode-button mode-button--ghost" onClick={onOpenProjects}>
+          Projects
+        </button>
+        <button type="button" className="mode-button mode-button--ghost" onClick={onOpenRevisions}>
+          Revisions
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={PROJECT_FILE_ACCEPT}
+          className="top-bar__file"
+          onChange={handleFileChange}
+        />
+        <button type="button" className="mode-button mode-button--ghost" onClick={() => fileInputRef.current?.click()}>
+          Open File…
+        </button>
+        <button type="button" className="mode-button mode-button--ghost" onClick={onSaveProjectFile}>
+          Save File
+        </button>
+        <button type="button" className="mode-button mode-button--ghost" onClick={onOpenRampDesigner}>
+          Ramp Designer
+        </button>
+        <button type="button" className="mode-button mode-button--ghost" onClick={onOpenExport}>
+          Export
+        </button>
         <div className="top-bar__modes">
           <button
             type="button"
@@ -0,0 +1,241 @@
+import { useEffect, useRef, useState, type ChangeEvent, type KeyboardEvent } from "react";
+import { UNDERLAY_FILE_ACCEPT, importUnderlayFile } from "../../import/underlayImport";
+import type { PointMm } from "../../model/geometry";
+import type { Underlay, UnderlayPlacement } from "../../model/types";
+
+type UnderlayPanelProps = {
+  underlay: Underlay | null;
+  /** Plan points picked so far while calibrating, or null when not calibrating. */
+  calibrationPoints: PointMm[] | null;
+  onSetUnderlay: (underlay: Underlay | null) => void;
+  onUpdateUnderlay: (patch: Partial<UnderlayPlacement>, commit?: boolean) => void;
+  onStartCalibration: () => void;
+  onCancelCalibration: () => void;
+  onApplyCalibration: (distanceMm: number) => void;
+};
+
+type NumericPlacementKey = "originXMm" | "originYMm" | "rotationDeg" | "scale";
+
+const placementConfig: { key: NumericPlacementKey; label: string; positive?: boolean }[] = [
+  { key: "originXMm", label: "Position X (mm)" },
+  { key: "originYMm", label: "Position Y (mm)" },
+  { key: "rotationDeg", label: "Rotation (°)" },
+  { key: "scale", label: "Scale (mm per unit)", positive: true },
+];
+
+const describeSource = (underlay: Underlay) =>
+  underlay.kind === "vector"
+    ? `${underlay.fileName} · ${underlay.segments.length} lines. Locked in place; objects snap to its line work.`
+    : `${underlay.fileName} · ${underlay.widthPx} × ${underlay.heightPx} px image. Locked in place.`;
+
+const sanitiseDecimalInput = (value: string): string => value.replace(/[^\d.-]/g, "");
+
+const formatValue = (value: number) => String(Math.round(value * 10000) / 10000);
+
+type PlacementInputProps = {
+  value: number;
+  positive: boolean;
+  ariaLabel: string;
+  onCommit: (value: number) => void;
+};
+
+function PlacementInput({ value, positive, ariaLabel, onCommit }: PlacementInputProps) {
+  const [draft, setDraft] = useState(formatValue(value));
+
+  useEffect(() => {
+    setDraft(formatValue(value));
+  }, [value]);
+
+  const commit = () => {
+    const parsed = parseFloat(draft);
+    if (!Number.isFinite(parsed) || (positive && parsed <= 0)) {
+      setDraft(formatValue(value));
+      return;
+    }
+    if (parsed !== value) onCommit(parsed);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      commit();
+      (event.target as HTMLInputElement).blur();
+    }
+  };
+
+  return (
+    <input
+      type="text"
+      inputMode="decimal"
+      aria-label={ariaLabel}
+      className="underlay__input"
+      value={draft}
+      onChange={(event) => setDraft(sanitiseDecimalInput(event.target.value))}
+      onBlur={commit}
+      onKeyDown={handleKeyDown}
+    />
+  );
+}
+
+export default function UnderlayPanel({
+  underlay,
+  calibrationPoints,
+  onSetUnderlay,
+  onUpdateUnderlay,
+  onStartCalibration,
+  onCancelCalibration,
+  onApplyCalibration,
+}: UnderlayPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [distanceDraft, setDistanceDraft] = useState("");
+  const pickedCount = calibrationPoints?.length ?? 0;
+
+  useEffect(() => {
+    if (calibrationPoints === null) setDistanceDraft("");
+  }, [calibrationPoints]);
+
+  const applyDistance = () => {
+    const distanceMm = parseFloat(distanceDraft);
+    if (Number.isFinite(distanceMm) && distanceMm > 0) onApplyCalibration(distanceMm);
+  };
+
+  const handleDistanceKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      applyDistance();
+    }
+  };
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    setImporting(true);
+    setMessage(null);
+    try {
+      const result = await importUnderlayFile(file);
+      onSetUnderlay(result.underlay);
+      if (result.truncatedSegments > 0) {
+        setMessage(`Drawing simplified: ${result.truncatedSegments} line segments over the limit were skipped.`);
+      }
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Could not read that file.");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="underlay">
+      <div className="underlay__header">
+        <span>Underlay</span>
+        {underlay && (
+          <button type="button" className="underlay__action" onClick={() => onSetUnderlay(null)}>
+            Remove
+          </button>
+        )}
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={UNDERLAY_FILE_ACCEPT}
+        className="underlay__file"
+        onChange={handleFileChange}
+      />
+      <button
+        type="button"
+        className="toolbox__btn"
+        disabled={importing}
+        onClick={() => fileInputRef.current?.click()}
+      >
+        {importing ? "Importing…" : underlay ? "Replace plan…" : "Import plan (DXF, SVG or image)…"}
+      </button>
+      {message && <div className="underlay__message">{message}</div>}
+      {underlay ? (
+        <>
+          <div className="underlay__hint">{describeSource(underlay)}</div>
+          <label className="underlay__row">
+            <span className="underlay__label">Visible</span>
+            <input
+              type="checkbox"
+              checked={underlay.visible}
+              onChange={(event) => onUpdateUnderlay({ visible: event.target.checked })}
+            />
+          </label>
+          <label className="underlay__row">
+            <span className="underlay__label">Opacity</span>
+            <input
+              type="range"
+              min={0.1}
+              max={1}
+              step={0.05}
+              value={underlay.opacity}
+              className="underlay__range"
+              onChange={(event) => onUpdateUnderlay({ opacity: Number(event.target.value) }, false)}
+              onPointerUp={(event) => onUpdateUnderlay({ opacity: Number((event.target as HTMLInputElement).value) })}
+            />
+          </label>
+          {placementConfig.map(({ key, label, positive }) => (
+            <label key={key} className="underlay__row">
+              <span className="underlay__label">{key === "scale" && underlay.kind === "image" ? "Scale (mm per pixel)" : label}</span>
+              <PlacementInput
+                value={underlay[key]}
+                positive={Boolean(positive)}
+                ariaLabel={label}
+                // A hand-typed scale no longer matches the recorded calibration.
+                onCommit={(value) => onUpdateUnderlay(key === "scale" ? { scale: value, calibration: null } : { [key]: value })}
+              />
+            </label>
+          ))}
+          {calibrationPoints === null ? (
+            <>
+              <button type="button" className="toolbox__btn" onClick={onStartCalibration}>
+                Calibrate scale from two points
+              </button>
+              {underlay.calibration && (
+                <div className="underlay__hint">Calibrated to {underlay.calibration.distanceMm}mm between two picked points.</div>
+              )}
+            </>
+          ) : (
+            <div className="underlay__calibration">
+              {pickedCount < 2 ? (
+                <div className="underlay__hint">
+                  Click the {pickedCount === 0 ? "first" : "second"} point of a known distance on the canvas.
+                </div>
+              ) : (
+                <label className="underlay__row">
+                  <span className="underlay__label">Real distance (mm)</span>
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    autoFocus
+                    aria-label="Real distance between the points (mm)"
+                    className="underlay__input"
+                    value={distanceDraft}
+                    onChange={(event) => setDistanceDraft(sanitiseDecimalInput(event.target.value))}
+                    onKeyDown={handleDistanceKeyDown}
+                  />
+                </label>
+              )}
+              <div className="underlay__row">
+                <button type="button" className="underlay__action" onClick={onCancelCalibration}>
+                  Cancel
+                </button>
+                {pickedCount === 2 && (
+                  <button type="button" className="underlay__action" onClick={applyDistance}>
+                    Apply
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+        </>
+      ) : (
+        <div className="underlay__hint">Trace over an existing site or floor plan. It is drawn under the grid and never moves.</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import type { ComplianceWarning } from "../../model/compliance";
+import type { Object2D } from "../../model/types";
+
+type WarningsPanelProps = {
+  warnings: ComplianceWarning[];
+  objects: Object2D[];
+  selectedIds: string[];
+  onSelect: (id: string) => void;
+};
+
+const kindLabels: Record<Object2D["kind"], string> = {
+  ramp: "Ramp",
+  landing: "Landing",
+  stairs: "Stairs",
+};
+
+// A ramp can have a continuity warning at each end and for each object an end meets.
+const toWarningKey = ({ ruleId, objectId, connection }: ComplianceWarning): string =>
+  connection ? `${ruleId}-${objectId}-${connection.rampEnd}-${connection.targetId}` : `${ruleId}-${objectId}`;
+
+export default function WarningsPanel({ warnings, objects, selectedIds, onSelect }: WarningsPanelProps) {
+  return (
+    <div className="warnings">
+      <div className="warnings__header">
+        <span>Warnings</span>
+        <span className={`warnings__count ${warnings.length > 0 ? "has-warnings" : ""}`}>{warnings.length}</span>
+      </div>
+      {warnings.length === 0 ? (
+        <div className="warnings__empty">No compliance warnings.</div>
+      ) : (
+        <ul className="warnings__list">
+          {warnings.map((warning) => {
+            const obj = objects.find((candidate) => candidate.id === warning.objectId);
+            return (
+              <li key={toWarningKey(warning)}>
+                <button
+                  type="button"
+                  className={`warnings__item ${selectedIds.includes(warning.objectId) ? "isActive" : ""}`}
+                  onClick={() => onSelect(warning.objectId)}
+                >
+                  <span className="warnings__itemKind">{obj ? kindLabels[obj.kind] : "Object"}</span>
+                  <span className="warnings__itemMessage">{warning.message}</span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      <div className="warnings__hint">Warnings never block editing.</div>
+    </div>
+  );
+}
@@ -1,7 +1,150 @@
-export default function Preview3D() {
+import { useEffect, useMemo, useRef, useState, type ElementRef, type MutableRefObject } from "react";
+import { Canvas, useThree } from "@react-three/fiber";
+import { Edges, OrbitControls } from "@react-three/drei";
+import { Vector3 } from "three";
+import { getObjectsBoundsMm } from "../../export/planGeometry";
+import { getObjectSolidsMm } from "../../model/solids";
+import { Object2D, ObjectKind } from "../../model/types";
+import { MM_PER_SCENE_UNIT, createSolidGeometry } from "./solidGeometry";
+
+type Preview3DProps = {
+  objects: Object2D[];
+  selectedIds: string[];
+};
+
+type ViewPreset = "iso" | "top" | "front" | "side";
+
+type OrbitControlsRef = MutableRefObject<ElementRef<typeof OrbitControls> | null>;
+
+const viewPresets: { id: ViewPreset; label: string; direction: [number, number, number] }[] = [
+  { id: "iso", label: "Isometric", direction: [1, 1, 1] },
+  { id: "top", label: "Top", direction: [0, 1, 0.0001] },
+  { id: "front", label: "Front", direction: [0, 0, 1] },
+  { id: "side", label: "Side", direction: [1, 0, 0] },
+];
+
+const kindColour: Record<ObjectKind, string> = {
+  ramp: "#d1d5db",
+  landing: "#94a3b8",
+  stairs: "#cbd5e1",
+};
+
+const SELECTED_COLOUR = "#93c5fd";
+const CAMERA_FOV_DEG = 45;
+const MIN_VIEW_RADIUS = 1.5;
+const GROUND_SIZE = 60;
+
+/** Plan objects placed in the scene; each solid is triangulated once per object change. */
+function ObjectMesh({ obj, selected }: { obj: Object2D; selected: boolean }) {
+  const geometries = useMemo(() => getObjectSolidsMm(obj).map(createSolidGeometry), [obj]);
+
+  useEffect(() => () => geometries.forEach((geometry) => geometry.dispose()), [geometries]);
+
+  // Plan rotation turns +x towards +y (screen down); in the scene that is towards +z, a negative turn about y.
+  return (
+    <group
+      position={[obj.xMm / MM_PER_SCENE_UNIT, 0, obj.yMm / MM_PER_SCENE_UNIT]}
+      rotation={[0, (-obj.rotationDeg * Math.PI) / 180, 0]}
+    >
+      {geometries.map((geometry, idx) => (
+        <mesh key={idx} geometry={geometry}>
+          <meshStandardMaterial color={selected ? SELECTED_COLOUR : kindColour[obj.kind]} flatShading />
+          <Edges color={selected ? "#2563eb" : "#334155"} />
+        </mesh>
+      ))}
+    </group>
+  );
+}
+
+/** Frames every object from the requested preset direction whenever a preset is chosen. */
+function CameraRig({
+  objects,
+  preset,
+  request,
+  controlsRef,
+}: {
+  objects: Object2D[];
+  preset: ViewPreset;
+  request: number;
+  controlsRef: OrbitControlsRef;
+}) {
+  const camera = useThree((state) => state.camera);
+  const invalidate = useThree((state) => state.invalidate);
+  const objectsRef = useRef(objects);
+  objectsRef.current = objects;
+
+  useEffect(() => {
+    const current = objectsRef.current;
+    const bounds = getObjectsBoundsMm(current);
+    const topMm = current.reduce((max, obj) => Math.max(max, obj.elevationMm + obj.heightMm), 0);
+    const target = bounds
+      ? new Vector3(
+          (bounds.minX + bounds.maxX) / 2 / MM_PER_SCENE_UNIT,
+          topMm / 2 / MM_PER_SCENE_UNIT,
+          (bounds.minY + bounds.maxY) / 2 / MM_PER_SCENE_UNIT,
+        )
+      : new Vector3(0, 0, 0);
+    const radius = bounds
+      ? Math.hypot(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY, topMm) / 2 / MM_PER_SCENE_UNIT
+      : 0;
+    const distance = Math.max(radius, MIN_VIEW_RADIUS) / Math.sin(((CAMERA_FOV_DEG / 2) * Math.PI) / 180);
+    const direction = new Vector3(...viewPresets.find((view) => view.id === preset)!.direction).normalize();
+
+    camera.position.copy(target).addScaledVector(direction, distance);
+    camera.lookAt(target);
+    const controls = controlsRef.current;
+    if (controls) {
+      controls.target.copy(target);
+      controls.update();
+    }
+    invalidate();
+  }, [camera, controlsRef, invalidate, preset, request]);
+
+  return null;
+}
+
+/** View-only 3D model of the plan: solids extruded from each object's elevation and height. */
+export default function Preview3D({ objects, selectedIds }: Preview3DProps) {
+  const controlsRef: OrbitControlsRef = useRef(null);
+  const [preset, setPreset] = useState<ViewPreset>("iso");
+  // Bumped on every preset click so choosing the same view again re-frames the model.
+  const [request, setRequest] = useState(0);
+
+  const handleSelectPreset = (nextPreset: ViewPreset) => {
+    setPreset(nextPreset);
+    setRequest((count) => count + 1);
+  };
+
   return (
     <div className="ob-canvasHost">
-      <div className="canvas-placeholder">3D Preview (placeholder)</div>
+      <Canvas frameloop="demand" camera={{ fov: CAMERA_FOV_DEG, near: 0.01, far: 1000 }}>
+        <color attach="background" args={["#f8fafc"]} />
+        <ambientLight intensity={0.7} />
+        <directionalLight position={[6, 12, 8]} intensity={1.4} />
+        <directionalLight position={[-8, 6, -4]} intensity={0.4} />
+        <gridHelper args={[GROUND_SIZE, GROUND_SIZE, "#94a3b8", "#e2e8f0"]} />
+        {objects.map((obj) => (
+          <ObjectMesh key={obj.id} obj={obj} selected={selectedIds.includes(obj.id)} />
+        ))}
+        <OrbitControls ref={controlsRef} makeDefault />
+        <CameraRig objects={objects} preset={preset} request={request} controlsRef={controlsRef} />
+      </Canvas>
+      <div className="ob-previewViews">
+        {viewPresets.map((view) => (
+          <button
+            key={view.id}
+            type="button"
+            className={`ob-previewViews__btn ${view.id === preset ? "isActive" : ""}`}
+            onClick={() => handleSelectPreset(view.id)}
+          >
+            {view.label}
+          </button>
+        ))}
+      </div>
+      <div className="ob-canvasHud">
+        <div className="ob-canvasHud__item">Drag to orbit · Right-drag to pan · Scroll to zoom</div>
+        {objects.length === 0 && <div className="ob-canvasHud__item">Nothing to preview yet</div>}
+      </div>
     </div>
   );
 }
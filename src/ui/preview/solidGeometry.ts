@@ -0,0 +1,52 @@
+import { BufferGeometry, Float32BufferAttribute } from "three";
+import { PointMm } from "../../model/geometry";
+import { SolidMm, getSolidTopMm } from "../../model/solids";
+
+/** The 3D scene works in metres: plan x → x, plan y → z, height → y. */
+export const MM_PER_SCENE_UNIT = 1000;
+
+type Vertex = [number, number, number];
+
+const toVertex = (point: PointMm, heightMm: number): Vertex => [
+  point.xMm / MM_PER_SCENE_UNIT,
+  heightMm / MM_PER_SCENE_UNIT,
+  point.yMm / MM_PER_SCENE_UNIT,
+];
+
+// Positive when the footprint winds so its faces point up (+y) with plan y mapped onto +z.
+const windsUpwards = (points: PointMm[]) =>
+  points.reduce((sum, point, idx) => {
+    const next = points[(idx + 1) % points.length];
+    return sum + (point.yMm * next.xMm - point.xMm * next.yMm);
+  }, 0) > 0;
+
+/**
+ * Triangulates a solid into a flat-shaded, non-indexed geometry. Footprints are convex, so the
+ * top and bottom faces are simple fans; sides with no height (a ramp's low edge) are skipped.
+ */
+export const createSolidGeometry = (solid: SolidMm): BufferGeometry => {
+  const footprint = windsUpwards(solid.footprint) ? solid.footprint : [...solid.footprint].reverse();
+  const bottom = footprint.map((point) => toVertex(point, solid.bottomMm));
+  const topHeights = footprint.map((point) => getSolidTopMm(solid, point));
+  const top = footprint.map((point, idx) => toVertex(point, topHeights[idx]));
+  const positions: number[] = [];
+  const pushTriangle = (a: Vertex, b: Vertex, c: Vertex) => positions.push(...a, ...b, ...c);
+
+  for (let idx = 1; idx < footprint.length - 1; idx += 1) {
+    pushTriangle(top[0], top[idx], top[idx + 1]);
+    pushTriangle(bottom[0], bottom[idx + 1], bottom[idx]);
+  }
+
+  footprint.forEach((_, idx) => {
+    const next = (idx + 1) % footprint.length;
+    const riseA = topHeights[idx] - solid.bottomMm;
+    const riseB = topHeights[next] - solid.bottomMm;
+    if (riseA > 0) pushTriangle(bottom[idx], bottom[next], top[idx]);
+    if (riseB > 0) pushTriangle(bottom[next], top[next], top[idx]);
+  });
+
+  const geometry = new BufferGeometry();
+  geometry.setAttribute("position", new Float32BufferAttribute(positions, 3));
+  geometry.computeVertexNormals();
+  return geometry;
+};
@@ -0,0 +1,107 @@
+import { useEffect } from "react";
+import { OBJECT_KIND_LABELS } from "../../model/outliner";
+import { SCHEMA_VERSION } from "../../model/migrations";
+import type { ProjectFileImport } from "../../model/storage";
+
+type ProjectImportDialogProps = {
+  fileName: string;
+  /** The file as read, or null when it could not be opened at all. */
+  result: ProjectFileImport | null;
+  error: string | null;
+  onOpen: () => void;
+  onClose: () => void;
+};
+
+/** Shows what an imported project file contains, and what had to be dropped or repaired, before it replaces the current one. */
+export default function ProjectImportDialog({ fileName, result, error, onOpen, onClose }: ProjectImportDialogProps) {
+  useEffect(() => {
+    const handleKey = (event: globalThis.KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [onClose]);
+
+  const report = result?.report ?? null;
+  const clean = report !== null && report.dropped.length === 0 && report.repaired.length === 0 && report.droppedGroups === 0;
+
+  return (
+    <div className="ob-dialogBackdrop" onMouseDown={onClose}>
+      <div
+        className="ob-dialog"
+        role="dialog"
+        aria-modal="true"
+        aria-label="Open Project"
+        onMouseDown={(evt) => evt.stopPropagation()}
+      >
+        <div className="ob-dialog__header">
+          <span className="ob-dialog__title">Open Project</span>
+          <button type="button" className="mode-button mode-button--ghost" onClick={onClose}>
+            Close
+          </button>
+        </div>
+        <div className="ob-dialog__section">
+          <div className="ob-dialog__sectionTitle">{fileName}</div>
+          {error && <div className="ob-dialog__hint ob-dialog__hint--warning">{error}</div>}
+          {result && report && (
+            <>
+              <div className="ob-dialog__hint">
+                {result.project.projectInfo.name || "Untitled project"}: {result.project.objects.length}{" "}
+                {result.project.objects.length === 1 ? "object" : "objects"}, {result.project.groups.length}{" "}
+                {result.project.groups.length === 1 ? "group" : "groups"}
+              </div>
+              {report.schemaVersion < SCHEMA_VERSION && (
+                <div className="ob-dialog__hint">
+                  Saved with project format v{report.schemaVersion}; updated to v{SCHEMA_VERSION}.
+                </div>
+              )}
+              {clean && <div className="ob-dialog__hint">Every object was read as saved.</div>}
+            </>
+          )}
+        </div>
+        {report && report.dropped.length > 0 && (
+          <div className="ob-dialog__section">
+            <div className="ob-dialog__sectionTitle">Dropped ({report.dropped.length})</div>
+            <ul className="ob-dialog__list">
+              {report.dropped.map((dropped) => (
+                <li key={dropped.index} className="ob-dialog__hint ob-dialog__hint--warning">
+                  Entry {dropped.index + 1}
+                  {dropped.kind ? ` (${dropped.kind}${dropped.id ? ` ${dropped.id}` : ""})` : ""}: {dropped.reason}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {report && report.repaired.length > 0 && (
+          <div className="ob-dialog__section">
+            <div className="ob-dialog__sectionTitle">Repaired ({report.repaired.length})</div>
+            <ul className="ob-dialog__list">
+              {report.repaired.map((repaired) => (
+                <li key={repaired.id} className="ob-dialog__hint">
+                  {OBJECT_KIND_LABELS[repaired.kind]} {repaired.id}: {repaired.fields.join(", ")} replaced with valid values
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {report && report.droppedGroups > 0 && (
+          <div className="ob-dialog__hint ob-dialog__hint--warning">
+            {report.droppedGroups} {report.droppedGroups === 1 ? "group was" : "groups were"} left out: fewer than two of
+            their objects could be read.
+          </div>
+        )}
+        <div className="ob-dialog__section">
+          {result && <div className="ob-dialog__hint">Opening replaces the current project. Undo brings it back.</div>}
+          <div className="ob-dialog__actions">
+            <button type="button" className="mode-button" onClick={onClose}>
+              Cancel
+            </button>
+            <button type="button" className="mode-button mode-button--active" onClick={onOpen} disabled={!result}>
+              Open
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { matchesProjectSearch, type ProjectSummary } from "../../storage/projectLibrary";
+import { formatDateTime } from "./formatDate";
+
+type ProjectLibraryDialogProps = {
+  currentProjectId: string | null;
+  onListProjects: () => Promise<ProjectSummary[]>;
+  onOpen: (id: string) => Promise<void>;
+  onNew: () => Promise<void>;
+  onRename: (id: string, name: string) => Promise<void>;
+  onDuplicate: (id: string) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  onClose: () => void;
+};
+
+/** Every stored project, searchable, with the actions that manage them. */
+export default function ProjectLibraryDialog({
+  currentProjectId,
+  onListProjects,
+  onOpen,
+  onNew,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onClose,
+}: ProjectLibraryDialogProps) {
+  const [projects, setProjects] = useState<ProjectSummary[] | null>(null);
+  const [query, setQuery] = useState("");
+  const [renaming, setRenaming] = useState<{ id: string; draft: string } | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setProjects(await onListProjects());
+    } catch (error) {
+      setProjects([]);
+      setMessage(error instanceof Error ? error.message : "Could not read the project library.");
+    }
+  }, [onListProjects]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    const handleKey = (event: globalThis.KeyboardEvent) => {
+      if (event.key === "Escape" && !renaming) onClose();
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [onClose, renaming]);
+
+  const visibleProjects = useMemo(
+    () => (projects ?? []).filter((summary) => matchesProjectSearch(summary, query)),
+    [projects, query],
+  );
+
+  /** Runs one library action at a time, then re-reads the list so it shows the result. */
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      await action();
+      await refresh();
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "That did not work. Try again.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const commitRename = () => {
+    if (!renaming) return;
+    const name = renaming.draft.trim();
+    const current = projects?.find((summary) => summary.id === renaming.id);
+    setRenaming(null);
+    if (!name || name === current?.name) return;
+    void run(() => onRename(renaming.id, name));
+  };
+
+  return (
+    <div className="ob-dialogBackdrop" onMouseDown={onClose}>
+      <div
+        className="ob-dialog ob-dialog--wide"
+        role="dialog"
+        aria-modal="true"
+        aria-label="Projects"
+        onMouseDown={(evt) => evt.stopPropagation()}
+      >
+        <div className="ob-dialog__header">
+          <span className="ob-dialog__title">Projects</span>
+          <button type="button" className="mode-button mode-button--ghost" onClick={onClose}>
+            Close
+          </button>
+        </div>
+        <div className="library__toolbar">
+          <input
+            type="search"
+            className="ob-dialog__input library__search"
+            placeholder="Search by name, client or address"
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+          />
+          <button type="button" className="mode-button mode-button--active" disabled={busy} onClick={() => void run(onNew)}>
+            New Project
+          </button>
+        </div>
+        {message && <div className="ob-dialog__hint ob-dialog__hint--warning">{message}</div>}
+        {projects === null ? (
+          <div className="ob-dialog__hint">Loading projects…</div>
+        ) : visibleProjects.length === 0 ? (
+          <div className="ob-dialog__hint">{projects.length === 0 ? "No saved projects yet." : "No projects match that search."}</div>
+        ) : (
+          <ul className="library__list">
+            {visibleProjects.map((summary) => {
+              const isCurrent = summary.id === currentProjectId;
+              return (
+                <li key={summary.id} className={`library__item ${isCurrent ? "isActive" : ""}`}>
+                  <div className="library__thumbnail">
+                    {summary.thumbnail ? <img src={summary.thumbnail} alt="" /> : <span>Empty</span>}
+                  </div>
+                  <div className="library__details">
+                    {renaming?.id === summary.id ? (
+                      <input
+                        type="text"
+                        className="ob-dialog__input library__renameInput"
+                        value={renaming.draft}
+                        autoFocus
+                        onChange={(event) => setRenaming({ id: summary.id, draft: event.target.value })}
+                        onBlur={commitRename}
+                        onKeyDown={(event) => {
+                          if (event.key === "Enter") commitRename();
+                          if (event.key === "Escape") setRenaming(null);
+                        }}
+                      />
+                    ) : (
+                      <span className="library__name">
+                        {summary.name || "Untitled project"}
+                        {isCurrent && <span className="library__badge">Open</span>}
+                      </span>
+                    )}
+                    <span className="library__meta">
+                      {[summary.client, summary.address].filter(Boolean).join(" · ") || "No client or address"}
+                    </span>
+                    <span className="library__meta">
+                      {summary.objectCount} {summary.objectCount === 1 ? "object" : "objects"} · Modified{" "}
+                      {formatDateTime(summary.modifiedAt)} · Created {formatDateTime(summary.createdAt)}
+                    </span>
+                  </div>
+                  <div className="library__actions">
+                    {confirmDeleteId === summary.id ? (
+                      <>
+                        <button
+                          type="button"
+                          className="mode-button library__danger"
+                          disabled={busy}
+                          onClick={() => {
+                            setConfirmDeleteId(null);
+                            void run(() => onDelete(summary.id));
+                          }}
+                        >
+                          Delete for good
+                        </button>
+                        <button type="button" className="mode-button" onClick={() => setConfirmDeleteId(null)}>
+                          Keep
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        <button
+                          type="button"
+                          className="mode-button mode-button--active"
+                          disabled={busy || isCurrent}
+                          onClick={() => void run(() => onOpen(summary.id))}
+                        >
+                          Open
+                        </button>
+                        <button
+                          type="button"
+                          className="mode-button"
+                          disabled={busy}
+                          onClick={() => setRenaming({ id: summary.id, draft: summary.name })}
+                        >
+                          Rename
+                        </button>
+                        <button
+                          type="button"
+                          className="mode-button"
+                          disabled={busy}
+                          onClick={() => void run(() => onDuplicate(summary.id))}
+                        >
+                          Duplicate
+                        </button>
+                        <button
+                          type="button"
+                          className="mode-button"
+                          disabled={busy}
+                          onClick={() => setConfirmDeleteId(summary.id)}
+                        >
+                          Delete
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        <div className="ob-dialog__hint">Projects are stored in this browser and save as you work.</div>
+      </div>
+    </div>
+  );
+}
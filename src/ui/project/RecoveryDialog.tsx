@@ -0,0 +1,56 @@
+import { useState } from "react";
+import { formatDateTime } from "./formatDate";
+
+type RecoveryDialogProps = {
+  projectName: string;
+  savedAt: number;
+  /** Whether the library has an older copy of the project, which recovering keeps as a revision. */
+  hasStoredCopy: boolean;
+  onRecover: () => Promise<void>;
+  onDiscard: () => void;
+};
+
+/** Offered at startup when the last session closed before its latest edits were stored. */
+export default function RecoveryDialog({ projectName, savedAt, hasStoredCopy, onRecover, onDiscard }: RecoveryDialogProps) {
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleRecover = async () => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      await onRecover();
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "The changes could not be recovered.");
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="ob-dialogBackdrop">
+      <div className="ob-dialog" role="alertdialog" aria-modal="true" aria-label="Recover unsaved changes">
+        <div className="ob-dialog__header">
+          <span className="ob-dialog__title">Recover unsaved changes?</span>
+        </div>
+        <p className="ob-dialog__text">
+          The last session closed before its changes to <strong>{projectName || "Untitled project"}</strong>, made at{" "}
+          {formatDateTime(savedAt)}, were stored.
+        </p>
+        <div className="ob-dialog__hint">
+          {hasStoredCopy
+            ? "Recovering opens the project with those changes. The version stored before them is kept as a revision."
+            : "The project was never stored, so these changes are the only copy of it."}
+        </div>
+        {message && <div className="ob-dialog__hint ob-dialog__hint--warning">{message}</div>}
+        <div className="ob-dialog__actions">
+          <button type="button" className="mode-button" disabled={busy} onClick={onDiscard}>
+            Discard
+          </button>
+          <button type="button" className="mode-button mode-button--active" disabled={busy} onClick={() => void handleRecover()}>
+            Recover
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import { useCallback, useEffect, useState } from "react";
+import { AUTO_REVISION_INTERVAL_MS, MAX_AUTO_REVISIONS, type ProjectRevision } from "../../storage/projectLibrary";
+import { formatDateTime } from "./formatDate";
+
+type RevisionsDialogProps = {
+  projectName: string;
+  onListRevisions: () => Promise<ProjectRevision[]>;
+  onSaveRevision: (label: string) => Promise<void>;
+  onRestore: (revisionId: string) => Promise<void>;
+  onDelete: (revisionId: string) => Promise<void>;
+  onClose: () => void;
+};
+
+const describeRevision = (revision: ProjectRevision) => revision.label || (revision.kind === "auto" ? "Autosave" : "Saved revision");
+
+/** The open project's revisions: save one now, or pick one to preview and restore. */
+export default function RevisionsDialog({
+  projectName,
+  onListRevisions,
+  onSaveRevision,
+  onRestore,
+  onDelete,
+  onClose,
+}: RevisionsDialogProps) {
+  const [revisions, setRevisions] = useState<ProjectRevision[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [label, setLabel] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setRevisions(await onListRevisions());
+    } catch (error) {
+      setRevisions([]);
+      setMessage(error instanceof Error ? error.message : "Could not read the revisions.");
+    }
+  }, [onListRevisions]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    const handleKey = (event: globalThis.KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [onClose]);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      await action();
+      await refresh();
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "That did not work. Try again.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const selected = revisions?.find((revision) => revision.id === selectedId) ?? revisions?.[0] ?? null;
+  const intervalMinutes = Math.round(AUTO_REVISION_INTERVAL_MS / 60000);
+
+  return (
+    <div className="ob-dialogBackdrop" onMouseDown={onClose}>
+      <div
+        className="ob-dialog ob-dialog--wide"
+        role="dialog"
+        aria-modal="true"
+        aria-label="Revisions"
+        onMouseDown={(evt) => evt.stopPropagation()}
+      >
+        <div className="ob-dialog__header">
+          <span className="ob-dialog__title">Revisions of {projectName || "Untitled project"}</span>
+          <button type="button" className="mode-button mode-button--ghost" onClick={onClose}>
+            Close
+          </button>
+        </div>
+        <div className="library__toolbar">
+          <input
+            type="text"
+            className="ob-dialog__input library__search"
+            placeholder="Label (optional), e.g. Issued to client"
+            value={label}
+            onChange={(event) => setLabel(event.target.value)}
+          />
+          <button
+            type="button"
+            className="mode-button mode-button--active"
+            disabled={busy}
+            onClick={() =>
+              void run(async () => {
+                await onSaveRevision(label.trim());
+                setLabel("");
+                setSelectedId(null);
+              })
+            }
+          >
+            Save Revision
+          </button>
+        </div>
+        {message && <div className="ob-dialog__hint ob-dialog__hint--warning">{message}</div>}
+        {revisions === null ? (
+          <div className="ob-dialog__hint">Loading revisions…</div>
+        ) : revisions.length === 0 || !selected ? (
+          <div className="ob-dialog__hint">No revisions yet.</div>
+        ) : (
+          <div className="revisions">
+            <ul className="revisions__list">
+              {revisions.map((revision) => (
+                <li key={revision.id}>
+                  <button
+                    type="button"
+                    className={`revisions__item ${revision.id === selected.id ? "isActive" : ""}`}
+                    onClick={() => setSelectedId(revision.id)}
+                  >
+                    <span className="library__name">{describeRevision(revision)}</span>
+                    <span className="library__meta">
+                      {formatDateTime(revision.createdAt)} · {revision.kind === "auto" ? "auto" : "saved"}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <div className="revisions__preview">
+              <div className="revisions__thumbnail">
+                {selected.thumbnail ? <img src={selected.thumbnail} alt="Plan of this revision" /> : <span>Empty plan</span>}
+              </div>
+              <span className="library__name">{describeRevision(selected)}</span>
+              <span className="library__meta">
+                {formatDateTime(selected.createdAt)} · {selected.objectCount} {selected.objectCount === 1 ? "object" : "objects"}
+              </span>
+              <div className="library__actions">
+                <button
+                  type="button"
+                  className="mode-button"
+                  disabled={busy}
+                  onClick={() =>
+                    void run(async () => {
+                      await onDelete(selected.id);
+                      setSelectedId(null);
+                    })
+                  }
+                >
+                  Delete
+                </button>
+                <button
+                  type="button"
+                  className="mode-button mode-button--active"
+                  disabled={busy}
+                  onClick={() => void run(() => onRestore(selected.id))}
+                >
+                  Restore
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+        <div className="ob-dialog__hint">
+          A revision is taken every {intervalMinutes} minutes while you edit, and the {MAX_AUTO_REVISIONS} most recent are
+          kept; saved revisions stay until deleted. Restoring replaces the plan and can be undone.
+        </div>
+      </div>
+    </div>
+  );
+}
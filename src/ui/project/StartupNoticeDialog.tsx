@@ -0,0 +1,31 @@
+type StartupNoticeDialogProps = {
+  /** One line per project that was passed over, saying why. */
+  problems: string[];
+  onClose: () => void;
+};
+
+/** Says which stored projects could not be opened at startup, and so were left as they are. */
+export default function StartupNoticeDialog({ problems, onClose }: StartupNoticeDialogProps) {
+  return (
+    <div className="ob-dialogBackdrop">
+      <div className="ob-dialog" role="alertdialog" aria-modal="true" aria-label="Some projects could not be opened">
+        <div className="ob-dialog__header">
+          <span className="ob-dialog__title">Some projects could not be opened</span>
+        </div>
+        <ul className="ob-dialog__list">
+          {problems.map((problem) => (
+            <li key={problem} className="ob-dialog__hint ob-dialog__hint--warning">
+              {problem}
+            </li>
+          ))}
+        </ul>
+        <div className="ob-dialog__hint">They have not been changed, and open again once the app can read them.</div>
+        <div className="ob-dialog__actions">
+          <button type="button" className="mode-button mode-button--active" onClick={onClose}>
+            OK
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,3 @@
+/** A date and time for project and revision lists, e.g. "19 Oct 2026, 02:15 pm". */
+export const formatDateTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString("en-AU", { day: "2-digit", month: "short", year: "numeric", hour: "2-digit", minute: "2-digit" });